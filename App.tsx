@@ -1,131 +1,135 @@
 import React, { Component, useState, useEffect, useReducer, useRef, useMemo } from 'react';
 import { SideMenu } from './components/SideMenu';
+import { Modal } from './components/Modal';
+import { BackupModal } from './components/BackupModal';
+import { ImportModal } from './components/ImportModal';
+import { SerialHistoryModal } from './components/SerialHistoryModal';
+import { DuplicatesModal, ConflictLinks } from './components/DuplicatesModal';
+import { ContractsModal } from './components/ContractsModal';
+import { CategorySettings } from './components/CategorySettings';
+import { ScannerSettings } from './components/ScannerSettings';
+import { PhotoScanModal } from './components/PhotoScanModal';
+import { PhotoSettings } from './components/PhotoSettings';
+import { PhotoAnnotator } from './components/PhotoAnnotator';
+import { HistoryModal } from './components/HistoryModal';
+import { SearchModal } from './components/SearchModal';
+import { DashboardModal } from './components/DashboardModal';
+import { ProfilesModal, ProfileLockScreen } from './components/ProfilesModal';
+import { AppLockGate } from './components/AppLockGate';
+import { LockSettings } from './components/LockSettings';
+import { SyncModal, SyncIndicator, useSync } from './components/SyncModal';
 import { 
-    CustomMenuIcon, IconPlus, IconMinus, IconTrash, IconUndo, IconSearch, IconCamera, IconGallery, IconClipboard, IconX, IconShare, IconChevronLeft, IconChevronRight,
-    IconFileWord, IconFileExcel, IconWhatsapp, IconTelegram, IconEmail, IconSave, IconStack
+    CustomMenuIcon, IconPlus, IconMinus, IconTrash, IconUndo, IconRedo, IconSearch, IconCamera, IconGallery, IconClipboard, IconX, IconShare, IconChevronLeft, IconChevronRight,
+    IconFileWord, IconFileExcel, IconFilePdf, IconClock, IconWhatsapp, IconTelegram, IconEmail, IconSave, IconStack, IconWarning, IconFolder
 } from './components/icons';
-import { EquipmentCategory, AppData, DailyData, EquipmentItem } from './types';
-import { CATEGORIES } from './constants';
+import { EquipmentCategory, AppData, DailyData, EquipmentItem, CategorizedItem, CategoryConfig, FieldDefinition, Profile } from './types';
 import { Html5QrcodeScanner, Html5QrcodeScanType } from "html5-qrcode";
+import { PhotoImage } from './components/PhotoImage';
+import { savePhoto, getPhoto, prunePhotos, collectPhotoIds } from './utils/photoStore';
+import { downloadBlob } from './utils/download';
+import { loadAppData, saveAppData, listQuarantine, deleteQuarantine, QuarantineRecord, STORAGE_KEY } from './utils/storage';
+import { getFormattedDate, generateId, createEmptyItem, ensureDayCategories, isItemActive } from './utils/appData';
+import { getItemQuantity, getQuantityWarnings, sumMonthQuantity, sumQuantity } from './utils/totals';
+import { createEquipmentXlsx } from './utils/xlsx';
+import { createEquipmentPdf } from './utils/pdfReport';
+import { DateRange, getDataInRange, getPresetRange, parseDateKey, formatDateKey, formatMonthKey, listMonthsInRange } from './utils/dateRange';
+import { RangePicker } from './components/RangePicker';
+import { loadCategories, saveCategories, getActiveCategories, getCategoryName, getShortLabel, resolveCategories, mergeCategories } from './utils/categories';
+import { getCategoryFields, getFieldValue, setFieldValue, isBaseField, validateItem, describeCustomFields } from './utils/fields';
+import { loadScannerSettings, saveScannerSettings, toSupportedFormats, decodeImage, parseScan, applyScan, describeScan, ParsedScan } from './utils/scanner';
+import { Action, ItemPatch, dataReducer } from './utils/appReducer';
+import { selectDayQuantity, selectListQuantity, selectMonthQuantity } from './utils/selectors';
+import { SearchHit } from './utils/searchIndex';
+import { HistoryState, EMPTY_HISTORY, HISTORY_KEY, diffData, changedFields, recordEntry, forgetLists, undo, redo, travel, loadHistory, saveHistory, collectHistoryPhotoIds } from './utils/history';
+import { loadProfiles, saveProfiles, loadActiveProfileId, saveActiveProfileId, getProfileKey, removeProfileData, stampAction, collectOtherProfilesPhotoIds } from './utils/profiles';
+import { toRemotePayload } from './utils/sync';
+import { registerServiceWorker } from './utils/serviceWorker';
+import { playBeep } from './utils/beep';
+import { loadPhotoSettings, savePhotoSettings, processPhoto, buildWatermark } from './utils/photoPipeline';
+import { buildSerialIndex, findSerialConflicts, findDayDuplicates, isDuplicateAcknowledged, normalizeSerial } from './utils/serialIndex';
 
 // --- UTILITIES ---
 
-const getFormattedDate = (date: Date): string => {
-  return date.toISOString().split('T')[0];
-};
-
-const generateId = () => {
-  return Date.now().toString(36) + Math.random().toString(36).substring(2);
-};
-
-const createEmptyDailyData = (): DailyData => {
-  const data = CATEGORIES.reduce((acc, category) => {
-    acc[category] = [];
-    return acc;
-  }, {} as DailyData);
-
-  CATEGORIES.forEach(category => {
-    data[category].push({ id: generateId(), qt: '', contract: '', serial: '', photos: [] });
-  });
-
-  return data;
-};
+// --- HISTORY ---
 
-const getDataInRange = (appData: AppData, currentDate: Date, scope: 'day' | 'month'): { data: DailyData, label: string } => {
-    const fmtDate = getFormattedDate(currentDate);
-    
-    if (scope === 'day') {
-        return { 
-            data: appData[fmtDate] || createEmptyDailyData(), 
-            label: fmtDate 
-        };
-    } else {
-        const year = currentDate.getFullYear();
-        const month = currentDate.getMonth();
-        const startDay = 1;
-        const currentDay = currentDate.getDate();
-        
-        const aggregatedData = createEmptyDailyData();
-        CATEGORIES.forEach(cat => aggregatedData[cat] = []);
-
-        for (let d = startDay; d <= currentDay; d++) {
-            const loopDate = new Date(year, month, d);
-            const loopFmt = getFormattedDate(loopDate);
-            const dayData = appData[loopFmt];
-
-            if (dayData) {
-                CATEGORIES.forEach(cat => {
-                    const items = dayData[cat] || [];
-                    const activeItems = items.filter(isItemActive);
-                    if (activeItems.length > 0) {
-                        aggregatedData[cat].push(...activeItems);
-                    }
-                });
-            }
-        }
-        return { 
-            data: aggregatedData, 
-            label: `Mês ${month + 1}/${year} (até dia ${currentDay})` 
-        };
-    }
-};
+const countLabel = (count: number) => count === 1 ? '1 item' : `${count} itens`;
 
-// --- REDUCER ---
-
-type Action =
-  | { type: 'SET_DATA'; payload: AppData }
-  | { type: 'ENSURE_DAY_DATA'; payload: { date: string; dayData: DailyData } }
-  | { type: 'ADD_ITEM'; payload: { date: string; category: EquipmentCategory } }
-  | { type: 'UPDATE_ITEM'; payload: { date: string; category: EquipmentCategory; item: EquipmentItem } }
-  | { type: 'DELETE_ITEMS'; payload: { date: string; category: EquipmentCategory; itemIds: string[] } }
-  | { type: 'CLEAR_ALL_DATA' };
-
-const dataReducer = (state: AppData, action: Action): AppData => {
-    switch(action.type) {
-        case 'SET_DATA': return action.payload;
-        case 'ENSURE_DAY_DATA': {
-            const { date, dayData } = action.payload;
-            if (state[date]) return state;
-            const newState = { ...state };
-            newState[date] = dayData;
-            return newState;
-        }
-        case 'ADD_ITEM': {
-            const { date, category } = action.payload;
-            const newState = JSON.parse(JSON.stringify(state));
-            if (!newState[date]) newState[date] = createEmptyDailyData();
-            const newItem: EquipmentItem = { id: generateId(), qt: '', contract: '', serial: '', photos: [] };
-            newState[date][category].push(newItem);
-            return newState;
-        }
+// "Apagou 3 itens em CHIP", "Editou Serial em BOX"...
+const describeAction = (action: Action, data: AppData, categories: CategoryConfig[]): string => {
+    const inCategories = (ids: EquipmentCategory[]) => {
+        const unique = Array.from(new Set(ids));
+        return unique.length === 1 ? ` em ${getCategoryName(categories, unique[0])}` : unique.length > 1 ? ` em ${unique.length} categorias` : '';
+    };
+    switch (action.type) {
+        case 'ADD_ITEM': return `Adicionou item${inCategories([action.payload.category])}`;
         case 'UPDATE_ITEM': {
             const { date, category, item } = action.payload;
-            const newState = JSON.parse(JSON.stringify(state));
-            const dayData = newState[date]?.[category];
-            if (!dayData) return state;
-            const itemIndex = dayData.findIndex((i: EquipmentItem) => i.id === item.id);
-            if (itemIndex > -1) dayData[itemIndex] = item;
-            else dayData.push(item);
-            return newState;
+            const before = data[date]?.[category]?.find(i => i.id === item.id);
+            const fields = getCategoryFields(categories.find(c => c.id === category));
+            const labels = changedFields(before, item).map(key => {
+                if (key === 'photos') return 'Fotos';
+                if (key === 'duplicateAck') return 'Conferência de duplicado';
+                return fields.find(f => f.id === key.replace(/^extra\./, ''))?.label;
+            }).filter(Boolean);
+            return `Editou ${labels.length > 0 ? labels.join(', ') : 'item'}${inCategories([category])}`;
         }
         case 'DELETE_ITEMS': {
-            const { date, category, itemIds } = action.payload;
-            const newState = JSON.parse(JSON.stringify(state));
-            const dayData = newState[date]?.[category];
-            if (!dayData) return state;
-            newState[date][category] = dayData.filter((item: EquipmentItem) => !itemIds.includes(item.id));
-            if (newState[date][category].length === 0) {
-                 newState[date][category].push({ id: generateId(), qt: '', contract: '', serial: '', photos: [] });
-            }
-            return newState;
+            const { selection } = action.payload;
+            const used = Object.keys(selection).filter(c => selection[c].length > 0);
+            return `Apagou ${countLabel(used.reduce((sum, c) => sum + selection[c].length, 0))}${inCategories(used)}`;
         }
-        case 'CLEAR_ALL_DATA': return {};
-        default: return state;
+        case 'ADD_ITEMS': return `Adicionou ${countLabel(action.payload.entries.length)}${inCategories(action.payload.entries.map(e => e.category))}`;
+        case 'UPDATE_ITEMS': return `Atualizou ${countLabel(action.payload.entries.length)}${inCategories(action.payload.entries.map(e => e.category))}`;
+        case 'PATCH_ITEMS': return `Atualizou ${countLabel(action.payload.patches.length)}${inCategories(action.payload.patches.map(p => p.category))}`;
+        case 'SET_DATA': return 'Substituiu todos os dados';
+        case 'CLEAR_ALL_DATA': return 'Apagou todos os dados';
+        default: return 'Alteração';
     }
+};
+
+interface AppState {
+    data: AppData;
+    history: HistoryState;
 }
 
-const isItemActive = (item: EquipmentItem): boolean => {
-    return (item.qt && item.qt.trim() !== '') || (item.contract && item.contract.trim() !== '') || (item.serial && item.serial.trim() !== '') || item.photos.length > 0;
+// RECORD runs a data action and stores its patch; the other data actions (loading, input
+// rows) are not user edits and bypass the history.
+type AppAction =
+  | Action
+  | { type: 'LOAD'; payload: AppState }
+  | { type: 'RECORD'; action: Action; label: string }
+  | { type: 'UNDO' }
+  | { type: 'REDO' }
+  | { type: 'TRAVEL'; steps: number };
+
+const appReducer = (state: AppState, action: AppAction): AppState => {
+    switch (action.type) {
+        case 'LOAD': return action.payload;
+        case 'RECORD': {
+            const inner = action.action;
+            const data = dataReducer(state.data, inner);
+            if (data === state.data) return state;
+            const dates = inner.type === 'SET_DATA' || inner.type === 'CLEAR_ALL_DATA' || inner.type === 'APPLY_REMOTE' ? undefined : [inner.payload.date];
+            let groupKey: string | undefined;
+            if (inner.type === 'UPDATE_ITEM') {
+                const { date, category, item } = inner.payload;
+                const before = state.data[date]?.[category]?.find(i => i.id === item.id);
+                groupKey = `${date}|${category}|${item.id}|${changedFields(before, item).join(',')}`;
+            }
+            return { data, history: recordEntry(state.history, action.label, diffData(state.data, data, dates), groupKey) };
+        }
+        case 'UNDO': return undo(state.data, state.history) || state;
+        case 'REDO': return redo(state.data, state.history) || state;
+        case 'TRAVEL': return action.steps === 0 ? state : travel(state.data, state.history, action.steps);
+        case 'APPLY_REMOTE': {
+            const data = dataReducer(state.data, action);
+            return data === state.data ? state : { data, history: forgetLists(state.history, diffData(state.data, data)) };
+        }
+        default: {
+            const data = dataReducer(state.data, action);
+            return data === state.data ? state : { ...state, data };
+        }
+    }
 };
 
 // --- ERROR BOUNDARY ---
@@ -151,44 +155,156 @@ class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundarySta
 
 // --- MAIN APP ---
 
-const AppContent = () => {
+const AppContent = ({ onLock }: { onLock: () => void }) => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [currentDate, setCurrentDate] = useState(new Date());
-  const [appData, dispatch] = useReducer(dataReducer, {});
-  const [history, setHistory] = useState<AppData[]>([]);
-  const [isRestoring, setIsRestoring] = useState(false);
+  const [{ data: appData, history }, dispatch] = useReducer(appReducer, { data: {}, history: EMPTY_HISTORY });
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [storageNotice, setStorageNotice] = useState<string | null>(null);
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
   const [galleryItem, setGalleryItem] = useState<EquipmentItem | null>(null);
   const [activeModal, setActiveModal] = useState<string | null>(null);
-  const [activeCategory, setActiveCategory] = useState<EquipmentCategory>(CATEGORIES[0]);
+  const [profiles, setProfiles] = useState<Profile[]>(loadProfiles);
+  const [activeProfileId, setActiveProfileId] = useState(() => loadActiveProfileId(profiles));
+  const [isProfileLocked, setIsProfileLocked] = useState(() => !!profiles.find(p => p.id === activeProfileId)?.pin);
+  const [categories, setCategories] = useState<CategoryConfig[]>(loadCategories);
+  const [scannerSettings, setScannerSettings] = useState(loadScannerSettings);
+  const [photoSettings, setPhotoSettings] = useState(loadPhotoSettings);
+  const [activeCategory, setActiveCategory] = useState<EquipmentCategory>(() => getActiveCategories(categories)[0].id);
   const [isSearchActive, setIsSearchActive] = useState(false);
+  const [searchNav, setSearchNav] = useState<{ hits: SearchHit[]; index: number } | null>(null);
+  const [highlightedItem, setHighlightedItem] = useState<string | null>(null);
   const [confirmation, setConfirmation] = useState<{ message: string; onConfirm: () => void } | null>(null);
   const [cameraModalItem, setCameraModalItem] = useState<EquipmentItem | null>(null);
+  const [serialHistory, setSerialHistory] = useState<string | null>(null);
+  const [contractView, setContractView] = useState<string | null>(null);
   const [isGlobalDeleteMode, setIsGlobalDeleteMode] = useState(false);
   const [selectedItems, setSelectedItems] = useState<Record<string, string[]>>({});
   
   const formattedDate = getFormattedDate(currentDate);
+  const activeCategories = useMemo(() => getActiveCategories(categories), [categories]);
+  const activeProfile = profiles.find(p => p.id === activeProfileId) || profiles[0];
 
-  const dispatchWithHistory = (action: Action) => {
-    setHistory(prev => [appData, ...prev].slice(0, 10)); 
-    dispatch(action);
+  const dispatchWithHistory = (action: Action, label?: string) => {
+    const stamped = stampAction(action, activeProfile.id);
+    dispatch({ type: 'RECORD', action: stamped, label: label || describeAction(stamped, appData, categories) });
   };
 
   useEffect(() => {
-    const savedData = localStorage.getItem('equipmentData');
-    if (savedData) dispatch({ type: 'SET_DATA', payload: JSON.parse(savedData) });
+    registerServiceWorker(apply => setApplyUpdate(() => apply));
   }, []);
 
+  // Runs again when switching profiles; isLoaded stays false until the new profile's data
+  // replaces the previous one, so nothing is saved under the wrong key in between.
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const result = await loadAppData(getProfileKey(STORAGE_KEY, activeProfile.id));
+      const savedHistory = await loadHistory(result.data, getProfileKey(HISTORY_KEY, activeProfile.id));
+      if (cancelled) return;
+      dispatch({ type: 'LOAD', payload: { data: result.data, history: savedHistory } });
+      setIsLoaded(true);
+      if (result.quarantined) {
+        // Photos may still belong to the quarantined payload, so don't prune in that case.
+        setStorageNotice(`Os dados salvos estavam corrompidos e foram isolados (${result.quarantined.reason}). Veja em Configurações.`);
+        return;
+      }
+      // Same when another profile's data can't be read.
+      const referenced = await collectOtherProfilesPhotoIds(profiles, activeProfile.id);
+      if (!referenced) return;
+      collectPhotoIds(result.data).forEach(id => referenced.add(id));
+      collectHistoryPhotoIds(savedHistory).forEach(id => referenced.add(id));
+      await prunePhotos(referenced);
+    })().catch(e => console.error(e));
+    return () => { cancelled = true; };
+  }, [activeProfile.id]);
+
   useEffect(() => {
-    if (!appData[formattedDate]) {
-      dispatch({ type: 'ENSURE_DAY_DATA', payload: { date: formattedDate, dayData: createEmptyDailyData() } });
+    saveProfiles(profiles);
+  }, [profiles]);
+
+  useEffect(() => {
+    const dayData = appData[formattedDate];
+    if (!dayData || ensureDayCategories(dayData, categories) !== dayData) {
+      dispatch({ type: 'ENSURE_DAY_DATA', payload: { date: formattedDate, categories } });
     }
-  }, [appData, formattedDate]);
+  }, [appData, formattedDate, categories]);
+
+  useEffect(() => {
+    saveCategories(categories);
+    if (!activeCategories.some(c => c.id === activeCategory)) setActiveCategory(activeCategories[0].id);
+  }, [categories]);
+
+  useEffect(() => {
+    saveScannerSettings(scannerSettings);
+  }, [scannerSettings]);
 
   useEffect(() => {
-    if (!isRestoring) localStorage.setItem('equipmentData', JSON.stringify(appData));
-  }, [appData, isRestoring]);
+    savePhotoSettings(photoSettings);
+  }, [photoSettings]);
 
-  const currentDayData: DailyData = appData[formattedDate] || createEmptyDailyData();
+  useEffect(() => {
+    if (!isLoaded) return;
+    saveAppData(appData, getProfileKey(STORAGE_KEY, activeProfile.id)).catch(e => {
+      console.error(e);
+      setStorageNotice('Não foi possível salvar os dados. O armazenamento do aparelho pode estar cheio.');
+    });
+  }, [appData, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) saveHistory(history, getProfileKey(HISTORY_KEY, activeProfile.id));
+  }, [history, isLoaded]);
+
+  const sync = useSync(activeProfile.id, appData, isLoaded, changes => dispatch({ type: 'APPLY_REMOTE', payload: toRemotePayload(changes) }));
+
+  const currentDayData: DailyData = ensureDayCategories(appData[formattedDate] || {}, categories);
+
+  const serialIndex = useMemo(() => buildSerialIndex(appData), [appData]);
+  const dayDuplicates = useMemo(() => findDayDuplicates(serialIndex, appData[formattedDate], formattedDate), [serialIndex, appData, formattedDate]);
+  const pendingDuplicates = dayDuplicates.filter(d => !d.acknowledged).length;
+
+  const getConflicts = (item: EquipmentItem) => findSerialConflicts(serialIndex, formattedDate, item);
+
+  const goToDate = (date: string) => {
+      setCurrentDate(parseDateKey(date));
+      setActiveModal(null);
+  };
+
+  // Opens the day and category of a search hit; EquipmentSection expands and EquipmentRow
+  // scrolls to the highlighted item.
+  const goToHit = (hits: SearchHit[], index: number) => {
+      const hit = hits[index];
+      if (!hit) return;
+      setSearchNav({ hits, index });
+      setCurrentDate(parseDateKey(hit.date));
+      setActiveCategory(hit.category);
+      setHighlightedItem(hit.item.id);
+      setIsSearchActive(false);
+  };
+
+  useEffect(() => {
+    if (!highlightedItem) return;
+    const timer = setTimeout(() => setHighlightedItem(null), 4000);
+    return () => clearTimeout(timer);
+  }, [highlightedItem]);
+
+  const handleSwitchProfile = (id: string) => {
+    setIsProfileLocked(false);
+    setActiveModal(null);
+    if (id === activeProfile.id) return;
+    setIsLoaded(false);
+    setActiveProfileId(id);
+    saveActiveProfileId(id);
+    setSearchNav(null);
+    setHighlightedItem(null);
+    setIsGlobalDeleteMode(false);
+    setSelectedItems({});
+  };
+
+  const handleDeleteProfile = (id: string) => {
+    removeProfileData(id);
+    setProfiles(prev => prev.filter(p => p.id !== id));
+  };
 
   const handleAddItem = () => {
     if (activeCategory) {
@@ -198,14 +314,12 @@ const AppContent = () => {
 
   const handleUpdateItem = (category: EquipmentCategory, item: EquipmentItem) => dispatchWithHistory({ type: 'UPDATE_ITEM', payload: { date: formattedDate, category, item } });
 
-  const handleUndo = () => {
-    if (history.length > 0) {
-      const previousState = history[0];
-      setHistory(history.slice(1));
-      setIsRestoring(true);
-      dispatch({ type: 'SET_DATA', payload: previousState });
-    }
-  }
+  const findCategoryOf = (item: EquipmentItem): EquipmentCategory | undefined => Object.keys(currentDayData).find(k => currentDayData[k].some(i => i.id === item.id));
+
+  const handleToggleDuplicateAck = (category: EquipmentCategory, item: EquipmentItem) => {
+      handleUpdateItem(category, { ...item, duplicateAck: isDuplicateAcknowledged(item) ? undefined : normalizeSerial(item.serial) });
+  };
+
 
   const handleToggleDeleteMode = () => {
     setIsGlobalDeleteMode(prev => !prev);
@@ -218,18 +332,18 @@ const AppContent = () => {
         setConfirmation({
             message: `Apagar ${totalSelected} item(s)?`,
             onConfirm: () => {
-                Object.entries(selectedItems).forEach(([cat, ids]: [string, string[]]) => {
-                    if (ids.length > 0) dispatchWithHistory({ type: 'DELETE_ITEMS', payload: { date: formattedDate, category: cat as EquipmentCategory, itemIds: ids } });
-                });
+                dispatchWithHistory({ type: 'DELETE_ITEMS', payload: { date: formattedDate, selection: selectedItems } });
                 handleToggleDeleteMode(); 
             }
         });
       }
   };
 
+  if (isProfileLocked) return <ProfileLockScreen profiles={profiles} onUnlock={handleSwitchProfile} />;
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-white via-slate-50 to-slate-100 text-slate-700 font-sans pb-32">
-      <SideMenu isOpen={isMenuOpen} onClose={() => setIsMenuOpen(false)} onMenuClick={(m) => { setActiveModal(m); setIsMenuOpen(false); }}/>
+      <SideMenu isOpen={isMenuOpen} onClose={() => setIsMenuOpen(false)} onMenuClick={(m) => { setActiveModal(m); setIsMenuOpen(false); }} profileName={activeProfile.name} />
       
       <header className="sticky top-0 z-30 bg-white/40 backdrop-blur-xl pt-4 pb-2 px-4 relative overflow-hidden shadow-sm border-b border-white/10">
         {/* Watermark */}
@@ -250,8 +364,18 @@ const AppContent = () => {
                     {isGlobalDeleteMode && Object.values(selectedItems).reduce<number>((acc, items: string[]) => acc + items.length, 0) > 0 && (
                     <ActionButton onClick={handleConfirmGlobalDelete} isDanger={true}><IconTrash className="w-4 h-4" /></ActionButton>
                     )}
-                    <ActionButton onClick={handleUndo}><IconUndo className="w-4 h-4" /></ActionButton>
+                    <ActionButton onClick={() => dispatch({ type: 'UNDO' })}><IconUndo className="w-4 h-4" /></ActionButton>
+                    {history.future.length > 0 && (
+                    <ActionButton onClick={() => dispatch({ type: 'REDO' })}><IconRedo className="w-4 h-4" /></ActionButton>
+                    )}
                     <ActionButton onClick={() => setIsSearchActive(!isSearchActive)}><IconSearch className="w-4 h-4" /></ActionButton>
+                    <SyncIndicator sync={sync} onClick={() => setActiveModal('sync')} />
+                    {dayDuplicates.length > 0 && (
+                        <div className="relative">
+                            <ActionButton onClick={() => setActiveModal('duplicates')} isDanger={pendingDuplicates > 0}><IconWarning className="w-4 h-4" /></ActionButton>
+                            {pendingDuplicates > 0 && <span className="absolute -top-1 -right-1 w-4 h-4 bg-red-500 rounded-full text-[9px] font-bold text-white flex items-center justify-center">{pendingDuplicates}</span>}
+                        </div>
+                    )}
                 </div>
             </div>
 
@@ -265,63 +389,134 @@ const AppContent = () => {
         </div>
       </header>
 
+      {storageNotice && (
+        <div className="container mx-auto px-3 pt-3">
+            <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-xl text-xs font-bold text-red-600 shadow-sm">
+                <span className="flex-1">{storageNotice}</span>
+                <button onClick={() => setStorageNotice(null)}><IconX className="w-4 h-4" /></button>
+            </div>
+        </div>
+      )}
+
+      {applyUpdate && (
+        <div className="container mx-auto px-3 pt-3">
+            <div className="flex items-center gap-2 p-3 bg-cyan-50 border border-cyan-200 rounded-xl text-xs font-bold text-cyan-700 shadow-sm">
+                <span className="flex-1">Nova versão disponível.</span>
+                <button onClick={applyUpdate} className="px-3 py-1 bg-cyan-500 text-white rounded-lg">Atualizar</button>
+                <button onClick={() => setApplyUpdate(null)}><IconX className="w-4 h-4" /></button>
+            </div>
+        </div>
+      )}
+
       <main className="container mx-auto p-3 space-y-5">
-        {CATEGORIES.map(category => (
+        {activeCategories.map(config => (
             <EquipmentSection 
-                key={`${formattedDate}-${category}`} 
-                category={category} 
-                items={currentDayData[category] || []}
-                onUpdateItem={(item: EquipmentItem) => handleUpdateItem(category, item)}
+                key={`${formattedDate}-${config.id}`} 
+                category={config.id} 
+                name={config.name}
+                fields={getCategoryFields(config)}
+                categories={categories}
+                items={currentDayData[config.id] || []}
+                onUpdateItem={(item: EquipmentItem) => handleUpdateItem(config.id, item)}
                 onViewGallery={(item: EquipmentItem) => setGalleryItem(item)}
                 isDeleteMode={isGlobalDeleteMode}
-                selectedItems={selectedItems[category] || []}
-                onToggleSelect={(id: string) => setSelectedItems(prev => ({ ...prev, [category]: prev[category]?.includes(id) ? prev[category].filter(i => i !== id) : [...(prev[category]||[]), id] }))}
-                isActive={category === activeCategory}
-                onActivate={() => setActiveCategory(category)}
+                selectedItems={selectedItems[config.id] || []}
+                onToggleSelect={(id: string) => setSelectedItems(prev => ({ ...prev, [config.id]: prev[config.id]?.includes(id) ? prev[config.id].filter(i => i !== id) : [...(prev[config.id]||[]), id] }))}
+                isActive={config.id === activeCategory}
+                onActivate={() => setActiveCategory(config.id)}
                 onOpenCamera={(item: EquipmentItem) => setCameraModalItem(item)}
+                onShowSerialHistory={(serial: string) => setSerialHistory(serial)}
+                onShowContract={(contract: string) => { setContractView(contract); setActiveModal('contracts'); }}
+                getConflicts={getConflicts}
+                onGoToDate={goToDate}
+                highlightedItem={highlightedItem}
             />
         ))}
       </main>
 
-      <SummaryFooter data={currentDayData} allData={appData} currentDate={formattedDate} />
+      {searchNav && (
+        <div className="fixed bottom-20 inset-x-0 z-40 flex justify-center pointer-events-none">
+            <div className="pointer-events-auto flex items-center gap-2 px-2 py-1 bg-white/90 backdrop-blur-xl rounded-full border border-white shadow-lg text-xs font-bold text-slate-600">
+                <button disabled={searchNav.index === 0} onClick={() => goToHit(searchNav.hits, searchNav.index - 1)} className="p-1 disabled:opacity-30"><IconChevronLeft className="w-4 h-4" /></button>
+                <button onClick={() => setIsSearchActive(true)}>Resultado {searchNav.index + 1} de {searchNav.hits.length}</button>
+                <button disabled={searchNav.index === searchNav.hits.length - 1} onClick={() => goToHit(searchNav.hits, searchNav.index + 1)} className="p-1 disabled:opacity-30"><IconChevronRight className="w-4 h-4" /></button>
+                <button onClick={() => setSearchNav(null)} className="p-1 text-slate-400"><IconX className="w-4 h-4" /></button>
+            </div>
+        </div>
+      )}
+
+      <SummaryFooter data={currentDayData} allData={appData} currentDate={formattedDate} categories={categories} />
             
-      {galleryItem && <PhotoGalleryModal item={galleryItem} onClose={() => setGalleryItem(null)} onUpdatePhotos={(photos: string[]) => {
+      {galleryItem && <PhotoGalleryModal item={galleryItem} category={categories.find(c => c.id === findCategoryOf(galleryItem))} scannerSettings={scannerSettings} photoSettings={photoSettings} onClose={() => setGalleryItem(null)} onUpdatePhotos={(photos: string[]) => {
         const cat = Object.keys(currentDayData).find(k => currentDayData[k as EquipmentCategory].some(i => i.id === galleryItem.id)) as EquipmentCategory;
         if(cat) {
             const updated = { ...galleryItem, photos };
             handleUpdateItem(cat, updated);
             setGalleryItem(updated);
         }
+      }} onApplyScan={(scan: ParsedScan) => {
+        const cat = findCategoryOf(galleryItem);
+        if (cat) {
+            const updated = applyScan(galleryItem, scan, categories.find(c => c.id === cat));
+            handleUpdateItem(cat, updated);
+            setGalleryItem(updated);
+        }
       }} setConfirmation={setConfirmation} />}
       
-      {cameraModalItem && <CameraModal onClose={() => setCameraModalItem(null)} onCapture={(photo: string, code: string) => {
-           const cat = Object.keys(currentDayData).find(k => currentDayData[k as EquipmentCategory].some(i => i.id === cameraModalItem.id)) as EquipmentCategory;
+      {cameraModalItem && <CameraModal onClose={() => setCameraModalItem(null)} category={categories.find(c => c.id === (findCategoryOf(cameraModalItem) || activeCategory))} scannerSettings={scannerSettings} photoSettings={photoSettings} watermark={buildWatermark(formattedDate, cameraModalItem)} onCommitBatch={(scans: ParsedScan[]) => {
+           const category = findCategoryOf(cameraModalItem) || activeCategory;
+           const config = categories.find(c => c.id === category);
+           dispatchWithHistory({ type: 'ADD_ITEMS', payload: { date: formattedDate, entries: scans.map(scan => ({ category, item: applyScan(createEmptyItem(), scan, config) })) } });
+           setCameraModalItem(null);
+      }} getDuplicateWarning={(serial: string) => {
+           const conflicts = findSerialConflicts(serialIndex, formattedDate, { ...cameraModalItem, serial });
+           if (conflicts.length === 0) return null;
+           return `Atenção: serial já registrado em ${conflicts.map(c => `${formatDateKey(c.occurrence.date)} (${getCategoryName(categories, c.occurrence.category)})`).join(', ')}.`;
+      }} onCapture={(photoId: string, scan: ParsedScan | null) => {
+           const cat = findCategoryOf(cameraModalItem);
            if (cat) {
-               const updated = { ...cameraModalItem };
-               if (photo) updated.photos = [...updated.photos, photo];
-               if (code) updated.serial = code;
+               let updated = { ...cameraModalItem };
+               if (photoId) updated.photos = [...updated.photos, photoId];
+               if (scan) updated = applyScan(updated, scan, categories.find(c => c.id === cat));
                handleUpdateItem(cat, updated);
            }
            setCameraModalItem(null);
       }} />}
 
       {activeModal === 'calendar' && <CalendarModal currentDate={currentDate} onClose={() => setActiveModal(null)} onDateSelect={(d: Date) => { setCurrentDate(d); setActiveModal(null); }}/>}
-      {activeModal === 'save' && <DownloadModal appData={appData} currentDate={currentDate} onClose={() => setActiveModal(null)} />}
-      {activeModal === 'export' && <ShareModal appData={appData} currentDate={currentDate} onClose={() => setActiveModal(null)} />}
-      {activeModal === 'settings' && <SettingsModal onClose={() => setActiveModal(null)} onClearData={() => setConfirmation({ message: "Apagar tudo permanentemente?", onConfirm: () => { dispatchWithHistory({ type: 'CLEAR_ALL_DATA' }); setActiveModal(null); } })}/>}
+      {activeModal === 'save' && <DownloadModal appData={appData} currentDate={currentDate} categories={categories} technician={activeProfile.name} onClose={() => setActiveModal(null)} />}
+      {activeModal === 'backup' && <BackupModal appData={appData} categories={categories} onClose={() => setActiveModal(null)} onRestore={(data: AppData, incoming: CategoryConfig[] | null) => {
+          if (incoming) setCategories(prev => mergeCategories(prev, incoming));
+          dispatchWithHistory({ type: 'SET_DATA', payload: data }, 'Restaurou backup');
+      }} setConfirmation={setConfirmation} />}
+      {activeModal === 'import' && <ImportModal currentDate={currentDate} categories={activeCategories} onClose={() => setActiveModal(null)} onImport={(date: string, entries: CategorizedItem[]) => {
+          dispatchWithHistory({ type: 'ADD_ITEMS', payload: { date, entries } });
+          setCurrentDate(parseDateKey(date));
+          setActiveModal(null);
+      }} />}
+      {activeModal === 'contracts' && <ContractsModal appData={appData} categories={categories} initialContract={contractView} onClose={() => { setActiveModal(null); setContractView(null); }} onGoToDate={(date: string) => { goToDate(date); setContractView(null); }} />}
+      {activeModal === 'sync' && <SyncModal sync={sync} categories={categories} onClose={() => setActiveModal(null)} />}
+      {activeModal === 'profiles' && <ProfilesModal profiles={profiles} activeProfileId={activeProfile.id} onSwitch={handleSwitchProfile} onProfilesChange={setProfiles} onDelete={handleDeleteProfile} onClose={() => setActiveModal(null)} setConfirmation={setConfirmation} />}
+      {activeModal === 'dashboard' && <DashboardModal appData={appData} categories={categories} currentDate={currentDate} onClose={() => setActiveModal(null)} onGoToDate={goToDate} />}
+      {activeModal === 'photoScan' && <PhotoScanModal date={formattedDate} dayData={currentDayData} categories={categories} scannerSettings={scannerSettings} onClose={() => setActiveModal(null)} onApply={(patches: ItemPatch[]) => dispatchWithHistory({ type: 'PATCH_ITEMS', payload: { date: formattedDate, patches } })} />}
+      {activeModal === 'history' && <HistoryModal history={history} onTravel={(steps: number) => dispatch({ type: 'TRAVEL', steps })} onClose={() => setActiveModal(null)} />}
+      {activeModal === 'duplicates' && <DuplicatesModal date={formattedDate} duplicates={dayDuplicates} categories={categories} onClose={() => setActiveModal(null)} onGoToDate={goToDate} onShowSerialHistory={(serial: string) => setSerialHistory(serial)} onToggleAcknowledge={handleToggleDuplicateAck} />}
+      {activeModal === 'export' && <ShareModal appData={appData} currentDate={currentDate} categories={categories} technician={activeProfile.name} onClose={() => setActiveModal(null)} />}
+      {activeModal === 'settings' && <SettingsModal onLock={onLock} categories={categories} onCategoriesChange={setCategories} scannerSettings={scannerSettings} onScannerSettingsChange={setScannerSettings} photoSettings={photoSettings} onPhotoSettingsChange={setPhotoSettings} onClose={() => setActiveModal(null)} onClearData={() => setConfirmation({ message: "Apagar tudo permanentemente?", onConfirm: () => { dispatchWithHistory({ type: 'CLEAR_ALL_DATA' }); setActiveModal(null); } })}/>}
       {activeModal === 'about' && <AboutModal onClose={() => setActiveModal(null)} onShareClick={() => setActiveModal('shareApp')}/>}
       {activeModal === 'shareApp' && <ShareModal appData={appData} currentDate={currentDate} isSharingApp onClose={() => setActiveModal(null)} />}
-      {isSearchActive && <SearchModal onClose={() => setIsSearchActive(false)} appData={appData} onSelect={(res: any) => { 
-          const [y, m, d] = res.date.split('-'); 
-          setCurrentDate(new Date(y, m-1, d)); 
-          setIsSearchActive(false); 
+      {isSearchActive && <SearchModal onClose={() => setIsSearchActive(false)} appData={appData} categories={categories} currentDate={currentDate} onShowSerialHistory={(serial: string) => setSerialHistory(serial)} onSelect={goToHit} />}
+      {serialHistory && <SerialHistoryModal serial={serialHistory} appData={appData} categories={categories} onClose={() => setSerialHistory(null)} onGoToDate={(date: string) => {
+          setCurrentDate(parseDateKey(date));
+          setSerialHistory(null);
+          setIsSearchActive(false);
       }} />}
       {confirmation && <ConfirmationModal message={confirmation.message} onConfirm={() => { confirmation.onConfirm(); setConfirmation(null); }} onCancel={() => setConfirmation(null)} />}
     </div>
   );
 };
 
-const App = () => (<ErrorBoundary><AppContent /></ErrorBoundary>)
+const App = () => (<ErrorBoundary><AppLockGate>{lockNow => <AppContent onLock={lockNow} />}</AppLockGate></ErrorBoundary>)
 export default App;
 
 // --- COMPONENTS ---
@@ -340,9 +535,13 @@ const ActionButton = ({ children, onClick, isPrimary, isDanger }: any) => (
 );
 
 // Updated EquipmentSection with "Accordion / Card Stack" logic controlled by a 3D Button
-const EquipmentSection = ({ category, items, onUpdateItem, onViewGallery, isDeleteMode, selectedItems, onToggleSelect, isActive, onActivate, onOpenCamera }: any) => {
+const EquipmentSection = ({ category, name, fields, categories, items, onUpdateItem, onViewGallery, isDeleteMode, selectedItems, onToggleSelect, isActive, onActivate, onOpenCamera, onShowSerialHistory, onShowContract, getConflicts, onGoToDate, highlightedItem }: any) => {
     const [isExpanded, setIsExpanded] = useState(false);
 
+    useEffect(() => {
+        if (highlightedItem && items.slice(0, -1).some((i: EquipmentItem) => i.id === highlightedItem)) setIsExpanded(true);
+    }, [highlightedItem, items]);
+
     const activeItems = items.filter((i: EquipmentItem) => isItemActive(i));
     const historyItems = items.slice(0, -1); 
     const inputItem = items[items.length - 1];
@@ -359,7 +558,7 @@ const EquipmentSection = ({ category, items, onUpdateItem, onViewGallery, isDele
             <div className="flex items-center justify-between bg-white/60 backdrop-blur-xl border-t border-l border-white/80 border-b border-r border-white/30 rounded-t-xl p-3 shadow-sm transition-colors">
                 <div className="flex items-center gap-2">
                     <h2 className={`text-lg font-bold text-slate-700 drop-shadow-sm uppercase tracking-widest ${isActive ? 'text-cyan-600' : ''}`}>
-                        {category}
+                        {name}
                     </h2>
                     
                     {/* 3D Collapse/Expand Button */}
@@ -394,10 +593,12 @@ const EquipmentSection = ({ category, items, onUpdateItem, onViewGallery, isDele
                     <div className={`space-y-2 transition-all duration-500 ${isExpanded ? 'opacity-100' : 'opacity-0 hidden'}`}>
                         {historyItems.map((item: any) => (
                             <EquipmentRow 
-                                key={item.id} item={item} onUpdate={onUpdateItem} isDeleteMode={isDeleteMode}
+                                key={item.id} item={item} fields={fields} onUpdate={onUpdateItem} isDeleteMode={isDeleteMode}
                                 isSelected={selectedItems.includes(item.id)} onToggleSelect={() => onToggleSelect(item.id)} 
                                 onViewGallery={() => onViewGallery(item)} onOpenCamera={() => onOpenCamera(item)}
-                                onFocus={() => onActivate()}
+                                onShowSerialHistory={onShowSerialHistory} onShowContract={onShowContract} onFocus={() => onActivate()}
+                                conflicts={getConflicts(item)} categories={categories} onGoToDate={onGoToDate}
+                                isHighlighted={item.id === highlightedItem}
                             />
                         ))}
                     </div>
@@ -405,10 +606,12 @@ const EquipmentSection = ({ category, items, onUpdateItem, onViewGallery, isDele
                     {/* Input Item (Always Visible at bottom) */}
                     <div className="relative z-10">
                          <EquipmentRow 
-                            item={inputItem} onUpdate={onUpdateItem} isDeleteMode={isDeleteMode}
+                            item={inputItem} fields={fields} onUpdate={onUpdateItem} isDeleteMode={isDeleteMode}
                             isSelected={selectedItems.includes(inputItem.id)} onToggleSelect={() => onToggleSelect(inputItem.id)} 
                             onViewGallery={() => onViewGallery(inputItem)} onOpenCamera={() => onOpenCamera(inputItem)}
-                            onFocus={() => onActivate()}
+                            onShowSerialHistory={onShowSerialHistory} onShowContract={onShowContract} onFocus={() => onActivate()}
+                            conflicts={getConflicts(inputItem)} categories={categories} onGoToDate={onGoToDate}
+                            isHighlighted={inputItem.id === highlightedItem}
                         />
                     </div>
                 </div>
@@ -417,21 +620,41 @@ const EquipmentSection = ({ category, items, onUpdateItem, onViewGallery, isDele
     );
 };
 
-const EquipmentRow = ({ item, onUpdate, isDeleteMode, isSelected, onToggleSelect, onViewGallery, onOpenCamera, onFocus }: any) => {
-    const handleChange = (field: keyof EquipmentItem, value: string) => {
-        onUpdate({ ...item, [field]: value });
+const EquipmentRow = ({ item, fields, onUpdate, isDeleteMode, isSelected, onToggleSelect, onViewGallery, onOpenCamera, onShowSerialHistory, onShowContract, onFocus, conflicts = [], categories, onGoToDate, isHighlighted }: any) => {
+    const rowRef = useRef<HTMLDivElement>(null);
+    const field = (id: string): FieldDefinition => fields.find((f: FieldDefinition) => f.id === id);
+    const customFields: FieldDefinition[] = fields.filter((f: FieldDefinition) => !isBaseField(f));
+    const errors = validateItem(item, fields);
+    const errorMessages = Object.values(errors);
+    const quantityWarnings = getQuantityWarnings(item);
+
+    const handleChange = (definition: FieldDefinition, value: string) => {
+        if (definition.maxLength && value.length > definition.maxLength) return;
+        onUpdate(setFieldValue(item, definition, value));
     };
 
+    const hasConflicts = conflicts.length > 0 && !isDuplicateAcknowledged(item);
+    const sameDay = conflicts.some((c: any) => c.sameDay);
+
+    useEffect(() => {
+        // Wait for the section's expand transition before scrolling.
+        if (!isHighlighted) return;
+        const timer = setTimeout(() => rowRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 300);
+        return () => clearTimeout(timer);
+    }, [isHighlighted]);
+
     return (
-        <div className="flex items-center gap-0.5 p-0.5 bg-white/50 rounded-lg shadow-sm border border-white/40 backdrop-blur-sm">
+        <div ref={rowRef}>
+        <div className={`flex items-center gap-0.5 p-0.5 bg-white/50 rounded-lg shadow-sm border backdrop-blur-sm ${isHighlighted ? 'ring-2 ring-amber-400' : ''} ${hasConflicts ? (sameDay ? 'border-red-300' : 'border-amber-300') : 'border-white/40'}`}>
             {isDeleteMode && (
                 <input type="checkbox" checked={isSelected} onChange={onToggleSelect} className="w-5 h-5 accent-red-500 mr-1 ml-1" />
             )}
             
             <InputWithLabel 
                 value={item.qt} 
-                onChange={(e) => { if(e.target.value.length <= 2) handleChange('qt', e.target.value) }}
+                onChange={(e) => handleChange(field('qt'), e.target.value)}
                 placeholder="QT" 
+                error={errors.qt}
                 type="number" 
                 containerClassName="w-9"
                 onFocus={onFocus}
@@ -439,19 +662,24 @@ const EquipmentRow = ({ item, onUpdate, isDeleteMode, isSelected, onToggleSelect
 
             <InputWithLabel 
                 value={item.contract} 
-                onChange={(e) => { if(e.target.value.length <= 10) handleChange('contract', e.target.value) }}
+                onChange={(e) => handleChange(field('contract'), e.target.value)}
                 placeholder="Contrato" 
+                error={errors.contract}
                 containerClassName="flex-[2]"
                 showClipboard
+                onHistory={() => onShowContract(item.contract)}
+                historyIcon={IconFolder}
                 onFocus={onFocus}
             />
 
             <InputWithLabel 
                 value={item.serial} 
-                onChange={(e) => { if(e.target.value.length <= 20) handleChange('serial', e.target.value) }}
+                onChange={(e) => handleChange(field('serial'), e.target.value)}
                 placeholder="Serial" 
+                error={errors.serial}
                 containerClassName="flex-[3]"
                 showClipboard
+                onHistory={() => onShowSerialHistory(item.serial)}
                 onFocus={onFocus}
             />
 
@@ -465,13 +693,57 @@ const EquipmentRow = ({ item, onUpdate, isDeleteMode, isSelected, onToggleSelect
                 </div>
             </div>
         </div>
+        {customFields.length > 0 && (
+            <div className="flex gap-0.5 pt-0.5 pl-10">
+                {customFields.map(definition => (
+                    <InputWithLabel
+                        key={definition.id}
+                        value={getFieldValue(item, definition)}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleChange(definition, e.target.value)}
+                        placeholder={`${definition.label}${definition.required ? ' *' : ''}`}
+                        type={definition.type === 'tel' ? 'tel' : 'text'}
+                        inputMode={definition.type === 'number' ? 'numeric' : undefined}
+                        containerClassName="flex-1"
+                        showClipboard
+                        error={errors[definition.id]}
+                        onFocus={onFocus}
+                    />
+                ))}
+            </div>
+        )}
+        {errorMessages.length > 0 && (
+            <div className="px-1 pt-1 text-[10px] font-bold text-red-500">{errorMessages.join(' · ')}</div>
+        )}
+        {quantityWarnings.length > 0 && (
+            <div className="flex items-center gap-1 px-1 pt-1 text-[10px] font-bold text-amber-600">
+                <IconWarning className="w-3 h-3 flex-shrink-0" />
+                <span>{quantityWarnings.join(' · ')}</span>
+            </div>
+        )}
+        {hasConflicts && (
+            <div className={`flex items-start gap-1 px-1 pt-1 text-[10px] font-bold ${sameDay ? 'text-red-500' : 'text-amber-600'}`}>
+                <IconWarning className="w-3 h-3 flex-shrink-0 mt-0.5" />
+                <span className="flex-shrink-0">Serial repetido:</span>
+                <ConflictLinks conflicts={conflicts} categories={categories} onGoToDate={onGoToDate} />
+            </div>
+        )}
+        </div>
     );
 };
 
-const InputWithLabel = ({ value, onChange, placeholder, type = "text", containerClassName, showClipboard, onFocus }: any) => (
-    <div className={`relative h-8 bg-white/70 rounded-md shadow-inner border border-black/5 flex items-center ${containerClassName}`}>
+const InputWithLabel = ({ value, onChange, placeholder, type = "text", inputMode, containerClassName, showClipboard, onHistory, historyIcon: HistoryIcon = IconClock, error, onFocus }: any) => (
+    <div title={error} className={`relative h-8 bg-white/70 rounded-md shadow-inner border flex items-center ${error ? 'border-red-400' : 'border-black/5'} ${containerClassName}`}>
+        {onHistory && value && (
+            <button 
+                onClick={onHistory} 
+                className="absolute left-1 top-1/2 -translate-y-1/2 text-slate-400 hover:text-cyan-500"
+            >
+                <HistoryIcon className="w-3 h-3" />
+            </button>
+        )}
         <input
             type={type}
+            inputMode={inputMode}
             value={value}
             onChange={onChange}
             onFocus={onFocus}
@@ -489,43 +761,22 @@ const InputWithLabel = ({ value, onChange, placeholder, type = "text", container
     </div>
 );
 
-const SummaryFooter = ({ data, allData, currentDate }: { data: DailyData, allData: AppData, currentDate: string }) => {
-    const calculateTotal = (d: DailyData) => {
-        if (!d) return 0;
-        return Object.values(d).flat().filter(isItemActive).reduce((sum, item) => {
-            const qty = parseInt(item.qt);
-            return sum + (isNaN(qty) ? 1 : qty);
-        }, 0);
-    };
-
-    const totalDay = calculateTotal(data);
+const SummaryFooter = ({ data, allData, currentDate, categories }: { data: DailyData, allData: AppData, currentDate: string, categories: CategoryConfig[] }) => {
+    const totalDay = selectDayQuantity(data);
+    // Archived categories still show up on days where they have items, so the chips add up to the total.
+    const footerCategories = resolveCategories(categories, Object.keys(data).filter(cat => selectListQuantity(data[cat]) > 0));
     
-    const totalMonth = useMemo(() => {
-        const curr = new Date(currentDate + 'T00:00:00'); 
-        const year = curr.getFullYear();
-        const month = curr.getMonth();
-        let sum = 0;
-        for (let d = 1; d <= 31; d++) {
-             const dayStr = d.toString().padStart(2, '0');
-             const monthStr = (month + 1).toString().padStart(2, '0');
-             const dateKey = `${year}-${monthStr}-${dayStr}`;
-             
-             if (allData[dateKey]) {
-                 sum += calculateTotal(allData[dateKey]);
-             }
-        }
-        return sum;
-    }, [allData, currentDate]);
+    const totalMonth = useMemo(() => selectMonthQuantity(allData, currentDate), [allData, currentDate]);
 
     return (
         <footer className="fixed bottom-0 left-0 w-full bg-white/80 backdrop-blur-xl border-t border-white/50 p-2 shadow-[0_-4px_20px_rgba(0,0,0,0.05)] z-40">
              <div className="container mx-auto overflow-x-auto hide-scrollbar">
                 <div className="flex gap-2 pb-1 min-w-max">
-                    {CATEGORIES.map(cat => {
-                        const count = (data[cat] || []).filter(isItemActive).reduce((acc, item) => acc + (parseInt(item.qt) || 1), 0);
+                    {footerCategories.map(cat => {
+                        const count = selectListQuantity(data[cat.id]);
                         return (
-                            <div key={cat} className="flex flex-col items-center justify-center px-3 py-1 bg-white/50 rounded-lg border border-white shadow-sm min-w-[60px]">
-                                <span className="text-[8px] font-bold text-slate-400 uppercase">{cat.replace('BOX SOUND', 'SOUND').substring(0, 8)}</span>
+                            <div key={cat.id} className="flex flex-col items-center justify-center px-3 py-1 bg-white/50 rounded-lg border border-white shadow-sm min-w-[60px]">
+                                <span className="text-[8px] font-bold text-slate-400 uppercase">{getShortLabel(cat)}</span>
                                 <span className="text-sm font-black text-slate-600">{count}</span>
                             </div>
                         )
@@ -546,18 +797,6 @@ const SummaryFooter = ({ data, allData, currentDate }: { data: DailyData, allDat
 
 // --- MODALS (Milky Glass Theme) ---
 
-const Modal = ({ title, onClose, children }: any) => (
-    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/20 backdrop-blur-sm animate-fade-in">
-        <div className="bg-white/90 backdrop-blur-2xl rounded-2xl shadow-2xl w-full max-w-md overflow-hidden border border-white/50 animate-slide-in-up">
-            <div className="flex justify-between items-center p-4 border-b border-slate-200/50">
-                <h3 className="text-lg font-bold text-slate-700">{title}</h3>
-                <button onClick={onClose}><IconX className="w-6 h-6 text-slate-400 hover:text-red-500" /></button>
-            </div>
-            <div className="p-4 max-h-[80vh] overflow-y-auto">{children}</div>
-        </div>
-    </div>
-);
-
 const CalendarModal = ({ currentDate, onClose, onDateSelect }: any) => {
     const [viewDate, setViewDate] = useState(currentDate);
     const daysInMonth = new Date(viewDate.getFullYear(), viewDate.getMonth() + 1, 0).getDate();
@@ -594,73 +833,68 @@ const CalendarModal = ({ currentDate, onClose, onDateSelect }: any) => {
     );
 };
 
-const DownloadModal = ({ appData, currentDate, onClose }: any) => {
-    const [range, setRange] = useState<'day' | 'month'>('day');
+const DownloadModal = ({ appData, currentDate, categories, technician, onClose }: any) => {
+    const [range, setRange] = useState<DateRange>(() => getPresetRange('day', currentDate));
+    const [isGenerating, setIsGenerating] = useState(false);
 
-    const handleDownload = (format: 'word' | 'excel') => {
-        const { data, label } = getDataInRange(appData, currentDate, range);
-        
-        let content = '';
-        let mimeType = '';
-        let extension = '';
-
-        if (format === 'word') {
-            mimeType = 'application/msword';
-            extension = 'doc';
-            content = `
-                <html xmlns:o='urn:schemas-microsoft-com:office:office' xmlns:w='urn:schemas-microsoft-com:office:word' xmlns='http://www.w3.org/TR/REC-html40'>
-                <head><meta charset='utf-8'><title>Relatório</title></head><body>
-                <h1 style="text-align:center; color:#333;">Relatório de Equipamentos - ${label}</h1>
-                ${CATEGORIES.map(cat => {
-                    const items = data[cat] || [];
-                    if (items.length === 0) return '';
-                    return `
-                        <h2 style="background:#eee; padding:5px; border-left: 5px solid #0ea5e9;">${cat}</h2>
-                        <table border="1" style="width:100%; border-collapse:collapse;">
-                            <tr style="background:#f9f9f9;"><th>QT</th><th>Contrato</th><th>Serial</th></tr>
-                            ${items.map((item: any) => `<tr><td align="center">${item.qt}</td><td align="center">${item.contract}</td><td align="center">${item.serial}</td></tr>`).join('')}
-                        </table>
-                    `;
-                }).join('')}
-                <br/><p>Gerado por Controle de Equipamentos</p></body></html>
-            `;
-        } else {
-            mimeType = 'application/vnd.ms-excel';
-            extension = 'xls';
-            content = `
-                <html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:x="urn:schemas-microsoft-com:office:excel" xmlns="http://www.w3.org/TR/REC-html40">
-                <head><meta http-equiv="Content-Type" content="text/html; charset=UTF-8"></head><body>
-                <table>
-                    <thead><tr><th colspan="4" style="font-size:16px; font-weight:bold;">Relatório - ${label}</th></tr>
-                    <tr><th>Categoria</th><th>QT</th><th>Contrato</th><th>Serial</th></tr></thead>
-                    <tbody>
-                    ${CATEGORIES.flatMap(cat => (data[cat]||[]).map((item: any) => 
-                        `<tr><td>${cat}</td><td>${item.qt}</td><td>${item.contract}</td><td>${item.serial}</td></tr>`
-                    )).join('')}
-                    </tbody>
-                </table></body></html>
-            `;
+    const handleDownload = async (format: 'word' | 'excel' | 'pdf') => {
+        const { data, entries, label } = getDataInRange(appData, range);
+        const fileName = `Equipamentos_${label.replace(/[^a-z0-9]/gi, '_')}`;
+
+        if (format === 'excel') {
+            downloadBlob(createEquipmentXlsx(entries, label, categories, technician), `${fileName}.xlsx`);
+            return;
         }
 
-        const blob = new Blob(['\ufeff', content], { type: mimeType });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = `Equipamentos_${label.replace(/[^a-z0-9]/gi, '_')}.${extension}`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+        if (format === 'pdf') {
+            setIsGenerating(true);
+            try {
+                const blob = await createEquipmentPdf({
+                    entries,
+                    range,
+                    label,
+                    monthTotals: listMonthsInRange(range).map(month => ({ label: formatMonthKey(month), total: sumMonthQuantity(appData, month) })),
+                    categories,
+                    technician,
+                });
+                downloadBlob(blob, `${fileName}.pdf`);
+            } catch (e) {
+                console.error(e);
+                alert("Não foi possível gerar o PDF.");
+            } finally {
+                setIsGenerating(false);
+            }
+            return;
+        }
+
+        const content = `
+            <html xmlns:o='urn:schemas-microsoft-com:office:office' xmlns:w='urn:schemas-microsoft-com:office:word' xmlns='http://www.w3.org/TR/REC-html40'>
+            <head><meta charset='utf-8'><title>Relatório</title></head><body>
+            <h1 style="text-align:center; color:#333;">Relatório de Equipamentos - ${label}</h1>
+            <p style="text-align:center; color:#555;">Técnico: ${technician}</p>
+            ${resolveCategories(categories, Object.keys(data)).map(cat => {
+                const items = data[cat.id] || [];
+                if (items.length === 0) return '';
+                const fields = getCategoryFields(cat);
+                return `
+                    <h2 style="background:#eee; padding:5px; border-left: 5px solid #0ea5e9;">${cat.name}</h2>
+                    <table border="1" style="width:100%; border-collapse:collapse;">
+                        <tr style="background:#f9f9f9;">${fields.map(f => `<th>${f.label}</th>`).join('')}</tr>
+                        ${items.map((item: EquipmentItem) => `<tr>${fields.map(f => `<td align="center">${f.id === 'qt' ? getItemQuantity(item) : getFieldValue(item, f)}</td>`).join('')}</tr>`).join('')}
+                    </table>
+                `;
+            }).join('')}
+            <br/><p>Gerado por Controle de Equipamentos</p></body></html>
+        `;
+
+        downloadBlob(new Blob(['\ufeff', content], { type: 'application/msword' }), `${fileName}.doc`);
     };
 
     return (
         <Modal title="Salvar Manualmente" onClose={onClose}>
             <div className="space-y-4">
-                <div className="flex bg-slate-100 p-1 rounded-lg">
-                    <button onClick={() => setRange('day')} className={`flex-1 py-1 rounded-md text-sm font-bold ${range === 'day' ? 'bg-white shadow text-slate-800' : 'text-slate-500'}`}>Apenas Hoje</button>
-                    <button onClick={() => setRange('month')} className={`flex-1 py-1 rounded-md text-sm font-bold ${range === 'month' ? 'bg-white shadow text-slate-800' : 'text-slate-500'}`}>Mês até Hoje</button>
-                </div>
-                <p className="text-sm text-slate-500 text-center">Exportar dados de: <b>{range === 'day' ? 'Hoje' : 'Todo o mês atual'}</b></p>
-                <div className="grid grid-cols-2 gap-3">
+                <RangePicker referenceDate={currentDate} value={range} onChange={setRange} />
+                <div className="grid grid-cols-3 gap-3">
                     <button onClick={() => handleDownload('word')} className="flex flex-col items-center p-4 bg-blue-50 rounded-xl hover:bg-blue-100 border border-blue-200">
                         <IconFileWord className="w-8 h-8 text-blue-600 mb-2" />
                         <span className="font-bold text-blue-700">Word</span>
@@ -669,14 +903,18 @@ const DownloadModal = ({ appData, currentDate, onClose }: any) => {
                         <IconFileExcel className="w-8 h-8 text-green-600 mb-2" />
                         <span className="font-bold text-green-700">Excel</span>
                     </button>
+                    <button disabled={isGenerating} onClick={() => handleDownload('pdf')} className="flex flex-col items-center p-4 bg-red-50 rounded-xl hover:bg-red-100 border border-red-200 disabled:opacity-50">
+                        <IconFilePdf className="w-8 h-8 text-red-600 mb-2" />
+                        <span className="font-bold text-red-700">{isGenerating ? 'Gerando...' : 'PDF'}</span>
+                    </button>
                 </div>
             </div>
         </Modal>
     );
 };
 
-const ShareModal = ({ appData, currentDate, onClose, isSharingApp }: any) => {
-    const [range, setRange] = useState<'day' | 'month'>('day');
+const ShareModal = ({ appData, currentDate, categories, technician, onClose, isSharingApp }: any) => {
+    const [range, setRange] = useState<DateRange>(() => getPresetRange('day', currentDate));
 
     const handleShare = (platform: 'whatsapp' | 'telegram' | 'email') => {
         let text = '';
@@ -684,14 +922,15 @@ const ShareModal = ({ appData, currentDate, onClose, isSharingApp }: any) => {
         if (isSharingApp) {
             text = `Baixe o App Controle de Equipamentos aqui: ${window.location.href}`;
         } else {
-            const { data, label } = getDataInRange(appData, currentDate, range);
-            let report = `*Relatório - ${label}*\n\n`;
-            CATEGORIES.forEach(cat => {
-                const items = data[cat] || [];
+            const { data, label } = getDataInRange(appData, range);
+            let report = `*Relatório - ${label}*\nTécnico: ${technician}\n\n`;
+            resolveCategories(categories, Object.keys(data)).forEach(cat => {
+                const items = data[cat.id] || [];
                 if(items.length > 0) {
-                    report += `*${cat}* (${items.length})\n`;
-                    items.forEach((item: any) => {
-                        report += `- QT: ${item.qt || 1} | SN: ${item.serial}\n`;
+                    report += `*${cat.name}* (${sumQuantity(items)})\n`;
+                    items.forEach((item: EquipmentItem) => {
+                        const details = describeCustomFields(item, cat, ' | ');
+                        report += `- QT: ${getItemQuantity(item)} | SN: ${item.serial}${details ? ` | ${details}` : ''}\n`;
                     });
                     report += '\n';
                 }
@@ -712,10 +951,7 @@ const ShareModal = ({ appData, currentDate, onClose, isSharingApp }: any) => {
         <Modal title={isSharingApp ? "Compartilhar App" : "Exportar Relatório"} onClose={onClose}>
             {!isSharingApp && (
                  <div className="mb-6">
-                    <div className="flex bg-slate-100 p-1 rounded-lg mb-2">
-                        <button onClick={() => setRange('day')} className={`flex-1 py-1 rounded-md text-sm font-bold ${range === 'day' ? 'bg-white shadow text-slate-800' : 'text-slate-500'}`}>Apenas Hoje</button>
-                        <button onClick={() => setRange('month')} className={`flex-1 py-1 rounded-md text-sm font-bold ${range === 'month' ? 'bg-white shadow text-slate-800' : 'text-slate-500'}`}>Mês até Hoje</button>
-                    </div>
+                    <RangePicker referenceDate={currentDate} value={range} onChange={setRange} />
                  </div>
             )}
             <div className="grid grid-cols-3 gap-3">
@@ -746,19 +982,58 @@ const AboutModal = ({ onClose, onShareClick }: any) => (
     </Modal>
 );
 
-const SettingsModal = ({ onClose, onClearData }: any) => (
-    <Modal title="Configurações" onClose={onClose}>
-        <div className="space-y-4">
-            <div className="p-4 bg-red-50 rounded-xl border border-red-100">
-                <h4 className="font-bold text-red-600 mb-1">Zona de Perigo</h4>
-                <p className="text-xs text-red-400 mb-3">Esta ação não pode ser desfeita.</p>
-                <button onClick={onClearData} className="w-full py-2 bg-white border border-red-200 text-red-500 font-bold rounded-lg hover:bg-red-50">
-                    Apagar Todos os Dados
-                </button>
+const SettingsModal = ({ onLock, categories, onCategoriesChange, scannerSettings, onScannerSettingsChange, photoSettings, onPhotoSettingsChange, onClose, onClearData }: any) => {
+    const [quarantined, setQuarantined] = useState<QuarantineRecord[]>([]);
+
+    useEffect(() => {
+        listQuarantine().then(setQuarantined).catch(e => console.error(e));
+    }, []);
+
+    const handleDownloadQuarantine = (record: QuarantineRecord) => {
+        downloadBlob(new Blob([record.raw], { type: 'application/json' }), `${record.id}.json`);
+    };
+
+    const handleDeleteQuarantine = async (id: string) => {
+        await deleteQuarantine(id);
+        setQuarantined(prev => prev.filter(r => r.id !== id));
+    };
+
+    return (
+        <Modal title="Configurações" onClose={onClose}>
+            <div className="space-y-4">
+                <CategorySettings categories={categories} onChange={onCategoriesChange} />
+                <ScannerSettings settings={scannerSettings} onSettingsChange={onScannerSettingsChange} categories={categories} onCategoriesChange={onCategoriesChange} />
+                <PhotoSettings settings={photoSettings} onChange={onPhotoSettingsChange} />
+                <LockSettings onLockNow={onLock} />
+                {quarantined.length > 0 && (
+                    <div className="p-4 bg-amber-50 rounded-xl border border-amber-100">
+                        <h4 className="font-bold text-amber-600 mb-1">Dados em Quarentena</h4>
+                        <p className="text-xs text-amber-500 mb-3">Dados salvos que não puderam ser carregados. Baixe uma cópia antes de apagar.</p>
+                        <div className="space-y-2">
+                            {quarantined.map(record => (
+                                <div key={record.id} className="p-2 bg-white rounded-lg border border-amber-100 text-xs">
+                                    <div className="font-bold text-slate-600">{new Date(record.quarantinedAt).toLocaleString('pt-BR')}</div>
+                                    <div className="text-slate-400 mb-2 break-words">{record.reason}</div>
+                                    <div className="flex gap-2">
+                                        <button onClick={() => handleDownloadQuarantine(record)} className="flex-1 py-1 bg-amber-100 text-amber-700 font-bold rounded-md">Baixar</button>
+                                        <button onClick={() => handleDeleteQuarantine(record.id)} className="flex-1 py-1 bg-slate-100 text-slate-500 font-bold rounded-md">Apagar</button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+                <div className="p-4 bg-red-50 rounded-xl border border-red-100">
+                    <h4 className="font-bold text-red-600 mb-1">Zona de Perigo</h4>
+                    <p className="text-xs text-red-400 mb-3">Esta ação não pode ser desfeita.</p>
+                    <button onClick={onClearData} className="w-full py-2 bg-white border border-red-200 text-red-500 font-bold rounded-lg hover:bg-red-50">
+                        Apagar Todos os Dados
+                    </button>
+                </div>
             </div>
-        </div>
-    </Modal>
-);
+        </Modal>
+    );
+};
 
 const ConfirmationModal = ({ message, onConfirm, onCancel }: any) => (
     <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-fade-in">
@@ -773,8 +1048,42 @@ const ConfirmationModal = ({ message, onConfirm, onCancel }: any) => (
     </div>
 );
 
-const PhotoGalleryModal = ({ item, onClose, onUpdatePhotos, setConfirmation }: any) => {
+const PhotoGalleryModal = ({ item, category, scannerSettings, photoSettings, onClose, onUpdatePhotos, onApplyScan, setConfirmation }: any) => {
+    // viewPhoto holds the ID of the photo in the blob store
     const [viewPhoto, setViewPhoto] = useState<string | null>(null);
+    const [isDecoding, setIsDecoding] = useState(false);
+    const [isAnnotating, setIsAnnotating] = useState(false);
+
+    // The annotated copy replaces the original in place; the old blob is pruned with the other orphans.
+    const handleSaveAnnotation = async (blob: Blob) => {
+        try {
+            const photoId = await savePhoto(blob);
+            onUpdatePhotos(item.photos.map((p: string) => p === viewPhoto ? photoId : p));
+            setViewPhoto(photoId);
+        } catch (e) {
+            console.error(e);
+            alert("Não foi possível salvar a foto.");
+        }
+        setIsAnnotating(false);
+    };
+
+    const handleDecode = async (photoId: string) => {
+        setIsDecoding(true);
+        try {
+            const blob = await getPhoto(photoId);
+            const text = blob ? await decodeImage(blob, scannerSettings) : null;
+            if (!text) {
+                alert("Nenhum código encontrado nesta foto.");
+                return;
+            }
+            const scan = parseScan(text, category);
+            if (confirm(`Código detectado: ${text}\n${describeScan(scan, category)}\nUsar este código?`)) onApplyScan(scan);
+        } catch (e) {
+            console.error(e);
+        } finally {
+            setIsDecoding(false);
+        }
+    };
     
     const handleDelete = (index: number) => {
         setConfirmation({
@@ -787,10 +1096,10 @@ const PhotoGalleryModal = ({ item, onClose, onUpdatePhotos, setConfirmation }: a
         });
     };
 
-    const handleSharePhoto = async (base64: string) => {
+    const handleSharePhoto = async (photoId: string) => {
         try {
-            const res = await fetch(base64);
-            const blob = await res.blob();
+            const blob = await getPhoto(photoId);
+            if (!blob) return;
             const file = new File([blob], "equipamento.jpg", { type: "image/jpeg" });
             if (navigator.share) {
                 await navigator.share({ files: [file] });
@@ -808,11 +1117,15 @@ const PhotoGalleryModal = ({ item, onClose, onUpdatePhotos, setConfirmation }: a
             </div>
             
             <div className="flex-1 flex items-center justify-center p-4 overflow-hidden">
-                {viewPhoto ? (
+                {viewPhoto && isAnnotating ? (
+                    <PhotoAnnotator photoId={viewPhoto} settings={photoSettings} onCancel={() => setIsAnnotating(false)} onSave={handleSaveAnnotation} />
+                ) : viewPhoto ? (
                     <div className="relative w-full h-full flex flex-col items-center justify-center">
-                         <img src={viewPhoto} className="max-w-full max-h-[80vh] object-contain rounded-lg shadow-2xl" />
+                         <PhotoImage photoId={viewPhoto} className="max-w-full max-h-[80vh] object-contain rounded-lg shadow-2xl" />
                          <div className="flex gap-4 mt-4">
                             <button onClick={() => handleSharePhoto(viewPhoto)} className="p-3 bg-blue-600 rounded-full text-white"><IconShare className="w-6 h-6"/></button>
+                            <button onClick={() => setIsAnnotating(true)} className="px-4 bg-amber-500 rounded-full text-white text-sm font-bold">Anotar</button>
+                            <button disabled={isDecoding} onClick={() => handleDecode(viewPhoto)} className="px-4 bg-cyan-600 rounded-full text-white text-sm font-bold disabled:opacity-50">{isDecoding ? 'Lendo...' : 'Ler código'}</button>
                             <button onClick={() => handleDelete(item.photos.indexOf(viewPhoto))} className="p-3 bg-red-600 rounded-full text-white"><IconTrash className="w-6 h-6"/></button>
                          </div>
                          <button onClick={() => setViewPhoto(null)} className="mt-4 text-white underline">Voltar</button>
@@ -821,7 +1134,7 @@ const PhotoGalleryModal = ({ item, onClose, onUpdatePhotos, setConfirmation }: a
                     <div className="grid grid-cols-3 gap-2 w-full max-w-lg overflow-y-auto max-h-full content-start">
                         {item.photos.map((p: string, i: number) => (
                             <button key={i} onClick={() => setViewPhoto(p)} className="aspect-square relative group overflow-hidden rounded-lg border border-white/20">
-                                <img src={p} className="w-full h-full object-cover transition-transform group-hover:scale-110" />
+                                <PhotoImage photoId={p} className="w-full h-full object-cover transition-transform group-hover:scale-110" />
                             </button>
                         ))}
                          {item.photos.length === 0 && <p className="col-span-3 text-center text-slate-500 mt-10">Nenhuma foto.</p>}
@@ -832,27 +1145,76 @@ const PhotoGalleryModal = ({ item, onClose, onUpdatePhotos, setConfirmation }: a
     );
 };
 
-const CameraModal = ({ onClose, onCapture }: any) => {
+// Repeated reads of the code still in front of the camera are ignored for this long.
+const BATCH_REPEAT_WINDOW_MS = 2000;
+
+const CameraModal = ({ onClose, onCapture, getDuplicateWarning, category, scannerSettings, photoSettings, watermark, onCommitBatch }: any) => {
     const [isCameraReady, setIsCameraReady] = useState(false);
+    const [isBatchMode, setIsBatchMode] = useState(false);
+    const [batch, setBatch] = useState<{ id: string; scan: ParsedScan }[]>([]);
     const scannerRef = useRef<Html5QrcodeScanner | null>(null);
+    // The scanner callback is registered once, so it reads the current mode and batch through refs.
+    const isBatchModeRef = useRef(false);
+    const batchRef = useRef(batch);
+    const lastReadRef = useRef<{ code: string; at: number } | null>(null);
+
+    useEffect(() => { isBatchModeRef.current = isBatchMode; }, [isBatchMode]);
+    useEffect(() => { batchRef.current = batch; }, [batch]);
+
+    // Each entry is checked as the item it will become, with the same rules as the row editor.
+    const trimSerial = (scan: ParsedScan): ParsedScan => ({ ...scan, values: { ...scan.values, serial: (scan.values.serial || '').trim() } });
+    const getBatchErrors = (scan: ParsedScan): string[] => {
+        const candidate = applyScan(createEmptyItem(), trimSerial(scan), category);
+        if (!isItemActive(candidate)) return ['Leitura sem valores'];
+        return Object.values(validateItem(candidate, getCategoryFields(category)));
+    };
+
+    const addToBatch = (code: string) => {
+        const now = Date.now();
+        const last = lastReadRef.current;
+        lastReadRef.current = { code, at: now };
+        if (last && last.code === code && now - last.at < BATCH_REPEAT_WINDOW_MS) return false;
+        const scan: ParsedScan = parseScan(code, category);
+        const serial = normalizeSerial(scan.values.serial || scan.raw);
+        if (batchRef.current.some(entry => normalizeSerial(entry.scan.values.serial || entry.scan.raw) === serial)) return false;
+        const next = [...batchRef.current, { id: generateId(), scan }];
+        batchRef.current = next;
+        setBatch(next);
+        return true;
+    };
+
+    // Shared by the live feed and picked image files.
+    const handleDecoded = (decodedText: string) => {
+        if (isBatchModeRef.current && !addToBatch(decodedText)) return;
+
+        playBeep();
+        if (isBatchModeRef.current) return;
+
+        const scan = parseScan(decodedText, category);
+        const warning = scan.values.serial ? getDuplicateWarning?.(scan.values.serial) : null;
+        if(confirm(`Código detectado: ${decodedText}\n${describeScan(scan, category)}${warning ? `\n${warning}` : ''}\nUsar este código?`)) {
+             onCapture(null, scan);
+        }
+    };
+
+    const handlePickImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const text = await decodeImage(file, scannerSettings);
+        if (text) handleDecoded(text);
+        else alert("Nenhum código encontrado nesta imagem.");
+    };
 
     useEffect(() => {
         const scanner = new Html5QrcodeScanner(
             "reader",
-            { fps: 10, qrbox: 250, supportedScanTypes: [Html5QrcodeScanType.SCAN_TYPE_CAMERA] },
+            { fps: 10, qrbox: 250, supportedScanTypes: [Html5QrcodeScanType.SCAN_TYPE_CAMERA], formatsToSupport: toSupportedFormats(scannerSettings) },
             false
         );
         scannerRef.current = scanner;
 
-        scanner.render((decodedText) => {
-            // Play beep
-            const audio = new Audio('https://actions.google.com/sounds/v1/alarms/beep_short.ogg');
-            audio.play().catch(() => {});
-            
-            if(confirm(`Código detectado: ${decodedText}\nUsar este código?`)) {
-                 onCapture(null, decodedText);
-            }
-        }, (err) => { console.log(err); });
+        scanner.render(handleDecoded, (err) => { console.log(err); });
 
         setIsCameraReady(true);
 
@@ -861,80 +1223,85 @@ const CameraModal = ({ onClose, onCapture }: any) => {
         };
     }, []);
 
-    const takePhoto = () => {
+    const takePhoto = async () => {
         const video = document.querySelector('#reader video') as HTMLVideoElement;
-        if (video) {
-            const canvas = document.createElement('canvas');
-            canvas.width = video.videoWidth;
-            canvas.height = video.videoHeight;
-            canvas.getContext('2d')?.drawImage(video, 0, 0);
-            const base64 = canvas.toDataURL('image/jpeg');
-            onCapture(base64, null);
+        if (!video) return;
+        try {
+            const blob = await processPhoto(video, video.videoWidth, video.videoHeight, photoSettings, watermark);
+            const photoId = await savePhoto(blob);
+            onCapture(photoId, null);
+        } catch (e) {
+            console.error(e);
+            alert("Não foi possível salvar a foto.");
         }
     };
 
     return (
         <div className="fixed inset-0 z-[70] bg-black flex flex-col">
-             <div className="flex justify-between p-4 text-white bg-black/50 backdrop-blur-md z-10">
+             <div className="flex justify-between items-center p-4 text-white bg-black/50 backdrop-blur-md z-10">
                 <h3 className="font-bold">Câmera / Scanner</h3>
-                <button onClick={onClose}><IconX className="w-6 h-6" /></button>
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={() => setIsBatchMode(!isBatchMode)}
+                        className={`px-3 py-1 rounded-full text-xs font-bold border ${isBatchMode ? 'bg-cyan-500 border-cyan-400' : 'bg-white/10 border-white/20'}`}
+                    >
+                        Lote {isBatchMode ? 'ligado' : 'desligado'}
+                    </button>
+                    <button onClick={onClose}><IconX className="w-6 h-6" /></button>
+                </div>
             </div>
-            <div className="flex-1 relative bg-black flex items-center justify-center">
+            <div className="flex-1 relative bg-black flex items-center justify-center overflow-hidden">
                 <div id="reader" className="w-full max-w-md"></div>
                 {!isCameraReady && <div className="text-white">Iniciando câmera...</div>}
             </div>
-            <div className="p-6 bg-black/80 flex justify-center gap-8">
+            {(isBatchMode || batch.length > 0) && (
+                <div className="max-h-[40vh] overflow-y-auto p-3 bg-white/95 space-y-1">
+                    <div className="flex justify-between text-xs font-bold text-slate-500">
+                        <span>Lote em {category?.name}</span>
+                        <span>{batch.length} código(s)</span>
+                    </div>
+                    {batch.length === 0 && <p className="text-xs text-slate-400">Aponte para os códigos; leituras repetidas são ignoradas.</p>}
+                    {batch.map(entry => {
+                        const serial = entry.scan.values.serial || '';
+                        const details = describeCustomFields(applyScan(createEmptyItem(), entry.scan, category), category);
+                        const warning = serial ? getDuplicateWarning?.(serial) : null;
+                        const errors = getBatchErrors(entry.scan);
+                        return (
+                            <div key={entry.id}>
+                                <div className="flex gap-1">
+                                    <input
+                                        value={serial}
+                                        onChange={e => setBatch(batch.map(b => b.id === entry.id ? { ...b, scan: { ...b.scan, values: { ...b.scan.values, serial: e.target.value } } } : b))}
+                                        className={`flex-1 p-1 bg-slate-100 rounded border font-mono text-xs text-slate-700 outline-none ${errors.length > 0 ? 'border-red-400' : 'border-slate-200'}`}
+                                    />
+                                    <button onClick={() => setBatch(batch.filter(b => b.id !== entry.id))} className="p-1 text-red-400"><IconTrash className="w-4 h-4" /></button>
+                                </div>
+                                {details && <div className="text-[10px] font-mono text-slate-500">{details}</div>}
+                                {errors.length > 0 && <div className="text-[10px] font-bold text-red-500">{errors.join(' · ')}</div>}
+                                {warning && <div className="text-[10px] font-bold text-amber-600">{warning}</div>}
+                            </div>
+                        );
+                    })}
+                    {batch.length > 0 && (
+                        <button
+                            disabled={batch.some(b => getBatchErrors(b.scan).length > 0)}
+                            onClick={() => onCommitBatch(batch.map(b => trimSerial(b.scan)))}
+                            className="w-full py-2 bg-cyan-500 text-white font-bold rounded-xl shadow-lg shadow-cyan-500/30 disabled:opacity-50"
+                        >
+                            Adicionar {batch.length} item(s)
+                        </button>
+                    )}
+                </div>
+            )}
+            <div className="p-6 bg-black/80 flex justify-center items-center gap-8">
+                <label className="w-12 h-12 bg-white/10 rounded-full border border-white/20 text-white flex items-center justify-center cursor-pointer active:scale-90" title="Ler código de uma imagem">
+                    <IconGallery className="w-6 h-6" />
+                    <input type="file" accept="image/*" onChange={handlePickImage} className="hidden" />
+                </label>
                 <button onClick={takePhoto} className="w-16 h-16 bg-white rounded-full border-4 border-gray-300 active:scale-90 flex items-center justify-center shadow-lg">
                     <div className="w-12 h-12 bg-white rounded-full border-2 border-black" />
                 </button>
             </div>
         </div>
     );
-};
-
-const SearchModal = ({ onClose, appData, onSelect }: any) => {
-    const [term, setTerm] = useState('');
-    const [results, setResults] = useState<any[]>([]);
-
-    useEffect(() => {
-        if (term.length < 2) { setResults([]); return; }
-        const res: any[] = [];
-        Object.entries(appData).forEach(([date, dailyData]: [string, any]) => {
-            CATEGORIES.forEach(cat => {
-                (dailyData[cat]||[]).forEach((item: any) => {
-                    if ((item.serial?.includes(term) || item.contract?.includes(term)) && isItemActive(item)) {
-                        res.push({ date, category: cat, item });
-                    }
-                })
-            })
-        });
-        setResults(res.sort((a,b) => b.date.localeCompare(a.date)));
-    }, [term, appData]);
-
-    return (
-        <Modal title="Buscar Item" onClose={onClose}>
-            <input 
-                autoFocus
-                value={term}
-                onChange={e => setTerm(e.target.value)}
-                placeholder="Digite Serial ou Contrato..."
-                className="w-full p-3 bg-slate-100 rounded-xl border border-slate-200 outline-none focus:ring-2 ring-cyan-400 font-bold text-slate-700 mb-4"
-            />
-            <div className="space-y-2">
-                {results.map((res, i) => (
-                    <div key={i} onClick={() => onSelect(res)} className="p-3 bg-white border border-slate-100 rounded-xl shadow-sm hover:bg-blue-50 cursor-pointer">
-                        <div className="flex justify-between text-xs font-bold text-slate-400 mb-1">
-                            <span>{res.date}</span>
-                            <span className="uppercase text-cyan-600">{res.category}</span>
-                        </div>
-                        <div className="font-mono text-sm text-slate-700">
-                            {res.item.serial && <div>SN: <span className="font-bold">{res.item.serial}</span></div>}
-                            {res.item.contract && <div>CT: <span className="font-bold">{res.item.contract}</span></div>}
-                        </div>
-                    </div>
-                ))}
-                {term.length > 1 && results.length === 0 && <p className="text-center text-slate-400 mt-4">Nenhum resultado.</p>}
-            </div>
-        </Modal>
-    );
 };
\ No newline at end of file
@@ -0,0 +1,131 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PinInput } from './PinInput';
+import { IconLock } from './icons';
+import { AppLockSettings, LOCK_KEY, loadLockSettings, unlock, lock } from '../utils/appLock';
+
+const MAX_ATTEMPTS = 5;
+const COOLDOWN_MS = 30_000;
+const IDLE_CHECK_MS = 15_000;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'wheel'];
+
+interface AppLockGateProps {
+    children: (lockNow: () => void) => React.ReactNode;
+}
+
+const readSettings = (): { settings: AppLockSettings | null; error: string | null } => {
+    try {
+        return { settings: loadLockSettings(), error: null };
+    } catch (e) {
+        console.error(e);
+        return { settings: null, error: e instanceof Error ? e.message : String(e) };
+    }
+};
+
+// Renders the app only once the PIN is entered, and unmounts it again on lock so nothing
+// decrypted stays on screen or in React state. Settings are read from storage each time, so
+// changes made in Configurações apply without passing them up.
+export const AppLockGate = ({ children }: AppLockGateProps) => {
+    const [{ settings: initial, error: settingsError }] = useState(readSettings);
+    const [isUnlocked, setIsUnlocked] = useState(!initial && !settingsError);
+    const [pin, setPin] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isChecking, setIsChecking] = useState(false);
+    const [failures, setFailures] = useState(0);
+    const [blockedUntil, setBlockedUntil] = useState(0);
+    const [now, setNow] = useState(Date.now());
+    const lastActivity = useRef(Date.now());
+
+    const lockNow = () => {
+        if (!readSettings().settings) return;
+        lock();
+        setPin('');
+        setError(null);
+        setIsUnlocked(false);
+    };
+
+    useEffect(() => {
+        if (!isUnlocked) return;
+        lastActivity.current = Date.now();
+        const touch = () => { lastActivity.current = Date.now(); };
+        // Timers are throttled in the background, so also check when the app comes back.
+        const check = () => {
+            const { settings } = readSettings();
+            if (settings && settings.autoLockMinutes > 0 && Date.now() - lastActivity.current > settings.autoLockMinutes * 60_000) lockNow();
+        };
+        const onVisibility = () => { if (document.visibilityState === 'visible') check(); };
+        ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, touch, { passive: true }));
+        document.addEventListener('visibilitychange', onVisibility);
+        const timer = setInterval(check, IDLE_CHECK_MS);
+        return () => {
+            ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, touch));
+            document.removeEventListener('visibilitychange', onVisibility);
+            clearInterval(timer);
+        };
+    }, [isUnlocked]);
+
+    useEffect(() => {
+        if (blockedUntil <= now) return;
+        const timer = setTimeout(() => setNow(Date.now()), 1000);
+        return () => clearTimeout(timer);
+    }, [blockedUntil, now]);
+
+    if (isUnlocked) return <>{children(lockNow)}</>;
+
+    const handleUnlock = async () => {
+        const { settings } = readSettings();
+        if (!settings) {
+            setIsUnlocked(true);
+            return;
+        }
+        setIsChecking(true);
+        const ok = await unlock(settings, pin);
+        setIsChecking(false);
+        setPin('');
+        if (ok) {
+            setFailures(0);
+            setError(null);
+            setIsUnlocked(true);
+            return;
+        }
+        const count = failures + 1;
+        setFailures(count);
+        if (count % MAX_ATTEMPTS === 0) {
+            setBlockedUntil(Date.now() + COOLDOWN_MS);
+            setNow(Date.now());
+        }
+        setError('PIN incorreto');
+    };
+
+    const handleDiscardSettings = () => {
+        localStorage.removeItem(LOCK_KEY);
+        window.location.reload();
+    };
+
+    const waitSeconds = Math.ceil((blockedUntil - now) / 1000);
+
+    return (
+        <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-b from-white via-slate-50 to-slate-100">
+            <div className="w-full max-w-sm p-6 bg-white/70 backdrop-blur-2xl rounded-2xl shadow-2xl border border-white/50 text-center">
+                <IconLock className="w-12 h-12 mx-auto mb-2 text-cyan-600" />
+                <h2 className="text-lg font-bold text-slate-700 mb-4">Aplicativo bloqueado</h2>
+                {settingsError ? (
+                    <div className="space-y-3">
+                        <p className="text-sm text-red-500">{settingsError}</p>
+                        <p className="text-xs text-slate-500">Sem a configuração, dados criptografados não podem ser lidos e serão isolados em Configurações.</p>
+                        <button onClick={handleDiscardSettings} className="w-full py-2 bg-slate-100 text-slate-600 rounded-xl font-bold">Continuar sem bloqueio</button>
+                    </div>
+                ) : (
+                    <form onSubmit={e => { e.preventDefault(); handleUnlock(); }} className="space-y-3">
+                        <PinInput value={pin} onChange={setPin} autoFocus disabled={isChecking || waitSeconds > 0} />
+                        <button type="submit" disabled={!pin || isChecking || waitSeconds > 0} className="w-full py-2 bg-cyan-500 text-white rounded-xl font-bold disabled:opacity-50">
+                            {isChecking ? 'Verificando...' : 'Desbloquear'}
+                        </button>
+                        {waitSeconds > 0
+                            ? <p className="text-xs font-bold text-amber-600">Muitas tentativas. Aguarde {waitSeconds}s.</p>
+                            : error && <p className="text-xs font-bold text-red-500">{error}</p>}
+                    </form>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { Modal } from './Modal';
+import { IconArchive } from './icons';
+import { AppData, CategoryConfig } from '../types';
+import { getFormattedDate } from '../utils/appData';
+import { downloadBlob } from '../utils/download';
+import { getCategoryName } from '../utils/categories';
+import {
+    createBackup, parseBackup, restorePhotos, findConflicts, mergeAppData, countActiveItems,
+    ParsedBackup, ConflictResolution
+} from '../utils/backup';
+
+interface BackupModalProps {
+    appData: AppData;
+    categories: CategoryConfig[];
+    onClose: () => void;
+    onRestore: (data: AppData, categories: CategoryConfig[] | null) => void;
+    setConfirmation: (c: { message: string; onConfirm: () => void } | null) => void;
+}
+
+const describeItem = (item: { qt: string; contract: string; serial: string; photos: string[] }) => (
+    <>
+        {item.qt && <div>QT: <b>{item.qt}</b></div>}
+        {item.contract && <div>CT: <b>{item.contract}</b></div>}
+        {item.serial && <div>SN: <b>{item.serial}</b></div>}
+        {item.photos.length > 0 && <div>{item.photos.length} foto(s)</div>}
+    </>
+);
+
+export const BackupModal = ({ appData, categories, onClose, onRestore, setConfirmation }: BackupModalProps) => {
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [backup, setBackup] = useState<ParsedBackup | null>(null);
+    const [mode, setMode] = useState<'merge' | 'replace'>('merge');
+    const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+
+    const conflicts = useMemo(() => backup ? findConflicts(appData, backup.data) : [], [appData, backup]);
+
+    const handleExport = async () => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            const blob = await createBackup(appData, categories);
+            downloadBlob(blob, `Backup_Equipamentos_${getFormattedDate(new Date())}.json`);
+        } catch (e) {
+            console.error(e);
+            setError('Não foi possível gerar o backup.');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setIsBusy(true);
+        setError(null);
+        setBackup(null);
+        setResolutions({});
+        try {
+            setBackup(await parseBackup(await file.text()));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Backup inválido.');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const resolveAll = (resolution: ConflictResolution) => {
+        setResolutions(conflicts.reduce((acc, c) => ({ ...acc, [c.key]: resolution }), {}));
+    };
+
+    const applyRestore = async () => {
+        if (!backup) return;
+        setIsBusy(true);
+        try {
+            await restorePhotos(backup.photos);
+            onRestore(mode === 'replace' ? backup.data : mergeAppData(appData, backup.data, resolutions), backup.categories);
+            onClose();
+        } catch (e) {
+            console.error(e);
+            setError('Falha ao restaurar as fotos do backup.');
+            setIsBusy(false);
+        }
+    };
+
+    const handleRestore = () => {
+        if (mode === 'replace') {
+            setConfirmation({ message: 'Substituir todos os dados atuais pelo backup?', onConfirm: applyRestore });
+        } else {
+            applyRestore();
+        }
+    };
+
+    return (
+        <Modal title="Backup" onClose={onClose}>
+            <div className="space-y-4">
+                <div className="p-4 bg-cyan-50 rounded-xl border border-cyan-100">
+                    <h4 className="font-bold text-cyan-700 mb-1">Exportar</h4>
+                    <p className="text-xs text-cyan-600/70 mb-3">Arquivo único com todos os dias, itens e fotos. Use para trocar de aparelho.</p>
+                    <button disabled={isBusy} onClick={handleExport} className="w-full py-2 bg-cyan-500 text-white font-bold rounded-lg shadow-lg shadow-cyan-500/30 active:scale-95 flex items-center justify-center gap-2 disabled:opacity-50">
+                        <IconArchive className="w-5 h-5" /> Baixar Backup
+                    </button>
+                </div>
+
+                <div className="p-4 bg-slate-50 rounded-xl border border-slate-100">
+                    <h4 className="font-bold text-slate-700 mb-1">Restaurar</h4>
+                    <label className="block w-full py-2 bg-white border border-slate-200 text-slate-600 font-bold rounded-lg text-center cursor-pointer hover:bg-slate-100">
+                        Escolher arquivo
+                        <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+                    </label>
+
+                    {backup && (
+                        <div className="mt-3 space-y-3">
+                            <p className="text-xs text-slate-500 text-center">
+                                {Object.keys(backup.data).length} dia(s), {countActiveItems(backup.data)} item(s), {Object.keys(backup.photos).length} foto(s)
+                                {backup.exportedAt && <> — {new Date(backup.exportedAt).toLocaleString('pt-BR')}</>}
+                            </p>
+
+                            <div className="flex bg-slate-100 p-1 rounded-lg">
+                                <button onClick={() => setMode('merge')} className={`flex-1 py-1 rounded-md text-sm font-bold ${mode === 'merge' ? 'bg-white shadow text-slate-800' : 'text-slate-500'}`}>Mesclar</button>
+                                <button onClick={() => setMode('replace')} className={`flex-1 py-1 rounded-md text-sm font-bold ${mode === 'replace' ? 'bg-white shadow text-slate-800' : 'text-slate-500'}`}>Substituir</button>
+                            </div>
+
+                            {mode === 'merge' && conflicts.length > 0 && (
+                                <div className="space-y-2">
+                                    <div className="flex justify-between items-center">
+                                        <span className="text-xs font-bold text-amber-600">{conflicts.length} conflito(s)</span>
+                                        <div className="flex gap-1">
+                                            <button onClick={() => resolveAll('local')} className="px-2 py-0.5 bg-slate-200 rounded text-[10px] font-bold text-slate-600">Manter todos</button>
+                                            <button onClick={() => resolveAll('incoming')} className="px-2 py-0.5 bg-amber-100 rounded text-[10px] font-bold text-amber-700">Usar backup em todos</button>
+                                        </div>
+                                    </div>
+                                    {conflicts.map(conflict => {
+                                        const choice = resolutions[conflict.key] || 'local';
+                                        return (
+                                            <div key={conflict.key} className="p-2 bg-white rounded-lg border border-amber-100 text-[10px]">
+                                                <div className="font-bold text-slate-400 mb-1">{conflict.date}</div>
+                                                <div className="grid grid-cols-2 gap-1 font-mono text-slate-600">
+                                                    <button onClick={() => setResolutions(prev => ({ ...prev, [conflict.key]: 'local' }))} className={`p-1 rounded text-left border ${choice === 'local' ? 'border-cyan-400 bg-cyan-50' : 'border-slate-100'}`}>
+                                                        <div className="font-sans font-bold text-cyan-600 uppercase">Atual · {getCategoryName(categories, conflict.localCategory)}</div>
+                                                        {describeItem(conflict.local)}
+                                                    </button>
+                                                    <button onClick={() => setResolutions(prev => ({ ...prev, [conflict.key]: 'incoming' }))} className={`p-1 rounded text-left border ${choice === 'incoming' ? 'border-amber-400 bg-amber-50' : 'border-slate-100'}`}>
+                                                        <div className="font-sans font-bold text-amber-600 uppercase">Backup · {getCategoryName(backup.categories || categories, conflict.incomingCategory)}</div>
+                                                        {describeItem(conflict.incoming)}
+                                                    </button>
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            )}
+
+                            <button disabled={isBusy} onClick={handleRestore} className={`w-full py-2 text-white font-bold rounded-lg shadow-lg active:scale-95 disabled:opacity-50 ${mode === 'replace' ? 'bg-red-500 shadow-red-500/30' : 'bg-cyan-500 shadow-cyan-500/30'}`}>
+                                {mode === 'replace' ? 'Substituir Dados' : 'Mesclar Dados'}
+                            </button>
+                        </div>
+                    )}
+                </div>
+
+                {error && <p className="text-xs font-bold text-red-500 text-center">{error}</p>}
+            </div>
+        </Modal>
+    );
+};
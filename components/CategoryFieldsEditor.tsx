@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { IconTrash } from './icons';
+import { FieldChecksum, FieldDefinition, FieldType } from '../types';
+import { BASE_FIELDS } from '../constants';
+import { createField, isValidPattern, FIELD_TYPES } from '../utils/fields';
+
+interface CategoryFieldsEditorProps {
+    fields: FieldDefinition[];
+    onChange: (fields: FieldDefinition[]) => void;
+}
+
+export const CategoryFieldsEditor = ({ fields, onChange }: CategoryFieldsEditorProps) => {
+    const [newLabel, setNewLabel] = useState('');
+
+    const update = (id: string, changes: Partial<FieldDefinition>) => {
+        onChange(fields.map(f => f.id === id ? { ...f, ...changes } : f));
+    };
+
+    const handleAdd = () => {
+        if (!newLabel.trim()) return;
+        onChange([...fields, createField(newLabel)]);
+        setNewLabel('');
+    };
+
+    return (
+        <div className="mt-1 mb-2 ml-4 p-2 bg-white/70 rounded-lg border border-slate-100 space-y-2">
+            <div className="text-[10px] font-bold text-slate-400">Sempre presentes: {BASE_FIELDS.map(f => f.label).join(', ')}</div>
+            {fields.map(field => (
+                <div key={field.id} className="p-2 bg-slate-50 rounded-lg border border-slate-100 space-y-1 text-[10px]">
+                    <div className="flex gap-1">
+                        <input
+                            value={field.label}
+                            onChange={e => update(field.id, { label: e.target.value })}
+                            className="flex-[2] min-w-0 p-1 bg-white rounded border border-slate-200 font-bold text-slate-700 outline-none"
+                        />
+                        <select value={field.type} onChange={e => update(field.id, { type: e.target.value as FieldType })} className="flex-1 min-w-0 p-1 bg-white rounded border border-slate-200 text-slate-700">
+                            {FIELD_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+                        </select>
+                        <button onClick={() => onChange(fields.filter(f => f.id !== field.id))} className="p-1 text-red-400"><IconTrash className="w-3 h-3" /></button>
+                    </div>
+                    <div className="flex gap-1 items-center">
+                        <label className="flex items-center gap-1 font-bold text-slate-500">
+                            <input type="checkbox" checked={!!field.required} onChange={e => update(field.id, { required: e.target.checked || undefined })} className="accent-cyan-500" />
+                            Obrigatório
+                        </label>
+                        <input
+                            type="number"
+                            min={1}
+                            value={field.maxLength || ''}
+                            onChange={e => update(field.id, { maxLength: Number(e.target.value) || undefined })}
+                            placeholder="Máx."
+                            className="w-14 p-1 bg-white rounded border border-slate-200 text-slate-700 outline-none"
+                        />
+                        <select value={field.checksum || ''} onChange={e => update(field.id, { checksum: (e.target.value as FieldChecksum) || undefined })} className="flex-1 min-w-0 p-1 bg-white rounded border border-slate-200 text-slate-700">
+                            <option value="">Sem dígito verificador</option>
+                            <option value="luhn">Luhn (ICCID)</option>
+                        </select>
+                    </div>
+                    <input
+                        value={field.pattern || ''}
+                        onChange={e => update(field.id, { pattern: e.target.value || undefined })}
+                        placeholder="Expressão regular (opcional)"
+                        className={`w-full p-1 bg-white rounded border font-mono text-slate-700 outline-none ${field.pattern && !isValidPattern(field.pattern) ? 'border-red-300' : 'border-slate-200'}`}
+                    />
+                </div>
+            ))}
+            <div className="flex gap-1">
+                <input value={newLabel} onChange={e => setNewLabel(e.target.value)} placeholder="Novo campo" className="flex-1 min-w-0 p-1 bg-white rounded border border-slate-200 text-xs outline-none" />
+                <button disabled={!newLabel.trim()} onClick={handleAdd} className="px-2 bg-cyan-500 text-white text-[10px] font-bold rounded disabled:opacity-50">Adicionar campo</button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { IconChevronDown, IconChevronUp, IconArchive, IconStack } from './icons';
+import { CategoryFieldsEditor } from './CategoryFieldsEditor';
+import { CategoryConfig } from '../types';
+import { createCategory } from '../utils/categories';
+import { normalizeText } from '../utils/csvImport';
+
+interface CategorySettingsProps {
+    categories: CategoryConfig[];
+    onChange: (categories: CategoryConfig[]) => void;
+}
+
+export const CategorySettings = ({ categories, onChange }: CategorySettingsProps) => {
+    const [newName, setNewName] = useState('');
+    const [newShortLabel, setNewShortLabel] = useState('');
+    const [editingFields, setEditingFields] = useState<string | null>(null);
+
+    const activeCount = categories.filter(c => !c.archived).length;
+    const nameTaken = (name: string, exceptId?: string) => categories.some(c => c.id !== exceptId && normalizeText(c.name) === normalizeText(name));
+
+    const update = (id: string, changes: Partial<CategoryConfig>) => {
+        onChange(categories.map(c => c.id === id ? { ...c, ...changes } : c));
+    };
+
+    const move = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= categories.length) return;
+        const next = [...categories];
+        [next[index], next[target]] = [next[target], next[index]];
+        onChange(next);
+    };
+
+    const handleAdd = () => {
+        if (!newName.trim() || nameTaken(newName)) return;
+        onChange([...categories, createCategory(newName, newShortLabel)]);
+        setNewName('');
+        setNewShortLabel('');
+    };
+
+    return (
+        <div className="p-4 bg-slate-50 rounded-xl border border-slate-100">
+            <h4 className="font-bold text-slate-600 mb-1">Categorias</h4>
+            <p className="text-xs text-slate-400 mb-3">Categorias arquivadas somem da tela, mas os itens já registrados continuam nos relatórios.</p>
+            <div className="space-y-2">
+                {categories.map((category, index) => (
+                    <div key={category.id}>
+                    <div className={`flex items-center gap-1 p-1 rounded-lg border ${category.archived ? 'bg-slate-100 border-slate-200 opacity-60' : 'bg-white border-slate-100'}`}>
+                        <div className="flex flex-col">
+                            <button disabled={index === 0} onClick={() => move(index, -1)} className="text-slate-400 disabled:opacity-30"><IconChevronUp className="w-3 h-3" /></button>
+                            <button disabled={index === categories.length - 1} onClick={() => move(index, 1)} className="text-slate-400 disabled:opacity-30"><IconChevronDown className="w-3 h-3" /></button>
+                        </div>
+                        <input
+                            value={category.name}
+                            onChange={e => update(category.id, { name: e.target.value })}
+                            className={`flex-[3] min-w-0 p-1 bg-transparent text-xs font-bold text-slate-700 outline-none border-b ${!category.name.trim() || nameTaken(category.name, category.id) ? 'border-red-300' : 'border-transparent'}`}
+                        />
+                        <input
+                            value={category.shortLabel || ''}
+                            onChange={e => update(category.id, { shortLabel: e.target.value || undefined })}
+                            placeholder="Sigla"
+                            maxLength={8}
+                            className="flex-1 min-w-0 p-1 bg-slate-50 rounded text-[10px] text-slate-600 outline-none"
+                        />
+                        <button
+                            disabled={!category.archived && activeCount <= 1}
+                            onClick={() => update(category.id, { archived: !category.archived || undefined })}
+                            title={category.archived ? 'Restaurar' : 'Arquivar'}
+                            className={`p-1 rounded-md disabled:opacity-30 ${category.archived ? 'bg-cyan-50 text-cyan-600' : 'bg-slate-50 text-slate-400'}`}
+                        >
+                            <IconArchive className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => setEditingFields(editingFields === category.id ? null : category.id)}
+                            title="Campos"
+                            className={`relative p-1 rounded-md ${editingFields === category.id ? 'bg-cyan-50 text-cyan-600' : 'bg-slate-50 text-slate-400'}`}
+                        >
+                            <IconStack className="w-4 h-4" />
+                            {(category.fields || []).length > 0 && <span className="absolute -top-1 -right-1 w-3 h-3 bg-cyan-500 rounded-full text-[8px] text-white flex items-center justify-center">{category.fields!.length}</span>}
+                        </button>
+                    </div>
+                    {editingFields === category.id && (
+                        <CategoryFieldsEditor fields={category.fields || []} onChange={fields => update(category.id, { fields })} />
+                    )}
+                    </div>
+                ))}
+            </div>
+            <div className="flex gap-1 mt-3">
+                <input value={newName} onChange={e => setNewName(e.target.value)} placeholder="Nova categoria" className="flex-[3] min-w-0 p-2 bg-white rounded-lg border border-slate-200 text-xs outline-none" />
+                <input value={newShortLabel} onChange={e => setNewShortLabel(e.target.value)} placeholder="Sigla" maxLength={8} className="flex-1 min-w-0 p-2 bg-white rounded-lg border border-slate-200 text-xs outline-none" />
+                <button disabled={!newName.trim() || nameTaken(newName)} onClick={handleAdd} className="px-3 bg-cyan-500 text-white text-xs font-bold rounded-lg disabled:opacity-50">Adicionar</button>
+            </div>
+        </div>
+    );
+};
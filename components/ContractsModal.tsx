@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import { Modal } from './Modal';
+import { PhotoImage } from './PhotoImage';
+import { IconChevronLeft, IconFileExcel } from './icons';
+import { AppData, CategoryConfig } from '../types';
+import { formatDateKey } from '../utils/dateRange';
+import { listContracts, normalizeContract, ContractSummary } from '../utils/contractIndex';
+import { createContractXlsx } from '../utils/xlsx';
+import { downloadBlob } from '../utils/download';
+import { getCategoryName } from '../utils/categories';
+import { getItemQuantity } from '../utils/totals';
+
+interface ContractsModalProps {
+    appData: AppData;
+    categories: CategoryConfig[];
+    initialContract?: string | null;
+    onClose: () => void;
+    onGoToDate: (date: string) => void;
+}
+
+const ContractDetail = ({ summary, categories, onGoToDate }: { summary: ContractSummary; categories: CategoryConfig[]; onGoToDate: (date: string) => void }) => {
+    const handleExport = () => {
+        downloadBlob(createContractXlsx(summary.contract, summary.entries, categories), `Contrato_${summary.contract.replace(/[^a-zA-Z0-9_-]/g, '_')}.xlsx`);
+    };
+
+    return (
+        <>
+            <div className="grid grid-cols-3 gap-2 mb-4 text-center">
+                <div className="p-2 bg-slate-50 rounded-xl border border-slate-100">
+                    <div className="text-[9px] font-bold text-slate-400 uppercase">Equipamentos</div>
+                    <div className="text-xs font-black text-slate-600">{summary.totalQuantity}</div>
+                </div>
+                <div className="p-2 bg-slate-50 rounded-xl border border-slate-100">
+                    <div className="text-[9px] font-bold text-slate-400 uppercase">Dias</div>
+                    <div className="text-xs font-black text-slate-600">{summary.dates.length}</div>
+                </div>
+                <div className="p-2 bg-slate-50 rounded-xl border border-slate-100">
+                    <div className="text-[9px] font-bold text-slate-400 uppercase">Fotos</div>
+                    <div className="text-xs font-black text-slate-600">{summary.photoCount}</div>
+                </div>
+            </div>
+
+            <div className="space-y-3 mb-4">
+                {summary.dates.map(date => (
+                    <div key={date}>
+                        <button onClick={() => onGoToDate(date)} className="text-xs font-bold text-cyan-600 hover:underline mb-1">{formatDateKey(date)}</button>
+                        <div className="space-y-1">
+                            {summary.entries.filter(e => e.date === date).map(e => (
+                                <div key={e.item.id} className="p-2 bg-white border border-slate-100 rounded-xl shadow-sm">
+                                    <div className="flex justify-between text-[10px] font-bold">
+                                        <span className="uppercase text-cyan-600">{getCategoryName(categories, e.category)}</span>
+                                        <span className="text-slate-400">QT: {getItemQuantity(e.item)}</span>
+                                    </div>
+                                    {e.item.serial && <div className="font-mono text-xs text-slate-700">SN: <span className="font-bold">{e.item.serial}</span></div>}
+                                    {e.item.photos.length > 0 && (
+                                        <div className="flex gap-1 mt-1 overflow-x-auto hide-scrollbar">
+                                            {e.item.photos.map(photoId => (
+                                                <div key={photoId} className="w-12 h-12 flex-shrink-0">
+                                                    <PhotoImage photoId={photoId} className="w-full h-full object-cover rounded-md border border-slate-100" />
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <button onClick={handleExport} className="w-full flex items-center justify-center gap-2 py-2 bg-green-600 text-white font-bold rounded-xl shadow-lg shadow-green-600/30 active:scale-95">
+                <IconFileExcel className="w-5 h-5" /> Exportar planilha do contrato
+            </button>
+        </>
+    );
+};
+
+export const ContractsModal = ({ appData, categories, initialContract, onClose, onGoToDate }: ContractsModalProps) => {
+    const [selected, setSelected] = useState<string | null>(initialContract ? normalizeContract(initialContract) : null);
+    const [query, setQuery] = useState('');
+
+    const contracts = useMemo(() => listContracts(appData), [appData]);
+    const filtered = contracts.filter(c => c.contract.includes(normalizeContract(query)));
+    const summary = selected ? contracts.find(c => c.contract === selected) : null;
+
+    if (selected) {
+        return (
+            <Modal title={`Contrato ${selected}`} onClose={onClose}>
+                <button onClick={() => setSelected(null)} className="flex items-center gap-1 mb-3 text-xs font-bold text-slate-500 hover:text-cyan-600">
+                    <IconChevronLeft className="w-4 h-4" /> Todos os contratos
+                </button>
+                {summary ? <ContractDetail summary={summary} categories={categories} onGoToDate={onGoToDate} /> : <p className="text-center text-slate-400">Nenhum equipamento neste contrato.</p>}
+            </Modal>
+        );
+    }
+
+    return (
+        <Modal title="Contratos" onClose={onClose}>
+            <input
+                type="text"
+                value={query}
+                onChange={e => setQuery(e.target.value)}
+                placeholder="Filtrar contrato..."
+                className="w-full p-2 mb-3 bg-slate-100 rounded-lg border border-slate-200 text-sm text-slate-700 outline-none"
+            />
+            {filtered.length === 0 && <p className="text-center text-slate-400">Nenhum contrato encontrado.</p>}
+            <div className="space-y-2">
+                {filtered.map(c => (
+                    <div key={c.contract} onClick={() => setSelected(c.contract)} className="p-3 bg-white border border-slate-100 rounded-xl shadow-sm hover:bg-blue-50 cursor-pointer">
+                        <div className="flex justify-between items-center mb-1">
+                            <span className="font-mono text-sm font-black text-slate-700">{c.contract}</span>
+                            <span className="text-[10px] font-bold text-slate-400">{c.firstSeen === c.lastSeen ? formatDateKey(c.lastSeen) : `${formatDateKey(c.firstSeen)} a ${formatDateKey(c.lastSeen)}`}</span>
+                        </div>
+                        <div className="flex flex-wrap gap-1">
+                            {c.categories.map(cat => <span key={cat} className="px-2 py-0.5 bg-cyan-50 text-cyan-700 rounded-full text-[9px] font-bold">{getCategoryName(categories, cat)}</span>)}
+                            <span className="px-2 py-0.5 bg-slate-100 text-slate-500 rounded-full text-[9px] font-bold">{c.totalQuantity} equip.</span>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </Modal>
+    );
+};
@@ -0,0 +1,213 @@
+import React, { useMemo, useState } from 'react';
+import { Modal } from './Modal';
+import { RangePicker } from './RangePicker';
+import { AppData, CategoryConfig, EquipmentCategory } from '../types';
+import { DateRange, formatDateKey, formatRangeLabel, getPresetRange } from '../utils/dateRange';
+import { getShortLabel, resolveCategories } from '../utils/categories';
+import { SeriesPoint, buildDailySeries, buildWeeklySeries, compareMonths, getCoverage, pointValue, summarizeSeries } from '../utils/analytics';
+
+interface DashboardModalProps {
+    appData: AppData;
+    categories: CategoryConfig[];
+    currentDate: Date;
+    onClose: () => void;
+    onGoToDate: (date: string) => void;
+}
+
+type View = 'daily' | 'weekly';
+
+const COLORS = ['#06b6d4', '#8b5cf6', '#f59e0b', '#10b981', '#ef4444', '#3b82f6', '#ec4899', '#64748b'];
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 140;
+const AXIS = 16; // room for the labels under the bars
+
+const formatNumber = (value: number) => value.toLocaleString('pt-BR', { maximumFractionDigits: 1 });
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+const pointLabel = (point: SeriesPoint) => point.start === point.end ? formatDateKey(point.start) : `${formatDateKey(point.start).substring(0, 5)} a ${formatDateKey(point.end).substring(0, 5)}`;
+
+interface BarChartProps {
+    series: SeriesPoint[];
+    categories: CategoryConfig[];
+    colorOf: (id: EquipmentCategory) => string;
+    category: EquipmentCategory | null;
+    average: number;
+}
+
+// Stacked bars per category, or a single series when a category is selected. Each bar has a
+// <title>, which shows as a tooltip on desktop and on long press on mobile.
+const BarChart = ({ series, categories, colorOf, category, average }: BarChartProps) => {
+    const plotHeight = CHART_HEIGHT - AXIS;
+    const max = Math.max(1, ...series.map(p => pointValue(p, category)));
+    const slot = CHART_WIDTH / Math.max(1, series.length);
+    const barWidth = Math.max(1, slot * 0.7);
+    const scale = (value: number) => (value / max) * (plotHeight - 8);
+    const stacked = category ? [category] : categories.map(c => c.id);
+    const averageY = plotHeight - scale(average);
+    const labelEvery = Math.ceil(series.length / 6);
+
+    return (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img">
+            <line x1={0} y1={plotHeight} x2={CHART_WIDTH} y2={plotHeight} stroke="#cbd5e1" strokeWidth={1} />
+            <text x={2} y={8} fontSize={8} fill="#94a3b8">{max}</text>
+            {series.map((point, i) => {
+                let y = plotHeight;
+                const x = i * slot + (slot - barWidth) / 2;
+                return (
+                    <g key={point.start}>
+                        <title>{`${pointLabel(point)}: ${pointValue(point, category)}`}</title>
+                        <rect x={i * slot} y={0} width={slot} height={plotHeight} fill="transparent" />
+                        {stacked.map(id => {
+                            const value = point.byCategory[id] || 0;
+                            if (value === 0) return null;
+                            const height = scale(value);
+                            y -= height;
+                            return <rect key={id} x={x} y={y} width={barWidth} height={height} fill={colorOf(id)} rx={Math.min(2, barWidth / 4)} />;
+                        })}
+                        {i % labelEvery === 0 && (
+                            <text x={i * slot + slot / 2} y={CHART_HEIGHT - 4} fontSize={7} fill="#94a3b8" textAnchor="middle">
+                                {formatDateKey(point.start).substring(0, 5)}
+                            </text>
+                        )}
+                    </g>
+                );
+            })}
+            {average > 0 && (
+                <>
+                    <line x1={0} y1={averageY} x2={CHART_WIDTH} y2={averageY} stroke="#0f172a" strokeOpacity={0.4} strokeDasharray="4 3" strokeWidth={1} />
+                    <text x={CHART_WIDTH - 2} y={averageY - 3} fontSize={7} fill="#475569" textAnchor="end">média {formatNumber(average)}</text>
+                </>
+            )}
+        </svg>
+    );
+};
+
+const Stat = ({ label, value, detail, onClick }: { label: string; value: string; detail?: string; onClick?: () => void }) => (
+    <div onClick={onClick} className={`p-2 bg-white/60 rounded-xl border border-slate-100 shadow-sm ${onClick ? 'cursor-pointer hover:bg-blue-50' : ''}`}>
+        <div className="text-[10px] font-bold uppercase text-slate-400">{label}</div>
+        <div className="text-lg font-bold text-slate-700">{value}</div>
+        {detail && <div className="text-[10px] text-slate-500">{detail}</div>}
+    </div>
+);
+
+const ShareBar = ({ label, part, whole }: { label: string; part: number; whole: number }) => {
+    const share = whole > 0 ? part / whole : 0;
+    return (
+        <div>
+            <div className="flex justify-between text-xs font-bold text-slate-600 mb-1">
+                <span>{label}</span>
+                <span>{formatPercent(share)} <span className="text-slate-400 font-normal">({part}/{whole})</span></span>
+            </div>
+            <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div className="h-full bg-cyan-500 rounded-full" style={{ width: formatPercent(share) }} />
+            </div>
+        </div>
+    );
+};
+
+export const DashboardModal = ({ appData, categories, currentDate, onClose, onGoToDate }: DashboardModalProps) => {
+    const [range, setRange] = useState<DateRange>(() => getPresetRange('monthToDate', currentDate));
+    const [view, setView] = useState<View>('daily');
+    const [category, setCategory] = useState<EquipmentCategory | null>(null);
+
+    const chartCategories = useMemo(() => resolveCategories(categories, Object.values(appData).flatMap(day => Object.keys(day))), [categories, appData]);
+    const colorOf = (id: EquipmentCategory) => COLORS[Math.max(0, chartCategories.findIndex(c => c.id === id)) % COLORS.length];
+
+    const series = useMemo(() => view === 'daily' ? buildDailySeries(appData, range) : buildWeeklySeries(appData, range), [appData, range, view]);
+    const stats = useMemo(() => summarizeSeries(series, category), [series, category]);
+    const coverage = useMemo(() => getCoverage(appData, range, category), [appData, range, category]);
+    const comparison = useMemo(() => compareMonths(appData, currentDate, chartCategories.map(c => c.id)), [appData, currentDate, chartCategories]);
+    const unit = view === 'daily' ? 'dia' : 'semana';
+
+    return (
+        <Modal title="Painel" onClose={onClose}>
+            <div className="space-y-4">
+                <RangePicker referenceDate={currentDate} value={range} onChange={setRange} />
+
+                <div className="flex bg-slate-100 p-1 rounded-lg">
+                    {(['daily', 'weekly'] as View[]).map(v => (
+                        <button key={v} onClick={() => setView(v)} className={`flex-1 py-1 rounded-md text-xs font-bold ${view === v ? 'bg-white text-cyan-600 shadow-sm' : 'text-slate-500'}`}>
+                            {v === 'daily' ? 'Diário' : 'Semanal'}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex flex-wrap gap-1">
+                    <button onClick={() => setCategory(null)} className={`px-2 py-1 rounded-full text-[10px] font-bold border ${category === null ? 'bg-slate-700 border-slate-600 text-white' : 'bg-white border-slate-200 text-slate-500'}`}>
+                        Todas
+                    </button>
+                    {chartCategories.map(c => (
+                        <button
+                            key={c.id}
+                            onClick={() => setCategory(category === c.id ? null : c.id)}
+                            className={`flex items-center gap-1 px-2 py-1 rounded-full text-[10px] font-bold border ${category === c.id ? 'bg-slate-700 border-slate-600 text-white' : 'bg-white border-slate-200 text-slate-500'}`}
+                        >
+                            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: colorOf(c.id) }} />
+                            {getShortLabel(c)}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="p-2 bg-white/60 rounded-xl border border-slate-100">
+                    <div className="text-xs font-bold text-slate-500 mb-1">{formatRangeLabel(range)}</div>
+                    {stats.total > 0
+                        ? <BarChart series={series} categories={chartCategories} colorOf={colorOf} category={category} average={stats.activeAverage} />
+                        : <p className="text-center text-slate-400 text-sm py-8">Nenhum item no período.</p>}
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                    <Stat label="Total" value={formatNumber(stats.total)} detail={`${stats.activePoints} ${unit}(s) com registro`} />
+                    <Stat label={`Média por ${unit}`} value={formatNumber(stats.activeAverage)} detail={`${formatNumber(stats.average)} contando ${unit}s sem registro`} />
+                    <Stat
+                        label={view === 'daily' ? 'Melhor dia' : 'Melhor semana'}
+                        value={stats.best ? formatNumber(pointValue(stats.best, category)) : '-'}
+                        detail={stats.best ? pointLabel(stats.best) : undefined}
+                        onClick={stats.best ? () => onGoToDate(stats.best!.start) : undefined}
+                    />
+                    <Stat
+                        label={view === 'daily' ? 'Pior dia' : 'Pior semana'}
+                        value={stats.worst ? formatNumber(pointValue(stats.worst, category)) : '-'}
+                        detail={stats.worst ? pointLabel(stats.worst) : undefined}
+                        onClick={stats.worst ? () => onGoToDate(stats.worst!.start) : undefined}
+                    />
+                </div>
+
+                <div className="space-y-2">
+                    <h4 className="text-xs font-bold uppercase text-slate-500">Registros completos</h4>
+                    <ShareBar label="Com foto" part={coverage.withPhotos} whole={coverage.items} />
+                    <ShareBar label="Com serial" part={coverage.withSerial} whole={coverage.items} />
+                </div>
+
+                <div>
+                    <h4 className="text-xs font-bold uppercase text-slate-500">Mês a mês</h4>
+                    <p className="text-[10px] text-slate-400 mb-2">{formatRangeLabel(comparison.current)} vs {formatRangeLabel(comparison.previous)}</p>
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-slate-400 text-left">
+                                <th className="font-bold pb-1">Categoria</th>
+                                <th className="font-bold pb-1 text-right">Atual</th>
+                                <th className="font-bold pb-1 text-right">Anterior</th>
+                                <th className="font-bold pb-1 text-right">Variação</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {comparison.rows.filter(row => row.category === null || row.current > 0 || row.previous > 0).map(row => {
+                                const config = chartCategories.find(c => c.id === row.category);
+                                return (
+                                    <tr key={row.category || 'total'} className={`border-t border-slate-100 ${row.category === null ? 'font-bold text-slate-700' : 'text-slate-600'}`}>
+                                        <td className="py-1">{config ? getShortLabel(config) : 'Total'}</td>
+                                        <td className="py-1 text-right">{row.current}</td>
+                                        <td className="py-1 text-right">{row.previous}</td>
+                                        <td className={`py-1 text-right font-bold ${row.change === null ? 'text-slate-400' : row.change >= 0 ? 'text-emerald-600' : 'text-red-500'}`}>
+                                            {row.change === null ? '-' : `${row.change >= 0 ? '▲' : '▼'} ${formatPercent(Math.abs(row.change))}`}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </Modal>
+    );
+};
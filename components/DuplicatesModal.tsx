@@ -0,0 +1,78 @@
+import React from 'react';
+import { Modal } from './Modal';
+import { IconClock, IconWarning } from './icons';
+import { CategoryConfig, EquipmentCategory, EquipmentItem } from '../types';
+import { formatDateKey } from '../utils/dateRange';
+import { getCategoryName } from '../utils/categories';
+import { DayDuplicate, SerialConflict } from '../utils/serialIndex';
+
+interface DuplicatesModalProps {
+    date: string;
+    duplicates: DayDuplicate[];
+    categories: CategoryConfig[];
+    onClose: () => void;
+    onGoToDate: (date: string) => void;
+    onShowSerialHistory: (serial: string) => void;
+    onToggleAcknowledge: (category: EquipmentCategory, item: EquipmentItem) => void;
+}
+
+export const ConflictLinks = ({ conflicts, categories, onGoToDate }: { conflicts: SerialConflict[]; categories: CategoryConfig[]; onGoToDate: (date: string) => void }) => (
+    <div className="flex flex-wrap gap-1">
+        {conflicts.map(({ occurrence, sameDay }) => (
+            <button
+                key={occurrence.item.id}
+                onClick={(e) => { e.stopPropagation(); onGoToDate(occurrence.date); }}
+                className={`px-1.5 py-0.5 rounded-full text-[9px] font-bold underline-offset-2 hover:underline ${sameDay ? 'bg-red-100 text-red-600' : 'bg-amber-100 text-amber-700'}`}
+            >
+                {sameDay ? 'Hoje' : formatDateKey(occurrence.date)} · {getCategoryName(categories, occurrence.category)}{occurrence.item.contract ? ` · CT ${occurrence.item.contract}` : ''}
+            </button>
+        ))}
+    </div>
+);
+
+export const DuplicatesModal = ({ date, duplicates, categories, onClose, onGoToDate, onShowSerialHistory, onToggleAcknowledge }: DuplicatesModalProps) => {
+    const pending = duplicates.filter(d => !d.acknowledged);
+    const resolved = duplicates.filter(d => d.acknowledged);
+
+    const renderEntry = (dup: DayDuplicate) => (
+        <div key={dup.item.id} className={`p-3 rounded-xl border shadow-sm ${dup.acknowledged ? 'bg-slate-50 border-slate-100' : 'bg-white border-red-100'}`}>
+            <div className="flex justify-between items-center text-xs font-bold mb-1">
+                <span className="uppercase text-cyan-600">{getCategoryName(categories, dup.category)}</span>
+                <button onClick={() => onShowSerialHistory(dup.item.serial)} className="flex items-center gap-1 px-2 py-0.5 bg-cyan-50 text-cyan-600 rounded-full text-[10px]">
+                    <IconClock className="w-3 h-3" /> Histórico
+                </button>
+            </div>
+            <div className="font-mono text-sm text-slate-700 mb-2">SN: <span className="font-bold">{dup.item.serial}</span></div>
+            <div className="text-[10px] font-bold text-slate-400 mb-1">Também registrado em:</div>
+            <ConflictLinks conflicts={dup.conflicts} categories={categories} onGoToDate={onGoToDate} />
+            <button
+                onClick={() => onToggleAcknowledge(dup.category, dup.item)}
+                className={`w-full mt-2 py-1 rounded-lg text-xs font-bold ${dup.acknowledged ? 'bg-slate-200 text-slate-600' : 'bg-green-50 text-green-700 border border-green-100'}`}
+            >
+                {dup.acknowledged ? 'Reabrir' : 'Marcar como correto'}
+            </button>
+        </div>
+    );
+
+    return (
+        <Modal title={`Duplicados de ${formatDateKey(date)}`} onClose={onClose}>
+            {duplicates.length === 0 && <p className="text-center text-slate-400">Nenhum serial duplicado neste dia.</p>}
+
+            {pending.length > 0 && (
+                <div className="space-y-2 mb-4">
+                    <div className="flex items-center gap-1 text-xs font-bold text-red-500">
+                        <IconWarning className="w-4 h-4" /> {pending.length} a resolver
+                    </div>
+                    {pending.map(renderEntry)}
+                </div>
+            )}
+
+            {resolved.length > 0 && (
+                <div className="space-y-2">
+                    <div className="text-xs font-bold text-slate-400">{resolved.length} resolvido(s)</div>
+                    {resolved.map(renderEntry)}
+                </div>
+            )}
+        </Modal>
+    );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Modal } from './Modal';
+import { IconUndo, IconRedo } from './icons';
+import { HistoryEntry, HistoryState } from '../utils/history';
+
+interface HistoryModalProps {
+    history: HistoryState;
+    onTravel: (steps: number) => void;
+    onClose: () => void;
+}
+
+const formatTime = (at: number) => {
+    const date = new Date(at);
+    const time = date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+    return date.toDateString() === new Date().toDateString() ? time : `${date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' })} ${time}`;
+};
+
+// Newest first. Tapping an entry returns the data to the moment right after it.
+export const HistoryModal = ({ history, onTravel, onClose }: HistoryModalProps) => {
+    const { past, future } = history;
+
+    const renderEntry = (entry: HistoryEntry, steps: number, undone: boolean) => (
+        <button
+            key={entry.id}
+            onClick={() => onTravel(steps)}
+            className={`w-full flex justify-between items-center gap-2 p-2 rounded-xl border text-left text-xs shadow-sm ${undone ? 'bg-slate-50 border-slate-100 text-slate-400' : 'bg-white border-slate-100 text-slate-700'}`}
+        >
+            <span className={`font-bold ${undone ? 'line-through' : ''}`}>{entry.label}</span>
+            <span className="text-[10px] text-slate-400 whitespace-nowrap">{formatTime(entry.at)}</span>
+        </button>
+    );
+
+    return (
+        <Modal title="Histórico" onClose={onClose}>
+            <div className="flex gap-2 mb-4">
+                <button disabled={past.length === 0} onClick={() => onTravel(-1)} className="flex-1 flex items-center justify-center gap-2 py-2 bg-slate-100 text-slate-600 font-bold rounded-xl disabled:opacity-50">
+                    <IconUndo className="w-4 h-4" /> Desfazer
+                </button>
+                <button disabled={future.length === 0} onClick={() => onTravel(1)} className="flex-1 flex items-center justify-center gap-2 py-2 bg-slate-100 text-slate-600 font-bold rounded-xl disabled:opacity-50">
+                    <IconRedo className="w-4 h-4" /> Refazer
+                </button>
+            </div>
+            {past.length === 0 && future.length === 0 ? (
+                <p className="text-center text-slate-400 text-sm py-6">Nenhuma alteração registrada.</p>
+            ) : (
+                <div className="space-y-1">
+                    {[...future].reverse().map((entry, i) => renderEntry(entry, future.length - i, true))}
+                    <div className="text-[10px] font-bold text-cyan-600 uppercase tracking-wider py-1">Agora</div>
+                    {[...past].reverse().map((entry, i) => renderEntry(entry, -i, false))}
+                    {past.length > 0 && (
+                        <button onClick={() => onTravel(-past.length)} className="w-full p-2 text-xs font-bold text-slate-400 underline">Voltar ao início do histórico</button>
+                    )}
+                </div>
+            )}
+        </Modal>
+    );
+};
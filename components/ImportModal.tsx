@@ -0,0 +1,148 @@
+import React, { useMemo, useState } from 'react';
+import { Modal } from './Modal';
+import { CategorizedItem, CategoryConfig, EquipmentCategory, EquipmentItem } from '../types';
+import { getFormattedDate } from '../utils/appData';
+import { getCategoryName } from '../utils/categories';
+import { describeCustomFields } from '../utils/fields';
+import {
+    parseDelimited, hasHeaderRow, guessMapping, validateRows, createEmptyMapping, getImportCustomFields, IMPORT_FIELDS,
+    ColumnMapping, ParsedTable
+} from '../utils/csvImport';
+
+interface ImportModalProps {
+    currentDate: Date;
+    categories: CategoryConfig[]; // active categories only
+    onClose: () => void;
+    onImport: (date: string, entries: CategorizedItem[]) => void;
+}
+
+export const ImportModal = ({ currentDate, categories, onClose, onImport }: ImportModalProps) => {
+    const [date, setDate] = useState(getFormattedDate(currentDate));
+    const [table, setTable] = useState<ParsedTable | null>(null);
+    const [hasHeader, setHasHeader] = useState(true);
+    const [mapping, setMapping] = useState<ColumnMapping>(createEmptyMapping);
+    const [defaultCategory, setDefaultCategory] = useState<EquipmentCategory | ''>('');
+    const [pasted, setPasted] = useState('');
+
+    const loadText = (text: string) => {
+        const parsed = parseDelimited(text);
+        const header = hasHeaderRow(parsed.rows, categories);
+        setTable(parsed);
+        setHasHeader(header);
+        setMapping(guessMapping(parsed.rows, header, categories));
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) loadText(await file.text());
+    };
+
+    const rows = useMemo(() => {
+        if (!table) return [];
+        return validateRows(table, mapping, hasHeader, defaultCategory || null, categories);
+    }, [table, mapping, hasHeader, defaultCategory, categories]);
+
+    const validRows = rows.filter(r => r.errors.length === 0);
+    const columnCount = table ? Math.max(0, ...table.rows.map(r => r.length)) : 0;
+    const columnLabel = (index: number) => hasHeader && table?.rows[0]?.[index] ? table.rows[0][index] : `Coluna ${index + 1}`;
+    const customFields = useMemo(() => getImportCustomFields(categories), [categories]);
+
+    const renderColumnSelect = (key: string, label: string, value: number, onChange: (column: number) => void) => (
+        <div key={key} className="flex items-center gap-2">
+            <span className="w-20 text-xs font-bold text-slate-600 truncate">{label}</span>
+            <select
+                value={value}
+                onChange={e => onChange(Number(e.target.value))}
+                className="flex-1 p-1 bg-white rounded-md border border-slate-200 text-xs text-slate-700"
+            >
+                <option value={-1}>— não importar —</option>
+                {Array.from({ length: columnCount }).map((_, i) => <option key={i} value={i}>{columnLabel(i)}</option>)}
+            </select>
+        </div>
+    );
+
+    const handleImport = () => {
+        if (!date || validRows.length === 0) return;
+        onImport(date, validRows.map(r => ({ category: r.category as EquipmentCategory, item: r.item as EquipmentItem })));
+    };
+
+    return (
+        <Modal title="Importar CSV" onClose={onClose}>
+            <div className="space-y-4">
+                <div>
+                    <label className="text-xs font-bold text-slate-500">Dia de destino</label>
+                    <input type="date" value={date} onChange={e => setDate(e.target.value)} className="w-full p-2 bg-slate-100 rounded-lg border border-slate-200 font-bold text-slate-700" />
+                </div>
+
+                {!table && (
+                    <div className="space-y-2">
+                        <label className="block w-full py-2 bg-cyan-500 text-white font-bold rounded-lg text-center cursor-pointer shadow-lg shadow-cyan-500/30 active:scale-95">
+                            Escolher arquivo CSV / TSV
+                            <input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={handleFile} className="hidden" />
+                        </label>
+                        <textarea
+                            value={pasted}
+                            onChange={e => setPasted(e.target.value)}
+                            placeholder="...ou cole aqui as linhas da planilha"
+                            className="w-full h-24 p-2 bg-slate-100 rounded-lg border border-slate-200 text-xs font-mono text-slate-700 outline-none select-text"
+                        />
+                        <button disabled={!pasted.trim()} onClick={() => loadText(pasted)} className="w-full py-2 bg-slate-100 text-slate-600 rounded-lg font-bold disabled:opacity-50">Ler texto colado</button>
+                    </div>
+                )}
+
+                {table && (
+                    <>
+                        <div className="p-3 bg-slate-50 rounded-xl border border-slate-100 space-y-2">
+                            <label className="flex items-center gap-2 text-xs font-bold text-slate-500">
+                                <input type="checkbox" checked={hasHeader} onChange={e => setHasHeader(e.target.checked)} className="accent-cyan-500" />
+                                Primeira linha é cabeçalho
+                            </label>
+                            {IMPORT_FIELDS.map(({ field, label }) => renderColumnSelect(field, label, mapping[field], column => setMapping(prev => ({ ...prev, [field]: column }))))}
+                            {customFields.map(field => renderColumnSelect(`extra.${field.id}`, field.label, mapping.extra[field.id] ?? -1, column => setMapping(prev => ({ ...prev, extra: { ...prev.extra, [field.id]: column } }))))}
+                            <div className="flex items-center gap-2">
+                                <span className="w-20 text-xs font-bold text-slate-600">Padrão</span>
+                                <select value={defaultCategory} onChange={e => setDefaultCategory(e.target.value as EquipmentCategory | '')} className="flex-1 p-1 bg-white rounded-md border border-slate-200 text-xs text-slate-700">
+                                    <option value="">Sem categoria padrão</option>
+                                    {categories.map(cat => <option key={cat.id} value={cat.id}>{cat.name}</option>)}
+                                </select>
+                            </div>
+                        </div>
+
+                        <div className="flex justify-between text-xs font-bold">
+                            <span className="text-green-600">{validRows.length} válida(s)</span>
+                            <span className="text-red-500">{rows.length - validRows.length} rejeitada(s)</span>
+                        </div>
+
+                        <div className="max-h-60 overflow-y-auto space-y-1">
+                            {rows.map(row => (
+                                <div key={row.line} className={`p-2 rounded-lg border text-[10px] ${row.errors.length ? 'bg-red-50 border-red-100' : 'bg-white border-slate-100'}`}>
+                                    <div className="flex justify-between font-bold text-slate-400">
+                                        <span>Linha {row.line}</span>
+                                        <span className="uppercase text-cyan-600">{row.category ? getCategoryName(categories, row.category) : '?'}</span>
+                                    </div>
+                                    {row.item ? (
+                                        <div className="font-mono text-slate-700">
+                                            QT: {row.item.qt || '-'} | CT: {row.item.contract || '-'} | SN: {row.item.serial || '-'}
+                                            {row.item.extra && <div className="text-slate-500">{describeCustomFields(row.item, categories.find(c => c.id === row.category))}</div>}
+                                        </div>
+                                    ) : (
+                                        <div className="font-mono text-slate-400 truncate">{row.values.join(' | ')}</div>
+                                    )}
+                                    {row.errors.map(err => <div key={err} className="font-bold text-red-500">{err}</div>)}
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="flex gap-3">
+                            <button onClick={() => setTable(null)} className="flex-1 py-2 bg-slate-100 text-slate-600 font-bold rounded-xl">Voltar</button>
+                            <button disabled={validRows.length === 0 || !date} onClick={handleImport} className="flex-1 py-2 bg-cyan-500 text-white font-bold rounded-xl shadow-lg shadow-cyan-500/30 disabled:opacity-50">
+                                Importar {validRows.length}
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </Modal>
+    );
+};
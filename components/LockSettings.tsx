@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { PinInput } from './PinInput';
+import { PIN_PATTERN } from '../utils/profiles';
+import {
+    AppLockSettings, AUTO_LOCK_OPTIONS, loadLockSettings, enableLock, changePin, updateAutoLock, setDataEncryption, disableLock, checkPin,
+} from '../utils/appLock';
+
+interface LockSettingsProps {
+    onLockNow: () => void;
+}
+
+const readSettings = (): AppLockSettings | null => {
+    try {
+        return loadLockSettings();
+    } catch {
+        return null;
+    }
+};
+
+export const LockSettings = ({ onLockNow }: LockSettingsProps) => {
+    const [settings, setSettings] = useState<AppLockSettings | null>(readSettings);
+    const [pin, setPin] = useState('');
+    const [confirmPin, setConfirmPin] = useState('');
+    const [currentPin, setCurrentPin] = useState('');
+    const [autoLock, setAutoLock] = useState(5);
+    const [progress, setProgress] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const isBusy = progress !== null;
+
+    const validateNewPin = (): boolean => {
+        if (!PIN_PATTERN.test(pin)) {
+            setMessage('O PIN deve ter de 4 a 8 dígitos.');
+            return false;
+        }
+        if (pin !== confirmPin) {
+            setMessage('Os PINs não conferem.');
+            return false;
+        }
+        return true;
+    };
+
+    // Conversions can take a while with many photos; the user sees the count go up.
+    const run = async (label: string, task: (onProgress: (done: number, total: number) => void) => Promise<void>) => {
+        setMessage(null);
+        setProgress(label);
+        try {
+            await task((done, total) => setProgress(`${label} ${done}/${total}`));
+        } catch (e) {
+            console.error(e);
+            setMessage(`Falhou: ${e instanceof Error ? e.message : e}. Tente de novo; nada foi perdido.`);
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    const handleEnable = () => {
+        if (!validateNewPin()) return;
+        run('Ativando...', async () => {
+            setSettings(await enableLock(pin, autoLock));
+            setPin('');
+            setConfirmPin('');
+            setMessage('Bloqueio ativado.');
+        });
+    };
+
+    const handleChangePin = () => {
+        if (!settings || !validateNewPin()) return;
+        run('Salvando...', async () => {
+            setSettings(await changePin(settings, pin));
+            setPin('');
+            setConfirmPin('');
+            setMessage('PIN alterado.');
+        });
+    };
+
+    const handleEncryption = (encrypt: boolean) => {
+        if (!settings) return;
+        run(encrypt ? 'Criptografando...' : 'Descriptografando...', async onProgress => {
+            setSettings(await setDataEncryption(settings, encrypt, onProgress));
+            setMessage(encrypt ? 'Dados e fotos criptografados.' : 'Criptografia desativada.');
+        });
+    };
+
+    const handleDisable = () => {
+        if (!settings) return;
+        run('Desativando...', async onProgress => {
+            if (!(await checkPin(settings, currentPin))) {
+                setMessage('PIN incorreto.');
+                return;
+            }
+            await disableLock(settings, onProgress);
+            setSettings(null);
+            setCurrentPin('');
+            setMessage('Bloqueio desativado.');
+        });
+    };
+
+    return (
+        <div className="p-4 bg-slate-50 rounded-xl border border-slate-100">
+            <h4 className="font-bold text-slate-600 mb-1">Bloqueio</h4>
+            <p className="text-xs text-slate-400 mb-3">Pede um PIN ao abrir o app. Com a criptografia, contratos, seriais e fotos ficam ilegíveis sem o PIN. Sem ele, não há como recuperar os dados: faça um backup antes.</p>
+            <div className="space-y-3 text-xs">
+                {!settings ? (
+                    <>
+                        <PinInput value={pin} onChange={setPin} placeholder="Novo PIN (4 a 8 dígitos)" disabled={isBusy} />
+                        <PinInput value={confirmPin} onChange={setConfirmPin} placeholder="Repita o PIN" disabled={isBusy} />
+                        <label className="flex items-center justify-between font-bold text-slate-600">
+                            Bloquear após inatividade
+                            <select value={autoLock} onChange={e => setAutoLock(Number(e.target.value))} className="p-1 bg-white rounded border border-slate-200 text-slate-700">
+                                {AUTO_LOCK_OPTIONS.map(o => <option key={o.minutes} value={o.minutes}>{o.label}</option>)}
+                            </select>
+                        </label>
+                        <button disabled={isBusy || !pin} onClick={handleEnable} className="w-full py-2 bg-cyan-500 text-white rounded-lg font-bold disabled:opacity-50">Ativar bloqueio</button>
+                    </>
+                ) : (
+                    <>
+                        <label className="flex items-center justify-between font-bold text-slate-600">
+                            Bloquear após inatividade
+                            <select value={settings.autoLockMinutes} disabled={isBusy} onChange={e => setSettings(updateAutoLock(settings, Number(e.target.value)))} className="p-1 bg-white rounded border border-slate-200 text-slate-700">
+                                {AUTO_LOCK_OPTIONS.map(o => <option key={o.minutes} value={o.minutes}>{o.label}</option>)}
+                            </select>
+                        </label>
+                        <label className="flex items-center gap-2 font-bold text-slate-600">
+                            <input type="checkbox" checked={settings.encryptData} disabled={isBusy} onChange={e => handleEncryption(e.target.checked)} className="accent-cyan-500" />
+                            Criptografar dados e fotos salvos
+                        </label>
+                        <button disabled={isBusy} onClick={onLockNow} className="w-full py-2 bg-slate-700 text-white rounded-lg font-bold disabled:opacity-50">Bloquear agora</button>
+
+                        <div className="space-y-2 pt-2 border-t border-slate-200">
+                            <PinInput value={pin} onChange={setPin} placeholder="Novo PIN" disabled={isBusy} />
+                            <PinInput value={confirmPin} onChange={setConfirmPin} placeholder="Repita o novo PIN" disabled={isBusy} />
+                            <button disabled={isBusy || !pin} onClick={handleChangePin} className="w-full py-2 bg-slate-100 text-slate-600 rounded-lg font-bold disabled:opacity-50">Trocar PIN</button>
+                        </div>
+
+                        <div className="space-y-2 pt-2 border-t border-slate-200">
+                            <PinInput value={currentPin} onChange={setCurrentPin} placeholder="PIN atual" disabled={isBusy} />
+                            <button disabled={isBusy || !currentPin} onClick={handleDisable} className="w-full py-2 bg-red-50 text-red-500 rounded-lg font-bold disabled:opacity-50">Desativar bloqueio</button>
+                        </div>
+                    </>
+                )}
+                {progress && <p className="font-bold text-cyan-600 text-center">{progress}</p>}
+                {message && <p className="font-bold text-slate-500 text-center">{message}</p>}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,15 @@
+import React from 'react';
+import { IconX } from './icons';
+
+// Milky glass modal shell shared by every dialog in the app.
+export const Modal = ({ title, onClose, children }: any) => (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/20 backdrop-blur-sm animate-fade-in">
+        <div className="bg-white/90 backdrop-blur-2xl rounded-2xl shadow-2xl w-full max-w-md overflow-hidden border border-white/50 animate-slide-in-up">
+            <div className="flex justify-between items-center p-4 border-b border-slate-200/50">
+                <h3 className="text-lg font-bold text-slate-700">{title}</h3>
+                <button onClick={onClose}><IconX className="w-6 h-6 text-slate-400 hover:text-red-500" /></button>
+            </div>
+            <div className="p-4 max-h-[80vh] overflow-y-auto">{children}</div>
+        </div>
+    </div>
+);
@@ -0,0 +1,194 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { IconUndo } from './icons';
+import { getPhoto } from '../utils/photoStore';
+import { PhotoSettings, canvasToJpeg, fitDimensions } from '../utils/photoPipeline';
+
+type Tool = 'arrow' | 'circle' | 'text';
+
+interface Shape {
+    tool: Tool;
+    color: string;
+    x1: number; y1: number; x2: number; y2: number; // image pixels
+    text?: string;
+}
+
+const TOOLS: { tool: Tool; label: string }[] = [
+    { tool: 'arrow', label: 'Seta' },
+    { tool: 'circle', label: 'Círculo' },
+    { tool: 'text', label: 'Texto' },
+];
+
+const COLORS = ['#ef4444', '#facc15', '#22d3ee', '#ffffff'];
+
+const drawShape = (ctx: CanvasRenderingContext2D, shape: Shape) => {
+    const lineWidth = Math.max(3, Math.round(Math.min(ctx.canvas.width, ctx.canvas.height) / 150));
+    ctx.save();
+    ctx.strokeStyle = shape.color;
+    ctx.fillStyle = shape.color;
+    ctx.lineWidth = lineWidth;
+    ctx.lineCap = 'round';
+    if (shape.tool === 'arrow') {
+        const angle = Math.atan2(shape.y2 - shape.y1, shape.x2 - shape.x1);
+        const head = lineWidth * 5;
+        ctx.beginPath();
+        ctx.moveTo(shape.x1, shape.y1);
+        ctx.lineTo(shape.x2, shape.y2);
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.moveTo(shape.x2, shape.y2);
+        ctx.lineTo(shape.x2 - head * Math.cos(angle - Math.PI / 6), shape.y2 - head * Math.sin(angle - Math.PI / 6));
+        ctx.lineTo(shape.x2 - head * Math.cos(angle + Math.PI / 6), shape.y2 - head * Math.sin(angle + Math.PI / 6));
+        ctx.closePath();
+        ctx.fill();
+    } else if (shape.tool === 'circle') {
+        ctx.beginPath();
+        ctx.ellipse((shape.x1 + shape.x2) / 2, (shape.y1 + shape.y2) / 2, Math.abs(shape.x2 - shape.x1) / 2, Math.abs(shape.y2 - shape.y1) / 2, 0, 0, Math.PI * 2);
+        ctx.stroke();
+    } else if (shape.text) {
+        const fontSize = lineWidth * 8;
+        ctx.font = `bold ${fontSize}px sans-serif`;
+        ctx.textBaseline = 'middle';
+        ctx.lineWidth = lineWidth;
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.strokeText(shape.text, shape.x1, shape.y1);
+        ctx.fillText(shape.text, shape.x1, shape.y1);
+    }
+    ctx.restore();
+};
+
+interface PhotoAnnotatorProps {
+    photoId: string;
+    settings: PhotoSettings;
+    onCancel: () => void;
+    onSave: (blob: Blob) => void;
+}
+
+// Draws over a stored photo; the result is saved as a new photo through the same
+// size / quality settings as the camera.
+export const PhotoAnnotator = ({ photoId, settings, onCancel, onSave }: PhotoAnnotatorProps) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [image, setImage] = useState<ImageBitmap | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [tool, setTool] = useState<Tool>('arrow');
+    const [color, setColor] = useState(COLORS[0]);
+    const [shapes, setShapes] = useState<Shape[]>([]);
+    const [draft, setDraft] = useState<Shape | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        setImage(null);
+        setLoadError(null);
+        // A pruned or missing blob resolves to null; a corrupt one makes createImageBitmap reject.
+        getPhoto(photoId)
+            .then(blob => blob ? createImageBitmap(blob) : null)
+            .then(bitmap => {
+                if (cancelled) return;
+                if (bitmap) setImage(bitmap);
+                else setLoadError('Foto não encontrada neste aparelho.');
+            })
+            .catch(e => {
+                console.error(e);
+                if (!cancelled) setLoadError('Não foi possível abrir a foto.');
+            });
+        return () => { cancelled = true; };
+    }, [photoId]);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx || !image) return;
+        const { width, height } = fitDimensions(image.width, image.height, settings.maxDimension);
+        canvas.width = width;
+        canvas.height = height;
+        ctx.drawImage(image, 0, 0, width, height);
+        [...shapes, ...(draft ? [draft] : [])].forEach(shape => drawShape(ctx, shape));
+    }, [image, shapes, draft]);
+
+    const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const canvas = e.currentTarget;
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left) * canvas.width / rect.width,
+            y: (e.clientY - rect.top) * canvas.height / rect.height,
+        };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const { x, y } = toImagePoint(e);
+        if (tool === 'text') {
+            const text = prompt('Texto:');
+            if (text && text.trim()) setShapes([...shapes, { tool, color, x1: x, y1: y, x2: x, y2: y, text: text.trim() }]);
+            return;
+        }
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDraft({ tool, color, x1: x, y1: y, x2: x, y2: y });
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!draft) return;
+        const { x, y } = toImagePoint(e);
+        setDraft({ ...draft, x2: x, y2: y });
+    };
+
+    const handlePointerUp = () => {
+        if (!draft) return;
+        // A tap without dragging would leave an invisible shape.
+        if (Math.hypot(draft.x2 - draft.x1, draft.y2 - draft.y1) > 5) setShapes([...shapes, draft]);
+        setDraft(null);
+    };
+
+    const handleSave = async () => {
+        if (!canvasRef.current) return;
+        setIsSaving(true);
+        try {
+            onSave(await canvasToJpeg(canvasRef.current, settings.quality));
+        } catch (e) {
+            console.error(e);
+            alert("Não foi possível salvar a anotação.");
+            setIsSaving(false);
+        }
+    };
+
+    if (loadError) {
+        return (
+            <div className="relative w-full h-full flex flex-col items-center justify-center gap-3">
+                <div className="text-white font-bold">{loadError}</div>
+                <button onClick={onCancel} className="text-white underline">Cancelar</button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="relative w-full h-full flex flex-col items-center justify-center gap-3">
+            {image ? (
+                <canvas
+                    ref={canvasRef}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    className="max-w-full max-h-[65vh] rounded-lg shadow-2xl touch-none"
+                />
+            ) : (
+                <div className="text-white">Carregando foto...</div>
+            )}
+            <div className="flex gap-2">
+                {TOOLS.map(t => (
+                    <button key={t.tool} onClick={() => setTool(t.tool)} className={`px-3 py-1 rounded-full text-xs font-bold border ${tool === t.tool ? 'bg-cyan-500 border-cyan-400 text-white' : 'bg-white/10 border-white/20 text-white'}`}>
+                        {t.label}
+                    </button>
+                ))}
+                <button disabled={shapes.length === 0} onClick={() => setShapes(shapes.slice(0, -1))} className="p-1 rounded-full bg-white/10 text-white disabled:opacity-30"><IconUndo className="w-5 h-5" /></button>
+            </div>
+            <div className="flex gap-2">
+                {COLORS.map(c => (
+                    <button key={c} onClick={() => setColor(c)} style={{ backgroundColor: c }} className={`w-7 h-7 rounded-full border-2 ${color === c ? 'border-white scale-110' : 'border-white/20'}`} />
+                ))}
+            </div>
+            <div className="flex gap-4">
+                <button onClick={onCancel} className="text-white underline">Cancelar</button>
+                <button disabled={!image || shapes.length === 0 || isSaving} onClick={handleSave} className="px-6 py-2 bg-cyan-500 text-white font-bold rounded-full disabled:opacity-50">Salvar anotação</button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,32 @@
+import React, { useEffect, useState } from 'react';
+import { getPhoto, isInlinePhoto } from '../utils/photoStore';
+
+export const usePhotoUrl = (photoId: string | null): string | null => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!photoId) { setUrl(null); return; }
+    if (isInlinePhoto(photoId)) { setUrl(photoId); return; }
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    getPhoto(photoId).then(blob => {
+      if (cancelled || !blob) return;
+      objectUrl = URL.createObjectURL(blob);
+      setUrl(objectUrl);
+    }).catch(e => console.error(e));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [photoId]);
+
+  return url;
+};
+
+export const PhotoImage = ({ photoId, className }: { photoId: string; className?: string }) => {
+  const url = usePhotoUrl(photoId);
+  if (!url) return <div className={`bg-slate-800/50 animate-pulse ${className || ''}`} />;
+  return <img src={url} className={className} />;
+};
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from './Modal';
+import { PhotoImage } from './PhotoImage';
+import { CategoryConfig, DailyData, EquipmentCategory, EquipmentItem } from '../types';
+import { ItemPatch } from '../utils/appReducer';
+import { formatDateKey } from '../utils/dateRange';
+import { getCategoryName } from '../utils/categories';
+import { getCategoryFields, validateItem } from '../utils/fields';
+import { getPhoto } from '../utils/photoStore';
+import { ScannerSettings, ParsedScan, decodeImage, parseScan } from '../utils/scanner';
+
+interface PhotoScanModalProps {
+    date: string;
+    dayData: DailyData;
+    categories: CategoryConfig[];
+    scannerSettings: ScannerSettings;
+    onClose: () => void;
+    onApply: (patches: ItemPatch[]) => void;
+}
+
+interface Proposal {
+    category: EquipmentCategory;
+    item: EquipmentItem;
+    status: 'pending' | 'found' | 'none';
+    photoId?: string; // the photo the code was read from
+    scan?: ParsedScan;
+    selected: boolean;
+}
+
+const needsSerial = (item: EquipmentItem) => item.photos.length > 0 && !item.serial.trim();
+
+const getSerial = (p: Proposal) => (p.scan?.values.serial || '').trim();
+
+// Same rules as the Serial cell of EquipmentRow; an empty serial has nothing to apply.
+const validateSerial = (p: Proposal, config: CategoryConfig | undefined): string | null => {
+    const serial = getSerial(p);
+    if (!serial) return 'Serial vazio';
+    return validateItem({ ...p.item, serial }, getCategoryFields(config)).serial || null;
+};
+
+// Reads the photos of every item of the day that has photos but no serial and proposes the
+// decoded serials; nothing is written until the user applies the selected proposals. Only the
+// serial is patched, on the item as it is by then, so edits made meanwhile are kept.
+export const PhotoScanModal = ({ date, dayData, categories, scannerSettings, onClose, onApply }: PhotoScanModalProps) => {
+    const [proposals, setProposals] = useState<Proposal[]>(() => Object.entries(dayData).flatMap(([category, items]) =>
+        items.filter(needsSerial).map(item => ({ category, item, status: 'pending' as const, selected: false }))
+    ));
+
+    useEffect(() => {
+        let cancelled = false;
+        // One photo at a time: decoding is heavy on phones.
+        const run = async () => {
+            for (const proposal of proposals) {
+                let found: Pick<Proposal, 'photoId' | 'scan'> | null = null;
+                for (const photoId of proposal.item.photos) {
+                    if (cancelled) return;
+                    const blob = await getPhoto(photoId).catch(() => undefined);
+                    const text = blob ? await decodeImage(blob, scannerSettings) : null;
+                    if (text) {
+                        found = { photoId, scan: parseScan(text, categories.find(c => c.id === proposal.category)) };
+                        break;
+                    }
+                }
+                if (cancelled) return;
+                setProposals(prev => prev.map(p => p.item.id !== proposal.item.id ? p
+                    : found ? { ...p, ...found, status: 'found', selected: true } : { ...p, status: 'none' }));
+            }
+        };
+        run();
+        return () => { cancelled = true; };
+    }, []);
+
+    const pendingCount = proposals.filter(p => p.status === 'pending').length;
+    const getConfig = (p: Proposal) => categories.find(c => c.id === p.category);
+    const selected = proposals.filter(p => p.selected && p.scan && !validateSerial(p, getConfig(p)));
+
+    const update = (id: string, changes: Partial<Proposal>) => {
+        setProposals(prev => prev.map(p => p.item.id === id ? { ...p, ...changes } : p));
+    };
+
+    const handleApply = () => {
+        onApply(selected.map(p => ({ category: p.category, itemId: p.item.id, changes: { serial: getSerial(p) } })));
+        onClose();
+    };
+
+    return (
+        <Modal title={`Ler fotos · ${formatDateKey(date)}`} onClose={onClose}>
+            {proposals.length === 0 ? (
+                <p className="text-center text-slate-400 text-sm py-6">Nenhum item com foto e sem serial neste dia.</p>
+            ) : (
+                <>
+                    <p className="text-xs text-slate-400 mb-3">
+                        {pendingCount > 0 ? `Lendo fotos... ${proposals.length - pendingCount} de ${proposals.length}` : `${proposals.filter(p => p.status === 'found').length} de ${proposals.length} item(s) com código encontrado.`}
+                    </p>
+                    <div className="space-y-2 mb-4">
+                        {proposals.map(p => {
+                            const config = getConfig(p);
+                            const error = p.scan ? validateSerial(p, config) : null;
+                            return (
+                                <div key={p.item.id} className={`flex gap-2 p-2 rounded-xl border shadow-sm ${p.status === 'found' ? 'bg-white border-cyan-100' : 'bg-slate-50 border-slate-100'}`}>
+                                    <div className="w-12 h-12 flex-shrink-0">
+                                        <PhotoImage photoId={p.photoId || p.item.photos[0]} className="w-full h-full object-cover rounded-md border border-slate-100" />
+                                    </div>
+                                    <div className="flex-1 min-w-0">
+                                        <div className="flex justify-between text-[10px] font-bold">
+                                            <span className="uppercase text-cyan-600">{getCategoryName(categories, p.category)}</span>
+                                            <span className="text-slate-400">{p.item.contract ? `CT ${p.item.contract}` : ''}</span>
+                                        </div>
+                                        {p.status === 'pending' && <div className="text-xs text-slate-400">Lendo...</div>}
+                                        {p.status === 'none' && <div className="text-xs text-slate-400">Nenhum código encontrado.</div>}
+                                        {p.status === 'found' && p.scan && (
+                                            <>
+                                                <input
+                                                    value={p.scan.values.serial || ''}
+                                                    onChange={e => update(p.item.id, { scan: { ...p.scan!, values: { ...p.scan!.values, serial: e.target.value } } })}
+                                                    placeholder="Serial"
+                                                    className={`w-full p-1 bg-slate-50 rounded border font-mono text-xs text-slate-700 outline-none ${error ? 'border-red-400' : 'border-slate-200'}`}
+                                                />
+                                                {error && <div className="text-[10px] font-bold text-red-500">{error}</div>}
+                                                <div className="text-[10px] font-mono text-slate-500 truncate">{p.scan.raw}</div>
+                                            </>
+                                        )}
+                                    </div>
+                                    {p.status === 'found' && (
+                                        <input type="checkbox" checked={p.selected && !error} disabled={!!error} onChange={e => update(p.item.id, { selected: e.target.checked })} className="accent-cyan-500 self-center" />
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                    <button
+                        disabled={selected.length === 0}
+                        onClick={handleApply}
+                        className="w-full py-2 bg-cyan-500 text-white font-bold rounded-xl shadow-lg shadow-cyan-500/30 disabled:opacity-50"
+                    >
+                        Aplicar {selected.length} serial(is)
+                    </button>
+                </>
+            )}
+        </Modal>
+    );
+};
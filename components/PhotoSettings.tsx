@@ -0,0 +1,33 @@
+import React from 'react';
+import { MAX_DIMENSION_OPTIONS, PhotoSettings as PhotoSettingsValue } from '../utils/photoPipeline';
+
+interface PhotoSettingsProps {
+    settings: PhotoSettingsValue;
+    onChange: (settings: PhotoSettingsValue) => void;
+}
+
+export const PhotoSettings = ({ settings, onChange }: PhotoSettingsProps) => (
+    <div className="p-4 bg-slate-50 rounded-xl border border-slate-100">
+        <h4 className="font-bold text-slate-600 mb-1">Fotos</h4>
+        <p className="text-xs text-slate-400 mb-3">Vale para fotos novas. Fotos menores ocupam menos espaço no aparelho e nos backups.</p>
+        <div className="space-y-3 text-xs">
+            <label className="flex items-center justify-between font-bold text-slate-600">
+                Tamanho máximo
+                <select value={settings.maxDimension} onChange={e => onChange({ ...settings, maxDimension: Number(e.target.value) })} className="p-1 bg-white rounded border border-slate-200 text-slate-700">
+                    {MAX_DIMENSION_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+            </label>
+            <label className="block font-bold text-slate-600">
+                <div className="flex justify-between">
+                    <span>Qualidade</span>
+                    <span className="text-slate-400">{Math.round(settings.quality * 100)}%</span>
+                </div>
+                <input type="range" min={0.4} max={0.95} step={0.05} value={settings.quality} onChange={e => onChange({ ...settings, quality: Number(e.target.value) })} className="w-full accent-cyan-500" />
+            </label>
+            <label className="flex items-center gap-2 font-bold text-slate-600">
+                <input type="checkbox" checked={settings.watermark} onChange={e => onChange({ ...settings, watermark: e.target.checked })} className="accent-cyan-500" />
+                Carimbar data, contrato e serial
+            </label>
+        </div>
+    </div>
+);
@@ -0,0 +1,25 @@
+import React from 'react';
+
+interface PinInputProps {
+    value: string;
+    onChange: (value: string) => void;
+    placeholder?: string;
+    autoFocus?: boolean;
+    disabled?: boolean;
+}
+
+// Digits only, masked; shared by the profile and app lock screens.
+export const PinInput = ({ value, onChange, placeholder = 'PIN', autoFocus, disabled }: PinInputProps) => (
+    <input
+        type="password"
+        inputMode="numeric"
+        autoComplete="off"
+        maxLength={8}
+        autoFocus={autoFocus}
+        disabled={disabled}
+        value={value}
+        onChange={e => onChange(e.target.value.replace(/\D/g, ''))}
+        placeholder={placeholder}
+        className="w-full p-2 bg-white rounded-lg border border-slate-200 outline-none focus:ring-2 ring-cyan-400 font-bold tracking-widest text-slate-700 disabled:opacity-50"
+    />
+);
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { Modal } from './Modal';
+import { PinInput } from './PinInput';
+import { IconLock, IconTrash, IconUser } from './icons';
+import { Profile } from '../types';
+import { PIN_PATTERN, createPin, createProfile, verifyPin } from '../utils/profiles';
+
+type Confirmation = { message: string; onConfirm: () => void } | null;
+
+interface ProfilePickerProps {
+    profiles: Profile[];
+    activeProfileId: string | null; // null on the lock screen: every profile asks for its PIN
+    onPick: (id: string) => void;
+    actionLabel: string;
+}
+
+// Profile list; picking a profile with a PIN asks for it first.
+const ProfilePicker = ({ profiles, activeProfileId, onPick, actionLabel }: ProfilePickerProps) => {
+    const [pending, setPending] = useState<string | null>(null);
+    const [pin, setPin] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const select = (profile: Profile) => {
+        setError(null);
+        setPin('');
+        if (profile.id === activeProfileId) return;
+        if (!profile.pin) onPick(profile.id);
+        else setPending(pending === profile.id ? null : profile.id);
+    };
+
+    const submit = async (profile: Profile) => {
+        if (await verifyPin(profile, pin)) onPick(profile.id);
+        else {
+            setError('PIN incorreto');
+            setPin('');
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            {profiles.map(profile => (
+                <div key={profile.id} className={`rounded-xl border ${profile.id === activeProfileId ? 'bg-cyan-50 border-cyan-200' : 'bg-white border-slate-100'} shadow-sm`}>
+                    <button onClick={() => select(profile)} className="w-full flex items-center gap-3 p-3 text-left">
+                        <IconUser className="w-5 h-5 text-slate-500" />
+                        <span className="flex-1 font-bold text-slate-700">{profile.name}</span>
+                        {profile.pin && <IconLock className="w-4 h-4 text-slate-400" />}
+                        {profile.id === activeProfileId && <span className="text-[10px] font-bold uppercase text-cyan-600">Em uso</span>}
+                    </button>
+                    {pending === profile.id && (
+                        <form onSubmit={e => { e.preventDefault(); submit(profile); }} className="flex gap-2 px-3 pb-3">
+                            <PinInput value={pin} onChange={setPin} autoFocus />
+                            <button type="submit" disabled={!pin} className="px-3 bg-cyan-500 text-white rounded-lg font-bold text-sm disabled:opacity-50">{actionLabel}</button>
+                        </form>
+                    )}
+                    {pending === profile.id && error && <div className="px-3 pb-2 text-xs font-bold text-red-500">{error}</div>}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+interface ProfilesModalProps {
+    profiles: Profile[];
+    activeProfileId: string;
+    onSwitch: (id: string) => void;
+    onProfilesChange: (profiles: Profile[]) => void;
+    onDelete: (id: string) => void;
+    onClose: () => void;
+    setConfirmation: (c: Confirmation) => void;
+}
+
+export const ProfilesModal = ({ profiles, activeProfileId, onSwitch, onProfilesChange, onDelete, onClose, setConfirmation }: ProfilesModalProps) => {
+    const active = profiles.find(p => p.id === activeProfileId)!;
+    const [newName, setNewName] = useState('');
+    const [newPin, setNewPin] = useState('');
+    const [name, setName] = useState(active.name);
+    const [pin, setPin] = useState('');
+    const [message, setMessage] = useState<string | null>(null);
+
+    const updateActive = (changes: Partial<Profile>) => {
+        onProfilesChange(profiles.map(p => p.id === activeProfileId ? { ...p, ...changes } : p));
+    };
+
+    const handleAdd = async () => {
+        if (newPin && !PIN_PATTERN.test(newPin)) {
+            setMessage('O PIN deve ter de 4 a 8 dígitos.');
+            return;
+        }
+        const profile = createProfile(newName);
+        onProfilesChange([...profiles, newPin ? { ...profile, pin: await createPin(newPin) } : profile]);
+        setNewName('');
+        setNewPin('');
+        setMessage(`Perfil "${profile.name}" criado.`);
+    };
+
+    const handleSetPin = async () => {
+        if (!PIN_PATTERN.test(pin)) {
+            setMessage('O PIN deve ter de 4 a 8 dígitos.');
+            return;
+        }
+        updateActive({ pin: await createPin(pin) });
+        setPin('');
+        setMessage('PIN salvo.');
+    };
+
+    const handleDelete = (profile: Profile) => {
+        setConfirmation({
+            message: `Apagar o perfil "${profile.name}" e todos os itens dele neste aparelho?`,
+            onConfirm: () => onDelete(profile.id),
+        });
+    };
+
+    return (
+        <Modal title="Perfis" onClose={onClose}>
+            <div className="space-y-5">
+                <ProfilePicker profiles={profiles} activeProfileId={activeProfileId} onPick={onSwitch} actionLabel="Entrar" />
+
+                <div className="space-y-2">
+                    <h4 className="text-xs font-bold uppercase text-slate-500">Perfil em uso</h4>
+                    <div className="flex gap-2">
+                        <input value={name} onChange={e => setName(e.target.value)} className="flex-1 p-2 bg-white rounded-lg border border-slate-200 outline-none focus:ring-2 ring-cyan-400 font-bold text-slate-700" />
+                        <button disabled={!name.trim() || name.trim() === active.name} onClick={() => { updateActive({ name: name.trim() }); setMessage('Nome salvo.'); }} className="px-3 bg-slate-100 text-slate-600 rounded-lg font-bold text-sm disabled:opacity-50">Renomear</button>
+                    </div>
+                    <div className="flex gap-2">
+                        <PinInput value={pin} onChange={setPin} placeholder={active.pin ? 'Novo PIN' : 'Definir PIN (4 a 8 dígitos)'} />
+                        <button disabled={!pin} onClick={handleSetPin} className="px-3 bg-slate-100 text-slate-600 rounded-lg font-bold text-sm disabled:opacity-50">Salvar</button>
+                    </div>
+                    {active.pin && <button onClick={() => { updateActive({ pin: undefined }); setMessage('PIN removido.'); }} className="text-xs font-bold text-slate-400 underline">Remover PIN</button>}
+                </div>
+
+                <div className="space-y-2">
+                    <h4 className="text-xs font-bold uppercase text-slate-500">Novo perfil</h4>
+                    <input value={newName} onChange={e => setNewName(e.target.value)} placeholder="Nome do técnico" className="w-full p-2 bg-white rounded-lg border border-slate-200 outline-none focus:ring-2 ring-cyan-400 font-bold text-slate-700" />
+                    <PinInput value={newPin} onChange={setNewPin} placeholder="PIN (opcional)" />
+                    <button disabled={!newName.trim()} onClick={handleAdd} className="w-full py-2 bg-cyan-500 text-white rounded-xl font-bold disabled:opacity-50">Criar perfil</button>
+                </div>
+
+                {profiles.length > 1 && (
+                    <div className="space-y-1">
+                        <h4 className="text-xs font-bold uppercase text-slate-500">Apagar perfil</h4>
+                        {profiles.filter(p => p.id !== activeProfileId).map(profile => (
+                            <button key={profile.id} onClick={() => handleDelete(profile)} className="w-full flex items-center justify-between p-2 rounded-lg text-sm font-bold text-red-500 hover:bg-red-50">
+                                {profile.name} <IconTrash className="w-4 h-4" />
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                {message && <p className="text-xs font-bold text-cyan-600 text-center">{message}</p>}
+            </div>
+        </Modal>
+    );
+};
+
+interface ProfileLockScreenProps {
+    profiles: Profile[];
+    onUnlock: (id: string) => void;
+}
+
+// Shown at startup when the last used profile has a PIN.
+export const ProfileLockScreen = ({ profiles, onUnlock }: ProfileLockScreenProps) => (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-b from-white via-slate-50 to-slate-100">
+        <div className="w-full max-w-sm p-4 bg-white/70 backdrop-blur-2xl rounded-2xl shadow-2xl border border-white/50">
+            <div className="flex items-center gap-2 mb-4 text-slate-700">
+                <IconLock className="w-6 h-6" />
+                <h2 className="text-lg font-bold">Escolha o perfil</h2>
+            </div>
+            <ProfilePicker profiles={profiles} activeProfileId={null} onPick={onUnlock} actionLabel="Desbloquear" />
+        </div>
+    </div>
+);
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { DateRange, RangePreset, RANGE_PRESETS, getPresetRange, getMonthRange, formatRangeLabel } from '../utils/dateRange';
+
+interface RangePickerProps {
+  referenceDate: Date;
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+}
+
+// Shared by DownloadModal and ShareModal. Presets are relative to the date selected in the header.
+export const RangePicker = ({ referenceDate, value, onChange }: RangePickerProps) => {
+  const [preset, setPreset] = useState<RangePreset>('day');
+
+  const selectPreset = (p: RangePreset) => {
+    setPreset(p);
+    if (p !== 'custom') onChange(getPresetRange(p, referenceDate));
+  };
+
+  const handleMonthChange = (month: string) => {
+    if (!month) return;
+    const [y, m] = month.split('-').map(Number);
+    onChange(getMonthRange(y, m - 1));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-1 bg-slate-100 p-1 rounded-lg">
+        {RANGE_PRESETS.map(({ preset: p, label }) => (
+          <button
+            key={p}
+            onClick={() => selectPreset(p)}
+            className={`py-1 rounded-md text-xs font-bold ${preset === p ? 'bg-white shadow text-slate-800' : 'text-slate-500'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {preset === 'month' && (
+        <input
+          type="month"
+          value={value.start.substring(0, 7)}
+          onChange={e => handleMonthChange(e.target.value)}
+          className="w-full p-2 bg-slate-100 rounded-lg border border-slate-200 text-sm font-bold text-slate-700"
+        />
+      )}
+
+      {preset === 'custom' && (
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={value.start}
+            onChange={e => e.target.value && onChange({ ...value, start: e.target.value })}
+            className="flex-1 p-2 bg-slate-100 rounded-lg border border-slate-200 text-sm font-bold text-slate-700"
+          />
+          <span className="text-xs font-bold text-slate-400">até</span>
+          <input
+            type="date"
+            value={value.end}
+            onChange={e => e.target.value && onChange({ ...value, end: e.target.value })}
+            className="flex-1 p-2 bg-slate-100 rounded-lg border border-slate-200 text-sm font-bold text-slate-700"
+          />
+        </div>
+      )}
+
+      <p className="text-sm text-slate-500 text-center">Período: <b>{formatRangeLabel(value)}</b></p>
+    </div>
+  );
+};
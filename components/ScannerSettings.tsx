@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { IconTrash } from './icons';
+import { CategoryConfig, ParseRule } from '../types';
+import { getActiveCategories } from '../utils/categories';
+import { getCategoryFields, isValidPattern } from '../utils/fields';
+import { SCANNER_FORMATS, ScannerFormat, ScannerSettings as ScannerSettingsValue, createParseRule, parseScan, describeScan } from '../utils/scanner';
+
+interface ScannerSettingsProps {
+    settings: ScannerSettingsValue;
+    onSettingsChange: (settings: ScannerSettingsValue) => void;
+    categories: CategoryConfig[];
+    onCategoriesChange: (categories: CategoryConfig[]) => void;
+}
+
+export const ScannerSettings = ({ settings, onSettingsChange, categories, onCategoriesChange }: ScannerSettingsProps) => {
+    const activeCategories = getActiveCategories(categories);
+    const [categoryId, setCategoryId] = useState(activeCategories[0]?.id || '');
+    const [samples, setSamples] = useState('SN:ABC123;MAC:00:1A:2B:3C:4D:5E\n8955010012345678908');
+
+    const category = categories.find(c => c.id === categoryId);
+    const fields = getCategoryFields(category);
+    const rules = category?.parseRules || [];
+
+    const toggleFormat = (format: ScannerFormat) => {
+        const formats = settings.formats.includes(format)
+            ? settings.formats.filter(f => f !== format)
+            : SCANNER_FORMATS.map(s => s.format).filter(f => f === format || settings.formats.includes(f));
+        if (formats.length === 0) return;
+        onSettingsChange({ ...settings, formats });
+    };
+
+    const setRules = (parseRules: ParseRule[]) => {
+        onCategoriesChange(categories.map(c => c.id === categoryId ? { ...c, parseRules } : c));
+    };
+
+    const updateRule = (id: string, changes: Partial<ParseRule>) => {
+        setRules(rules.map(r => r.id === id ? { ...r, ...changes } : r));
+    };
+
+    return (
+        <div className="p-4 bg-slate-50 rounded-xl border border-slate-100">
+            <h4 className="font-bold text-slate-600 mb-1">Scanner</h4>
+            <p className="text-xs text-slate-400 mb-2">Formatos aceitos. Menos formatos deixam a leitura mais rápida.</p>
+            <div className="grid grid-cols-3 gap-1 mb-4">
+                {SCANNER_FORMATS.map(({ format, label }) => (
+                    <label key={format} className="flex items-center gap-1 text-[10px] font-bold text-slate-600">
+                        <input type="checkbox" checked={settings.formats.includes(format)} onChange={() => toggleFormat(format)} className="accent-cyan-500" />
+                        {label}
+                    </label>
+                ))}
+            </div>
+
+            <div className="flex items-center justify-between mb-1">
+                <h5 className="text-xs font-bold text-slate-600">Regras de leitura</h5>
+                <select value={categoryId} onChange={e => setCategoryId(e.target.value)} className="p-1 bg-white rounded border border-slate-200 text-[10px] font-bold text-slate-700">
+                    {activeCategories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+            </div>
+            <p className="text-[10px] text-slate-400 mb-2">O valor é o grupo "value" ou o primeiro grupo da expressão. Sem nenhuma regra aplicada, o código inteiro vai para o Serial.</p>
+            <div className="space-y-1">
+                {rules.map(rule => (
+                    <div key={rule.id} className="flex gap-1">
+                        <select value={rule.field} onChange={e => updateRule(rule.id, { field: e.target.value })} className="flex-1 min-w-0 p-1 bg-white rounded border border-slate-200 text-[10px] text-slate-700">
+                            {fields.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                            {!fields.some(f => f.id === rule.field) && <option value={rule.field}>{rule.field} (removido)</option>}
+                        </select>
+                        <input
+                            value={rule.pattern}
+                            onChange={e => updateRule(rule.id, { pattern: e.target.value })}
+                            placeholder="SN:(\w+)"
+                            className={`flex-[3] min-w-0 p-1 bg-white rounded border font-mono text-[10px] text-slate-700 outline-none ${!rule.pattern || !isValidPattern(rule.pattern) ? 'border-red-300' : 'border-slate-200'}`}
+                        />
+                        <button onClick={() => setRules(rules.filter(r => r.id !== rule.id))} className="p-1 text-red-400"><IconTrash className="w-3 h-3" /></button>
+                    </div>
+                ))}
+                <button disabled={!category} onClick={() => setRules([...rules, createParseRule('serial')])} className="w-full py-1 bg-white rounded border border-dashed border-slate-300 text-[10px] font-bold text-slate-500 disabled:opacity-50">Adicionar regra</button>
+            </div>
+
+            <h5 className="text-xs font-bold text-slate-600 mt-4 mb-1">Testar leitura</h5>
+            <textarea
+                value={samples}
+                onChange={e => setSamples(e.target.value)}
+                rows={3}
+                placeholder="Um código por linha"
+                className="w-full p-2 bg-white rounded-lg border border-slate-200 font-mono text-[10px] text-slate-700 outline-none"
+            />
+            <div className="space-y-1 mt-1">
+                {samples.split('\n').filter(line => line.trim()).map((line, index) => {
+                    const scan = parseScan(line, category);
+                    return (
+                        <div key={index} className="p-1 bg-white rounded border border-slate-100 text-[10px]">
+                            <div className="font-mono text-slate-400 truncate">{scan.raw}</div>
+                            <div className={`font-bold ${scan.fallback ? 'text-amber-600' : 'text-cyan-700'}`}>
+                                {describeScan(scan, category)}{scan.fallback && ' (nenhuma regra aplicada)'}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
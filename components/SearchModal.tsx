@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { Modal } from './Modal';
+import { RangePicker } from './RangePicker';
+import { IconClock } from './icons';
+import { AppData, CategoryConfig, EquipmentCategory } from '../types';
+import { formatDateKey, getPresetRange } from '../utils/dateRange';
+import { getCategoryName, resolveCategories } from '../utils/categories';
+import { describeCustomFields } from '../utils/fields';
+import { EMPTY_FILTERS, SearchFilters, SearchHit, buildSearchIndex, searchItems, groupHitsByDate, getFieldLabel, hasActiveFilters } from '../utils/searchIndex';
+
+interface SearchModalProps {
+    appData: AppData;
+    categories: CategoryConfig[];
+    currentDate: Date;
+    onClose: () => void;
+    onSelect: (hits: SearchHit[], index: number) => void;
+    onShowSerialHistory: (serial: string) => void;
+}
+
+const Highlight = ({ value, indices }: { value: string; indices: number[] }) => (
+    <>
+        {Array.from(value).map((c, i) => indices.includes(i)
+            ? <mark key={i} className="bg-amber-200 text-slate-800 rounded-sm">{c}</mark>
+            : <React.Fragment key={i}>{c}</React.Fragment>)}
+    </>
+);
+
+const KIND_LABELS = { exact: null, typo: 'aproximado', partial: 'parcial' };
+
+export const SearchModal = ({ appData, categories, currentDate, onClose, onSelect, onShowSerialHistory }: SearchModalProps) => {
+    const [term, setTerm] = useState('');
+    const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS);
+    const [showFilters, setShowFilters] = useState(false);
+
+    const index = useMemo(() => buildSearchIndex(appData), [appData]);
+    const hits = useMemo(() => searchItems(index, term, filters), [index, term, filters]);
+    const groups = useMemo(() => groupHitsByDate(hits), [hits]);
+    // Navigation follows the order shown on screen.
+    const ordered = useMemo(() => groups.flatMap(g => g.hits), [groups]);
+    const filterCategories = useMemo(() => resolveCategories(categories, Object.values(appData).flatMap(day => Object.keys(day))), [categories, appData]);
+
+    const categoryOf = (id: EquipmentCategory) => categories.find(c => c.id === id);
+
+    const toggleCategory = (id: EquipmentCategory) => {
+        const selected = filters.categories.includes(id) ? filters.categories.filter(c => c !== id) : [...filters.categories, id];
+        setFilters({ ...filters, categories: selected });
+    };
+
+    return (
+        <Modal title="Buscar Item" onClose={onClose}>
+            <input
+                autoFocus
+                value={term}
+                onChange={e => setTerm(e.target.value)}
+                placeholder="Digite Serial, Contrato ou outro campo..."
+                className="w-full p-3 bg-slate-100 rounded-xl border border-slate-200 outline-none focus:ring-2 ring-cyan-400 font-bold text-slate-700 mb-2"
+            />
+            <div className="flex justify-between items-center mb-2">
+                <button onClick={() => setShowFilters(!showFilters)} className={`text-xs font-bold ${hasActiveFilters(filters) ? 'text-cyan-600' : 'text-slate-400'}`}>
+                    Filtros{hasActiveFilters(filters) ? ' (ativos)' : ''} {showFilters ? '▲' : '▼'}
+                </button>
+                {hasActiveFilters(filters) && <button onClick={() => setFilters(EMPTY_FILTERS)} className="text-xs font-bold text-slate-400 underline">Limpar</button>}
+            </div>
+            {showFilters && (
+                <div className="p-3 mb-3 bg-slate-50 rounded-xl border border-slate-100 space-y-3">
+                    <div className="flex flex-wrap gap-1">
+                        {filterCategories.map(c => (
+                            <button
+                                key={c.id}
+                                onClick={() => toggleCategory(c.id)}
+                                className={`px-2 py-1 rounded-full text-[10px] font-bold border ${filters.categories.includes(c.id) ? 'bg-cyan-500 border-cyan-400 text-white' : 'bg-white border-slate-200 text-slate-500'}`}
+                            >
+                                {c.name}
+                            </button>
+                        ))}
+                    </div>
+                    <label className="flex items-center gap-2 text-xs font-bold text-slate-600">
+                        <input type="checkbox" checked={filters.hasPhotos} onChange={e => setFilters({ ...filters, hasPhotos: e.target.checked })} className="accent-cyan-500" />
+                        Somente com fotos
+                    </label>
+                    <label className="flex items-center gap-2 text-xs font-bold text-slate-600">
+                        <input type="checkbox" checked={!!filters.range} onChange={e => setFilters({ ...filters, range: e.target.checked ? getPresetRange('monthToDate', currentDate) : null })} className="accent-cyan-500" />
+                        Filtrar período
+                    </label>
+                    {filters.range && <RangePicker referenceDate={currentDate} value={filters.range} onChange={range => setFilters({ ...filters, range })} />}
+                </div>
+            )}
+
+            {hits.length > 0 && <p className="text-[10px] font-bold text-slate-400 mb-2">{hits.length} resultado(s) em {groups.length} dia(s)</p>}
+            <div className="space-y-3">
+                {groups.map(group => (
+                    <div key={group.date}>
+                        <div className="text-xs font-bold text-slate-500 mb-1">{formatDateKey(group.date)}</div>
+                        <div className="space-y-2">
+                            {group.hits.map(hit => {
+                                const config = categoryOf(hit.category);
+                                const matched = new Set(hit.matches.map(m => m.field));
+                                const details = describeCustomFields(hit.item, config);
+                                return (
+                                    <div key={hit.item.id} onClick={() => onSelect(ordered, ordered.indexOf(hit))} className="p-3 bg-white border border-slate-100 rounded-xl shadow-sm hover:bg-blue-50 cursor-pointer">
+                                        <div className="flex justify-between text-xs font-bold text-slate-400 mb-1">
+                                            <span className="uppercase text-cyan-600">{getCategoryName(categories, hit.category)}</span>
+                                            <span className="flex items-center gap-1">
+                                                {hit.kind && KIND_LABELS[hit.kind] && <span className="px-1.5 rounded-full bg-amber-50 text-amber-600 text-[9px]">{KIND_LABELS[hit.kind]}</span>}
+                                                {hit.item.photos.length > 0 && <span className="text-[9px]">{hit.item.photos.length} foto(s)</span>}
+                                            </span>
+                                        </div>
+                                        <div className="font-mono text-sm text-slate-700">
+                                            {hit.matches.map(m => (
+                                                <div key={m.field} className="flex items-center justify-between">
+                                                    <span>{getFieldLabel(m.field, config)}: <span className="font-bold"><Highlight value={m.value} indices={m.indices} /></span></span>
+                                                    {m.field === 'serial' && (
+                                                        <button onClick={(e) => { e.stopPropagation(); onShowSerialHistory(hit.item.serial); }} className="flex items-center gap-1 px-2 py-0.5 bg-cyan-50 text-cyan-600 rounded-full text-[10px] font-sans font-bold">
+                                                            <IconClock className="w-3 h-3" /> Histórico
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            ))}
+                                            {!matched.has('serial') && hit.item.serial && <div>SN: <span className="font-bold">{hit.item.serial}</span></div>}
+                                            {!matched.has('contract') && hit.item.contract && <div>CT: <span className="font-bold">{hit.item.contract}</span></div>}
+                                            {hit.matches.length === 0 && details && <div className="text-xs text-slate-500">{details}</div>}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                ))}
+                {(term.trim() || hasActiveFilters(filters)) && hits.length === 0 && <p className="text-center text-slate-400 mt-4">Nenhum resultado.</p>}
+            </div>
+        </Modal>
+    );
+};
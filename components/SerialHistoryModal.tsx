@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import { Modal } from './Modal';
+import { PhotoImage } from './PhotoImage';
+import { AppData, CategoryConfig } from '../types';
+import { formatDateKey } from '../utils/dateRange';
+import { getCategoryName } from '../utils/categories';
+import { buildSerialIndex, getSerialHistory, OccurrenceKind } from '../utils/serialIndex';
+
+interface SerialHistoryModalProps {
+    serial: string;
+    appData: AppData;
+    categories: CategoryConfig[];
+    onClose: () => void;
+    onGoToDate: (date: string) => void;
+}
+
+const KIND_BADGES: Record<OccurrenceKind, { label: string; className: string }> = {
+    first: { label: 'Primeira vez', className: 'bg-cyan-100 text-cyan-700' },
+    sameDay: { label: 'Mesmo dia', className: 'bg-slate-100 text-slate-500' },
+    reappearance: { label: 'Retorno / Reinstalação', className: 'bg-amber-100 text-amber-700' },
+};
+
+export const SerialHistoryModal = ({ serial, appData, categories, onClose, onGoToDate }: SerialHistoryModalProps) => {
+    const history = useMemo(() => getSerialHistory(buildSerialIndex(appData), serial), [appData, serial]);
+
+    return (
+        <Modal title="Histórico do Serial" onClose={onClose}>
+            <div className="text-center mb-4">
+                <div className="font-mono text-lg font-black text-slate-700 break-all">{serial}</div>
+            </div>
+
+            {!history && <p className="text-center text-slate-400">Nenhum registro deste serial.</p>}
+
+            {history && (
+                <>
+                    <div className="grid grid-cols-3 gap-2 mb-4 text-center">
+                        <div className="p-2 bg-slate-50 rounded-xl border border-slate-100">
+                            <div className="text-[9px] font-bold text-slate-400 uppercase">Primeira vez</div>
+                            <div className="text-xs font-black text-slate-600">{formatDateKey(history.firstSeen)}</div>
+                        </div>
+                        <div className="p-2 bg-slate-50 rounded-xl border border-slate-100">
+                            <div className="text-[9px] font-bold text-slate-400 uppercase">Última vez</div>
+                            <div className="text-xs font-black text-slate-600">{formatDateKey(history.lastSeen)}</div>
+                        </div>
+                        <div className="p-2 bg-amber-50 rounded-xl border border-amber-100">
+                            <div className="text-[9px] font-bold text-amber-400 uppercase">Retornos</div>
+                            <div className="text-xs font-black text-amber-600">{history.reappearances}</div>
+                        </div>
+                    </div>
+
+                    {history.contracts.length > 0 && (
+                        <div className="mb-4">
+                            <div className="text-xs font-bold text-slate-400 mb-1">Contratos vinculados</div>
+                            <div className="flex flex-wrap gap-1">
+                                {history.contracts.map(c => <span key={c} className="px-2 py-0.5 bg-cyan-50 text-cyan-700 rounded-full text-xs font-mono font-bold">{c}</span>)}
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="relative pl-4 space-y-3 border-l-2 border-cyan-100">
+                        {history.occurrences.map(occ => (
+                            <div key={`${occ.date}-${occ.item.id}`} className="relative">
+                                <span className="absolute -left-[21px] top-3 w-3 h-3 rounded-full bg-cyan-400 border-2 border-white shadow" />
+                                <div onClick={() => onGoToDate(occ.date)} className="p-3 bg-white border border-slate-100 rounded-xl shadow-sm hover:bg-blue-50 cursor-pointer">
+                                    <div className="flex justify-between items-center text-xs font-bold text-slate-400 mb-1">
+                                        <span>{formatDateKey(occ.date)}</span>
+                                        <span className="uppercase text-cyan-600">{getCategoryName(categories, occ.category)}</span>
+                                    </div>
+                                    <span className={`inline-block px-2 py-0.5 rounded-full text-[9px] font-bold mb-1 ${KIND_BADGES[occ.kind].className}`}>{KIND_BADGES[occ.kind].label}</span>
+                                    <div className="font-mono text-sm text-slate-700">
+                                        {occ.item.contract && <div>CT: <span className="font-bold">{occ.item.contract}</span></div>}
+                                        {occ.item.qt && <div>QT: <span className="font-bold">{occ.item.qt}</span></div>}
+                                    </div>
+                                    {occ.item.photos.length > 0 && (
+                                        <div className="flex gap-1 mt-2 overflow-x-auto hide-scrollbar">
+                                            {occ.item.photos.map(photoId => (
+                                                <div key={photoId} className="w-12 h-12 flex-shrink-0">
+                                                    <PhotoImage photoId={photoId} className="w-full h-full object-cover rounded-md border border-slate-100" />
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+        </Modal>
+    );
+};
@@ -1,17 +1,25 @@
 import React from 'react';
-import { IconCalendar, IconSave, IconExport, IconSettings, IconInfo, IconX, CustomMenuIcon } from './icons';
+import { IconCalendar, IconCamera, IconChart, IconClock, IconSave, IconArchive, IconUpload, IconFolder, IconExport, IconSettings, IconInfo, IconX, IconUser, IconCloud, CustomMenuIcon } from './icons';
 
 interface SideMenuProps {
   isOpen: boolean;
   onClose: () => void;
   onMenuClick: (modalName: string) => void;
+  profileName: string;
 }
 
-export const SideMenu = ({ isOpen, onClose, onMenuClick }: SideMenuProps) => {
+export const SideMenu = ({ isOpen, onClose, onMenuClick, profileName }: SideMenuProps) => {
 
   const menuItems = [
     { label: 'Data', icon: IconCalendar, modal: 'calendar' },
     { label: 'Salvar Manualmente', icon: IconSave, modal: 'save' },
+    { label: 'Contratos', icon: IconFolder, modal: 'contracts' },
+    { label: 'Painel', icon: IconChart, modal: 'dashboard' },
+    { label: 'Ler Fotos do Dia', icon: IconCamera, modal: 'photoScan' },
+    { label: 'Histórico', icon: IconClock, modal: 'history' },
+    { label: 'Backup', icon: IconArchive, modal: 'backup' },
+    { label: 'Sincronização', icon: IconCloud, modal: 'sync' },
+    { label: 'Importar CSV', icon: IconUpload, modal: 'import' },
     { label: 'Exportar', icon: IconExport, modal: 'export' },
     { label: 'Configurações', icon: IconSettings, modal: 'settings' },
     { label: 'Sobre', icon: IconInfo, modal: 'about' }
@@ -32,13 +40,22 @@ export const SideMenu = ({ isOpen, onClose, onMenuClick }: SideMenuProps) => {
         }`}
       >
         <div className="p-4">
-           <div className="flex items-center justify-between mb-8">
+           <div className="flex items-center justify-between mb-4">
              <CustomMenuIcon className="w-20 h-20 drop-shadow-2xl" />
              <button onClick={onClose} className="p-2 rounded-full bg-white/30 hover:bg-red-500/20 transition-colors backdrop-blur-md border border-white/30">
                 <IconX className="w-6 h-6 text-slate-600 shadow-sm"/>
             </button>
           </div>
 
+          <button
+            onClick={() => onMenuClick('profiles')}
+            className="w-full flex items-center gap-3 mb-6 p-3 rounded-xl bg-white/40 border border-white/50 shadow-sm hover:bg-white/60 active:scale-95 transition-all text-left"
+          >
+            <IconUser className="w-6 h-6 text-cyan-600" />
+            <span className="flex-1 font-bold text-slate-700 truncate">{profileName}</span>
+            <span className="text-xs font-bold text-cyan-600">Trocar</span>
+          </button>
+
           <nav className="flex flex-col gap-3">
             {menuItems.map(item => (
               <button 
@@ -0,0 +1,277 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Modal } from './Modal';
+import { IconCloud } from './icons';
+import { AppData, CategoryConfig, EquipmentItem } from '../types';
+import { getCategoryName } from '../utils/categories';
+import { formatDateKey } from '../utils/dateRange';
+import { diffData } from '../utils/history';
+import { getProfileKey } from '../utils/profiles';
+import {
+    SyncSettings, SyncState, SyncStore, RemoteChange, SYNC_STATE_KEY,
+    loadSyncState, saveSyncState, updateSyncSettings, trackChanges, scanData, runSync, resolveConflict, createRestAdapter,
+} from '../utils/sync';
+
+const AUTO_SYNC_MS = 60_000;
+// Waits for a pause in typing instead of sending every keystroke.
+const EDIT_DELAY_MS = 5_000;
+
+export type SyncStatus = 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncController {
+    state: SyncState | null; // null while loading
+    status: SyncStatus;
+    error: string | null;
+    updateSettings: (settings: SyncSettings) => void;
+    syncNow: () => void;
+    resolve: (itemId: string, keep: 'local' | 'remote') => void;
+}
+
+// Keeps the active profile's outbox up to date with its data and syncs on load, every minute,
+// after edits and when the connection comes back. onRemote receives the server's changes.
+export const useSync = (profileId: string, data: AppData, isLoaded: boolean, onRemote: (changes: RemoteChange[]) => void): SyncController => {
+    const [state, setState] = useState<SyncState | null>(null);
+    const [status, setStatus] = useState<SyncStatus>('idle');
+    const [error, setError] = useState<string | null>(null);
+    const storeRef = useRef<SyncStore | null>(null);
+    const seenData = useRef<AppData | null>(null);
+    const isRunning = useRef(false);
+    const onRemoteRef = useRef(onRemote);
+    onRemoteRef.current = onRemote;
+
+    // A store per profile; once the profile changes, a sync still running for the old one
+    // can neither save its state nor hand its changes to the new profile's data.
+    useEffect(() => {
+        let active = true;
+        const key = getProfileKey(SYNC_STATE_KEY, profileId);
+        storeRef.current = null;
+        setState(null);
+        loadSyncState(key).then(loaded => {
+            if (!active) return;
+            let current = loaded;
+            storeRef.current = {
+                get: () => current,
+                set: next => {
+                    if (!active || next === current) return;
+                    current = next;
+                    setState(next);
+                    saveSyncState(next, key).catch(e => console.error(e));
+                },
+            };
+            setState(loaded);
+        });
+        return () => { active = false; };
+    }, [profileId]);
+
+    const isStateLoaded = state !== null;
+
+    useEffect(() => {
+        const store = storeRef.current;
+        if (!isLoaded || !store) {
+            seenData.current = null;
+            return;
+        }
+        const prev = seenData.current;
+        seenData.current = data;
+        const current = store.get();
+        if (!current.settings.enabled || prev === data) return;
+        store.set(prev ? trackChanges(current, diffData(prev, data)) : scanData(current, data));
+    }, [data, isLoaded, isStateLoaded]);
+
+    const syncNow = async () => {
+        const store = storeRef.current;
+        if (!store || isRunning.current) return;
+        const { settings } = store.get();
+        if (!settings.enabled || !settings.endpoint.trim()) return;
+        if (!navigator.onLine) {
+            setStatus('offline');
+            return;
+        }
+        isRunning.current = true;
+        setStatus('syncing');
+        try {
+            await runSync(store, createRestAdapter(settings), changes => { if (storeRef.current === store) onRemoteRef.current(changes); });
+            setStatus('idle');
+            setError(null);
+        } catch (e) {
+            console.error(e);
+            // fetch rejects with a TypeError when the server can't be reached.
+            if (!navigator.onLine || e instanceof TypeError) {
+                setStatus('offline');
+                setError(null);
+            } else {
+                setStatus('error');
+                setError(e instanceof Error ? e.message : String(e));
+            }
+        } finally {
+            isRunning.current = false;
+        }
+    };
+
+    const syncRef = useRef(syncNow);
+    syncRef.current = syncNow;
+    const isEnabled = !!state?.settings.enabled;
+
+    useEffect(() => {
+        if (!isEnabled || !isLoaded) return;
+        const sync = () => syncRef.current();
+        sync();
+        const timer = setInterval(sync, AUTO_SYNC_MS);
+        window.addEventListener('online', sync);
+        return () => {
+            clearInterval(timer);
+            window.removeEventListener('online', sync);
+        };
+    }, [isEnabled, isLoaded, profileId]);
+
+    const outbox = state?.outbox;
+    useEffect(() => {
+        if (!isEnabled || !outbox || Object.keys(outbox).length === 0) return;
+        const timer = setTimeout(() => syncRef.current(), EDIT_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [outbox, isEnabled]);
+
+    const updateSettings = (settings: SyncSettings) => {
+        const store = storeRef.current;
+        if (!store) return;
+        const next = updateSyncSettings(store.get(), settings);
+        // Edits made while sync was off were not tracked; queue whatever differs now.
+        store.set(settings.enabled && seenData.current ? scanData(next, seenData.current) : next);
+        setStatus('idle');
+        setError(null);
+    };
+
+    const resolve = (itemId: string, keep: 'local' | 'remote') => {
+        const store = storeRef.current;
+        if (!store) return;
+        const result = resolveConflict(store.get(), itemId, keep);
+        store.set(result.state);
+        if (result.apply) onRemoteRef.current([result.apply]);
+    };
+
+    return { state, status, error, updateSettings, syncNow, resolve };
+};
+
+// --- INDICATOR ---
+
+const countPending = (state: SyncState) => Object.keys(state.outbox).filter(id => !state.conflicts[id]).length;
+
+// Header button; hidden while sync is off.
+export const SyncIndicator = ({ sync, onClick }: { sync: SyncController; onClick: () => void }) => {
+    const { state, status } = sync;
+    if (!state?.settings.enabled) return null;
+    const conflicts = Object.keys(state.conflicts).length;
+    const pending = countPending(state);
+    const color = conflicts > 0 || status === 'error' ? 'bg-red-500/20 text-red-500'
+        : status === 'syncing' ? 'bg-white/10 text-cyan-500 animate-pulse'
+        : status === 'offline' ? 'bg-white/10 text-amber-500'
+        : pending > 0 ? 'bg-white/10 text-slate-600' : 'bg-white/10 text-emerald-500';
+    const badge = conflicts || pending;
+    return (
+        <div className="relative">
+            <button onClick={onClick} className={`w-8 h-8 rounded-full flex items-center justify-center transition-all active:scale-90 shadow-md border border-white/20 backdrop-blur-md ${color}`}>
+                <IconCloud className="w-4 h-4" />
+            </button>
+            {badge > 0 && <span className={`absolute -top-1 -right-1 min-w-4 h-4 px-1 ${conflicts > 0 ? 'bg-red-500' : 'bg-amber-500'} rounded-full text-[9px] font-bold text-white flex items-center justify-center`}>{badge}</span>}
+        </div>
+    );
+};
+
+// --- MODAL ---
+
+const STATUS_LABELS: Record<SyncStatus, string> = {
+    idle: 'Em dia',
+    syncing: 'Sincronizando...',
+    offline: 'Sem conexão com o servidor',
+    error: 'Erro',
+};
+
+const describeItem = (item: EquipmentItem | null) => {
+    if (!item) return 'Apagado';
+    return [item.qt && `QT ${item.qt}`, item.contract, item.serial].filter(Boolean).join(' · ') || 'Sem dados';
+};
+
+interface SyncModalProps {
+    sync: SyncController;
+    categories: CategoryConfig[];
+    onClose: () => void;
+}
+
+export const SyncModal = ({ sync, categories, onClose }: SyncModalProps) => {
+    const { state, status, error } = sync;
+    const [draft, setDraft] = useState<SyncSettings | null>(state?.settings || null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!draft && state) setDraft(state.settings);
+    }, [state]);
+
+    if (!state || !draft) return <Modal title="Sincronização" onClose={onClose}><p className="text-sm text-slate-400 text-center">Carregando...</p></Modal>;
+
+    const saved = state.settings;
+    const isDirty = JSON.stringify(draft) !== JSON.stringify(saved);
+    const serverChanged = draft.endpoint.trim() !== saved.endpoint.trim() || draft.token !== saved.token;
+    const conflicts = Object.values(state.conflicts);
+    const pending = countPending(state);
+
+    const handleSave = () => {
+        if (draft.enabled && !/^https?:\/\//.test(draft.endpoint.trim())) {
+            setMessage('Informe o endereço do servidor, começando com http:// ou https://.');
+            return;
+        }
+        sync.updateSettings({ ...draft, endpoint: draft.endpoint.trim() });
+        setMessage(serverChanged && saved.endpoint ? 'Servidor alterado: todos os itens serão enviados de novo.' : 'Configuração salva.');
+    };
+
+    return (
+        <Modal title="Sincronização" onClose={onClose}>
+            <div className="space-y-4 text-xs">
+                <div className="p-4 bg-slate-50 rounded-xl border border-slate-100 space-y-3">
+                    <p className="text-slate-400">Envia e recebe os itens deste perfil de um servidor próprio. Fotos ficam só neste aparelho.</p>
+                    <label className="flex items-center gap-2 font-bold text-slate-600">
+                        <input type="checkbox" checked={draft.enabled} onChange={e => setDraft({ ...draft, enabled: e.target.checked })} className="accent-cyan-500" />
+                        Sincronizar este perfil
+                    </label>
+                    <input value={draft.endpoint} onChange={e => setDraft({ ...draft, endpoint: e.target.value })} placeholder="https://servidor/api/sync" className="w-full p-2 bg-white rounded-lg border border-slate-200 outline-none focus:ring-2 ring-cyan-400 font-bold text-slate-700" />
+                    <input type="password" value={draft.token} onChange={e => setDraft({ ...draft, token: e.target.value })} placeholder="Token (opcional)" className="w-full p-2 bg-white rounded-lg border border-slate-200 outline-none focus:ring-2 ring-cyan-400 font-bold text-slate-700" />
+                    <label className="flex items-center justify-between font-bold text-slate-600">
+                        Quando o mesmo item mudar nos dois lados
+                        <select value={draft.conflictMode} onChange={e => setDraft({ ...draft, conflictMode: e.target.value as SyncSettings['conflictMode'] })} className="p-1 bg-white rounded border border-slate-200 text-slate-700">
+                            <option value="lastWriteWins">Vale o mais recente</option>
+                            <option value="ask">Perguntar</option>
+                        </select>
+                    </label>
+                    <button disabled={!isDirty} onClick={handleSave} className="w-full py-2 bg-cyan-500 text-white rounded-lg font-bold disabled:opacity-50">Salvar</button>
+                    {message && <p className="font-bold text-slate-500 text-center">{message}</p>}
+                </div>
+
+                {saved.enabled && (
+                    <div className="p-4 bg-slate-50 rounded-xl border border-slate-100 space-y-2">
+                        <div className="flex justify-between"><span className="text-slate-500">Situação</span><span className="font-bold text-slate-700">{status === 'idle' && pending > 0 ? 'Alterações pendentes' : STATUS_LABELS[status]}</span></div>
+                        {error && <p className="font-bold text-red-500">{error}</p>}
+                        <div className="flex justify-between"><span className="text-slate-500">Alterações a enviar</span><span className="font-bold text-slate-700">{pending}</span></div>
+                        <div className="flex justify-between"><span className="text-slate-500">Última sincronização</span><span className="font-bold text-slate-700">{state.lastSyncAt ? new Date(state.lastSyncAt).toLocaleString('pt-BR') : 'Nunca'}</span></div>
+                        <button disabled={status === 'syncing'} onClick={sync.syncNow} className="w-full py-2 bg-slate-700 text-white rounded-lg font-bold disabled:opacity-50">Sincronizar agora</button>
+                    </div>
+                )}
+
+                {conflicts.length > 0 && (
+                    <div className="p-4 bg-red-50 rounded-xl border border-red-100 space-y-2">
+                        <h4 className="font-bold text-red-600">Conflitos</h4>
+                        <p className="text-red-400">Estes itens mudaram aqui e no servidor. Escolha qual versão fica.</p>
+                        {conflicts.map(remote => (
+                            <div key={remote.itemId} className="p-2 bg-white rounded-lg border border-red-100 space-y-1">
+                                <div className="font-bold text-slate-600">{formatDateKey(remote.date)} · {getCategoryName(categories, remote.category)}</div>
+                                <div className="text-slate-500">Aqui: <span className="font-bold text-slate-700">{describeItem(state.outbox[remote.itemId]?.item || null)}</span></div>
+                                <div className="text-slate-500">Servidor: <span className="font-bold text-slate-700">{describeItem(remote.item)}</span></div>
+                                <div className="flex gap-2 pt-1">
+                                    <button onClick={() => sync.resolve(remote.itemId, 'local')} className="flex-1 py-1 bg-cyan-100 text-cyan-700 font-bold rounded-md">Manter o meu</button>
+                                    <button onClick={() => sync.resolve(remote.itemId, 'remote')} className="flex-1 py-1 bg-slate-100 text-slate-600 font-bold rounded-md">Usar do servidor</button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </Modal>
+    );
+};
@@ -1,10 +1,47 @@
+import { CategoryConfig, DefaultCategory, FieldDefinition, ParseRule } from './types';
 
-import { EquipmentCategory } from './types';
+// Vendor labels carry "SN:...;MAC:..." payloads; plain codes fall through to the serial as-is.
+const SERIAL_RULE: ParseRule = { id: 'sn', field: 'serial', pattern: '(?:SN|S/N|SERIAL)\\s*[:=]\\s*([^;|,\\s]+)' };
 
-export const CATEGORIES: EquipmentCategory[] = [
-  EquipmentCategory.BOX,
-  EquipmentCategory.BOX_SOUND,
-  EquipmentCategory.CONTROLE_REMOTO,
-  EquipmentCategory.CAMERA,
-  EquipmentCategory.CHIP,
+export const DEFAULT_CATEGORIES: CategoryConfig[] = [
+  { id: DefaultCategory.BOX, name: 'BOX', parseRules: [SERIAL_RULE] },
+  { id: DefaultCategory.BOX_SOUND, name: 'BOX SOUND', shortLabel: 'SOUND', parseRules: [SERIAL_RULE] },
+  { id: DefaultCategory.CONTROLE_REMOTO, name: 'CONTROLE REMOTO', shortLabel: 'CONTROLE', parseRules: [SERIAL_RULE] },
+  {
+    id: DefaultCategory.CAMERA,
+    name: 'CAMERA',
+    fields: [
+      { id: 'mac', label: 'MAC', type: 'text', maxLength: 17, pattern: '^([0-9A-Fa-f]{2}[:-]?){5}[0-9A-Fa-f]{2}$' },
+    ],
+    parseRules: [
+      SERIAL_RULE,
+      { id: 'mac', field: 'mac', pattern: 'MAC\\s*[:=]\\s*((?:[0-9A-Fa-f]{2}[:-]?){5}[0-9A-Fa-f]{2})' },
+    ],
+  },
+  {
+    id: DefaultCategory.CHIP,
+    name: 'CHIP',
+    fields: [
+      { id: 'iccid', label: 'ICCID', type: 'number', maxLength: 20, pattern: '^89\\d{17,18}$', checksum: 'luhn' },
+      { id: 'phone', label: 'Telefone', type: 'tel', maxLength: 15, pattern: '^\\(?\\d{2}\\)?\\s?9?\\d{4}-?\\d{4}$' },
+    ],
+    parseRules: [
+      SERIAL_RULE,
+      { id: 'iccid', field: 'iccid', pattern: '\\b(89\\d{17,18})\\b' },
+    ],
+  },
+];
+
+// Max characters accepted by the EquipmentRow inputs.
+export const FIELD_LIMITS = {
+  qt: 2,
+  contract: 10,
+  serial: 20,
+};
+
+// QT / Contrato / Serial, present in every category.
+export const BASE_FIELDS: FieldDefinition[] = [
+  { id: 'qt', label: 'QT', type: 'number', maxLength: FIELD_LIMITS.qt },
+  { id: 'contract', label: 'Contrato', type: 'text', maxLength: FIELD_LIMITS.contract },
+  { id: 'serial', label: 'Serial', type: 'text', maxLength: FIELD_LIMITS.serial },
 ];
@@ -0,0 +1,107 @@
+// In-memory server implementing the sync protocol described in utils/sync.ts, for local
+// development: `npm run sync:mock`, then set http://localhost:8787 as the server in
+// Sincronização. Data is kept per token and lost when the process stops.
+//
+// Environment: PORT (default 8787), TOKEN (when set, other tokens get 401),
+// DELAY_MS (answers slowly, to see the syncing state), PAGE_SIZE (default 200).
+//
+// Extra routes for tests: GET /_dump lists the stored items, POST /_reset clears everything.
+
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const TOKEN = process.env.TOKEN || '';
+const DELAY_MS = Number(process.env.DELAY_MS || 0);
+const PAGE_SIZE = Number(process.env.PAGE_SIZE || 200);
+
+// token -> { version, items: Map<itemId, RemoteChange> }
+const spaces = new Map();
+
+const getSpace = token => {
+    if (!spaces.has(token)) spaces.set(token, { version: 0, items: new Map() });
+    return spaces.get(token);
+};
+
+const send = (res, status, body) => {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = req => new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+        try {
+            resolve(raw ? JSON.parse(raw) : {});
+        } catch (e) {
+            reject(e);
+        }
+    });
+    req.on('error', reject);
+});
+
+const isPushChange = value => value && typeof value.itemId === 'string' && typeof value.date === 'string'
+    && typeof value.category === 'string' && typeof value.updatedAt === 'number' && typeof value.baseVersion === 'number'
+    && (value.item === null || (typeof value.item === 'object' && value.item.id === value.itemId));
+
+// Items changed after the cursor, oldest first. Every change gets a new version from one
+// counter, so the version doubles as the cursor.
+const pull = (space, since) => {
+    const changes = [...space.items.values()].filter(change => change.version > since).sort((a, b) => a.version - b.version);
+    const page = changes.slice(0, PAGE_SIZE);
+    const cursor = page.length > 0 ? page[page.length - 1].version : since;
+    return { changes: page, cursor: String(cursor), hasMore: changes.length > page.length };
+};
+
+// A change is accepted only when it was based on the current version of the item.
+const push = (space, changes) => {
+    const applied = [];
+    const conflicts = [];
+    changes.forEach(({ baseVersion, ...change }) => {
+        const current = space.items.get(change.itemId);
+        // An item the server never stored (e.g. after a restart) is simply accepted.
+        if (current && current.version !== baseVersion) {
+            conflicts.push(current);
+            return;
+        }
+        const version = ++space.version;
+        space.items.set(change.itemId, { ...change, version });
+        applied.push({ itemId: change.itemId, version });
+    });
+    return { applied, conflicts };
+};
+
+const handle = async (req, res) => {
+    if (req.method === 'OPTIONS') return send(res, 204);
+    const url = new URL(req.url, `http://localhost:${PORT}`);
+    const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+    if (TOKEN && token !== TOKEN) return send(res, 401, { error: 'invalid token' });
+    const space = getSpace(token);
+
+    if (url.pathname === '/changes' && req.method === 'GET') {
+        return send(res, 200, pull(space, Number(url.searchParams.get('since')) || 0));
+    }
+    if (url.pathname === '/changes' && req.method === 'POST') {
+        const body = await readBody(req);
+        if (!Array.isArray(body.changes) || !body.changes.every(isPushChange)) return send(res, 400, { error: 'invalid changes' });
+        return send(res, 200, push(space, body.changes));
+    }
+    if (url.pathname === '/_dump' && req.method === 'GET') return send(res, 200, { version: space.version, items: [...space.items.values()] });
+    if (url.pathname === '/_reset' && req.method === 'POST') {
+        spaces.clear();
+        return send(res, 204);
+    }
+    return send(res, 404, { error: 'not found' });
+};
+
+const server = http.createServer((req, res) => {
+    setTimeout(() => handle(req, res).catch(e => send(res, 400, { error: e.message })), DELAY_MS);
+});
+
+// PORT=0 picks a free port; the line below tells which (the tests read it).
+server.listen(PORT, () => console.log(`Mock sync server on http://localhost:${server.address().port}${TOKEN ? ' (token required)' : ''}`));
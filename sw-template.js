@@ -0,0 +1,33 @@
+// Service worker template. The build (see serviceWorker() in vite.config.ts) replaces the
+// two placeholders below with the list of built files and a hash of their contents.
+const PRECACHE = __PRECACHE__;
+const CACHE_NAME = 'equipamentos-' + __VERSION__;
+
+self.addEventListener('install', event => {
+  // No skipWaiting here: the new version waits until the user accepts the update prompt.
+  event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(PRECACHE)));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('equipamentos-') && key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+// Cache first for the app shell; navigations always get the cached index.html so the app
+// opens without signal. Anything else (share links, etc.) goes straight to the network.
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+  if (request.mode === 'navigate') {
+    event.respondWith(caches.match('/index.html').then(cached => cached || fetch(request)));
+    return;
+  }
+  event.respondWith(caches.match(request).then(cached => cached || fetch(request)));
+});
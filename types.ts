@@ -4,10 +4,15 @@ export interface EquipmentItem {
   qt: string;
   contract: string;
   serial: string;
-  photos: string[]; // array of base64 encoded images
+  photos: string[]; // IDs of photo blobs in IndexedDB (see utils/photoStore)
+  duplicateAck?: string; // serial the user confirmed as a legitimate repeat
+  extra?: Record<string, string>; // values of the category's custom fields, by FieldDefinition id
+  createdBy?: string; // id of the Profile that filled the row
 }
 
-export enum EquipmentCategory {
+// Categories the app shipped with. Their values are the ids of the default CategoryConfig
+// entries, so DailyData saved before categories became configurable keeps its keys.
+export enum DefaultCategory {
   BOX = "BOX",
   BOX_SOUND = "BOX SOUND",
   CONTROLE_REMOTO = "CONTROLE REMOTO",
@@ -15,10 +20,56 @@ export enum EquipmentCategory {
   CHIP = "CHIP",
 }
 
-export type DailyData = {
-  [key in EquipmentCategory]: EquipmentItem[];
-};
+export type EquipmentCategory = string; // CategoryConfig id
+
+export type FieldType = 'text' | 'number' | 'tel';
+
+export type FieldChecksum = 'luhn';
+
+export interface FieldDefinition {
+  id: string; // 'qt' | 'contract' | 'serial' for the built-in fields, key in EquipmentItem.extra otherwise
+  label: string;
+  type: FieldType;
+  required?: boolean;
+  maxLength?: number;
+  pattern?: string; // regex the whole value must match
+  checksum?: FieldChecksum;
+}
+
+// Pulls a field value out of a scanned code, e.g. "SN:(\w+)" on "SN:123;MAC:..." fills the serial.
+export interface ParseRule {
+  id: string;
+  field: string; // FieldDefinition id
+  pattern: string; // regex; the value is the "value" named group, else group 1, else the whole match
+}
+
+export interface CategoryConfig {
+  id: EquipmentCategory;
+  name: string;
+  shortLabel?: string; // shown in SummaryFooter
+  archived?: boolean; // hidden from entry, data and reports are kept
+  fields?: FieldDefinition[]; // custom fields shown after QT / Contrato / Serial
+  parseRules?: ParseRule[]; // applied to scanned codes; without a match the raw code goes to the serial
+}
+
+export type DailyData = Record<EquipmentCategory, EquipmentItem[]>;
+
+export interface CategorizedItem {
+  category: EquipmentCategory;
+  item: EquipmentItem;
+}
+
+export interface DatedItem extends CategorizedItem {
+  date: string; // "YYYY-MM-DD"
+}
 
 export type AppData = {
   [date: string]: DailyData; // date format "YYYY-MM-DD"
 };
+
+// A technician sharing the device. Each profile has its own AppData and undo history.
+export interface Profile {
+  id: string;
+  name: string;
+  pin?: { salt: string; hash: string }; // SHA-256 of salt + PIN, hex
+}
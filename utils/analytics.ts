@@ -0,0 +1,117 @@
+import { AppData, DatedItem, EquipmentCategory } from '../types';
+import { DateRange, addDays, collectItemsInRange, getMonthRange, getWeekStart, listDatesInRange } from './dateRange';
+import { getFormattedDate } from './appData';
+import { selectDayQuantity, selectListQuantity } from './selectors';
+
+// Figures for the dashboard. Quantities follow SummaryFooter (blank QT counts as 1) and reuse
+// its memoised selectors, so reopening the dashboard after an edit only sums the edited day.
+
+export interface SeriesPoint {
+    start: string; // date key; first day of the week in weekly series
+    end: string;
+    total: number;
+    byCategory: Record<EquipmentCategory, number>;
+}
+
+export interface SeriesStats {
+    total: number;
+    average: number; // per point over the whole range
+    activeAverage: number; // per point with at least one item
+    activePoints: number;
+    best: SeriesPoint | null;
+    worst: SeriesPoint | null; // lowest point with items; empty days are usually days off
+}
+
+export interface MonthComparisonRow {
+    category: EquipmentCategory | null; // null: all categories
+    current: number;
+    previous: number;
+    change: number | null; // fraction, null when the previous month has nothing to compare with
+}
+
+export interface Coverage {
+    items: number;
+    withPhotos: number;
+    withSerial: number;
+}
+
+export const pointValue = (point: SeriesPoint, category: EquipmentCategory | null): number => {
+    return category ? point.byCategory[category] || 0 : point.total;
+};
+
+// One point per date in the range, including days without data.
+export const buildDailySeries = (appData: AppData, range: DateRange): SeriesPoint[] => {
+    return listDatesInRange(range).map(date => {
+        const day = appData[date];
+        const byCategory: Record<EquipmentCategory, number> = {};
+        Object.entries(day || {}).forEach(([category, items]) => {
+            const quantity = selectListQuantity(items);
+            if (quantity > 0) byCategory[category] = quantity;
+        });
+        return { start: date, end: date, total: selectDayQuantity(day), byCategory };
+    });
+};
+
+// Sunday to Saturday weeks; the first and last week are cut to the range.
+export const buildWeeklySeries = (appData: AppData, range: DateRange): SeriesPoint[] => {
+    const weeks: SeriesPoint[] = [];
+    buildDailySeries(appData, range).forEach(day => {
+        const last = weeks[weeks.length - 1];
+        if (!last || getWeekStart(day.start) !== getWeekStart(last.start)) {
+            weeks.push({ ...day, byCategory: { ...day.byCategory } });
+            return;
+        }
+        last.end = day.end;
+        last.total += day.total;
+        Object.entries(day.byCategory).forEach(([category, quantity]) => {
+            last.byCategory[category] = (last.byCategory[category] || 0) + quantity;
+        });
+    });
+    return weeks;
+};
+
+export const summarizeSeries = (series: SeriesPoint[], category: EquipmentCategory | null): SeriesStats => {
+    const values = series.map(point => pointValue(point, category));
+    const total = values.reduce((sum, value) => sum + value, 0);
+    const active = series.filter((_, i) => values[i] > 0);
+    const byValue = [...active].sort((a, b) => pointValue(b, category) - pointValue(a, category));
+    return {
+        total,
+        average: series.length > 0 ? total / series.length : 0,
+        activeAverage: active.length > 0 ? total / active.length : 0,
+        activePoints: active.length,
+        best: byValue[0] || null,
+        worst: byValue.length > 1 ? byValue[byValue.length - 1] : null,
+    };
+};
+
+// Month to date of the reference day against the same days of the previous month, so a
+// month in progress isn't compared with a complete one.
+export const compareMonths = (appData: AppData, reference: Date, categories: EquipmentCategory[]): { current: DateRange; previous: DateRange; rows: MonthComparisonRow[] } => {
+    const key = getFormattedDate(reference);
+    const [year, month, day] = key.split('-').map(Number);
+    const current = { start: getMonthRange(year, month - 1).start, end: key };
+    const previousMonth = getMonthRange(year, month - 2);
+    const previousEnd = addDays(previousMonth.start, day - 1);
+    const previous = { start: previousMonth.start, end: previousEnd < previousMonth.end ? previousEnd : previousMonth.end };
+
+    const currentSeries = buildDailySeries(appData, current);
+    const previousSeries = buildDailySeries(appData, previous);
+    const sum = (series: SeriesPoint[], category: EquipmentCategory | null) => series.reduce((acc, point) => acc + pointValue(point, category), 0);
+    const rows = [null, ...categories].map(category => {
+        const c = sum(currentSeries, category);
+        const p = sum(previousSeries, category);
+        return { category, current: c, previous: p, change: p > 0 ? (c - p) / p : null };
+    });
+    return { current, previous, rows };
+};
+
+// Share of records (items, not quantities) that have photos or a serial.
+export const getCoverage = (appData: AppData, range: DateRange, category: EquipmentCategory | null): Coverage => {
+    const entries: DatedItem[] = collectItemsInRange(appData, range).filter(e => !category || e.category === category);
+    return {
+        items: entries.length,
+        withPhotos: entries.filter(e => e.item.photos.length > 0).length,
+        withSerial: entries.filter(e => e.item.serial.trim() !== '').length,
+    };
+};
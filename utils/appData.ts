@@ -0,0 +1,44 @@
+import { CategoryConfig, DailyData, EquipmentItem } from '../types';
+
+export const getFormattedDate = (date: Date): string => {
+  return date.toISOString().split('T')[0];
+};
+
+export const generateId = () => {
+  return Date.now().toString(36) + Math.random().toString(36).substring(2);
+};
+
+export const createEmptyItem = (): EquipmentItem => ({ id: generateId(), qt: '', contract: '', serial: '', photos: [] });
+
+// One input row per active category.
+export const createEmptyDailyData = (categories: CategoryConfig[]): DailyData => {
+  const data: DailyData = {};
+  categories.filter(c => !c.archived).forEach(category => {
+    data[category.id] = [createEmptyItem()];
+  });
+  return data;
+};
+
+// Gives a day an input row for every active category it doesn't have yet (e.g. a category
+// added after the day was recorded). Returns the same object when nothing is missing.
+export const ensureDayCategories = (data: DailyData, categories: CategoryConfig[]): DailyData => {
+  const missing = categories.filter(c => !c.archived && !(data[c.id] && data[c.id].length > 0));
+  if (missing.length === 0) return data;
+  const result = { ...data };
+  missing.forEach(category => {
+    result[category.id] = [createEmptyItem()];
+  });
+  return result;
+};
+
+export const isItemActive = (item: EquipmentItem): boolean => {
+    return (item.qt && item.qt.trim() !== '') || (item.contract && item.contract.trim() !== '') || (item.serial && item.serial.trim() !== '') || item.photos.length > 0
+        || Object.values(item.extra || {}).some(value => value.trim() !== '');
+};
+
+// Adds items keeping the trailing blank row (the input row) at the end of the list.
+export const insertBeforeInputRow = (items: EquipmentItem[], ...newItems: EquipmentItem[]): EquipmentItem[] => {
+    const last = items[items.length - 1];
+    if (last && !isItemActive(last)) return [...items.slice(0, -1), ...newItems, last];
+    return [...items, ...newItems];
+};
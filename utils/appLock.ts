@@ -0,0 +1,173 @@
+import { STORAGE_KEY, StorageEnvelope } from './storage';
+import { HISTORY_KEY } from './history';
+import { SYNC_STATE_KEY } from './sync';
+import { getProfileKey, loadProfiles } from './profiles';
+import { listPhotoIds, readStoredPhoto, writeStoredPhoto } from './photoStore';
+import {
+    createDataKey, derivePinKey, wrapDataKey, unwrapDataKey, randomBase64, setSession, getSessionKey,
+    isEncryptedText, encryptText, decryptText, isEncryptedBlob, encryptBlob, decryptBlob,
+} from './crypto';
+
+// App lock: a PIN asked before anything is shown, auto-lock after inactivity and, optionally,
+// encryption of the saved data and photos. Settings stay in the clear; they only hold the
+// data key wrapped with a key derived from the PIN.
+//
+// A 4 to 8 digit PIN is a deterrent for a lost phone, not protection against someone who
+// copies the storage and tries every PIN offline; PBKDF2 only makes each try slower.
+
+export const LOCK_KEY = 'appLock';
+
+const PBKDF2_ITERATIONS = 310_000;
+
+export const AUTO_LOCK_OPTIONS = [
+    { minutes: 0, label: 'Nunca' },
+    { minutes: 1, label: '1 minuto' },
+    { minutes: 5, label: '5 minutos' },
+    { minutes: 15, label: '15 minutos' },
+    { minutes: 30, label: '30 minutos' },
+];
+
+export interface AppLockSettings {
+    salt: string;
+    iterations: number;
+    wrappedKey: string;
+    encryptData: boolean;
+    autoLockMinutes: number; // 0: only when the app is reopened
+}
+
+const isLockSettings = (value: any): value is AppLockSettings => {
+    return typeof value === 'object' && value !== null
+        && typeof value.salt === 'string' && typeof value.iterations === 'number' && typeof value.wrappedKey === 'string'
+        && typeof value.encryptData === 'boolean' && typeof value.autoLockMinutes === 'number';
+};
+
+// A corrupt value is not treated as "no lock": encrypted data would become unreadable
+// without anyone noticing. The caller shows an error instead.
+export const loadLockSettings = (): AppLockSettings | null => {
+    const raw = localStorage.getItem(LOCK_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    if (!isLockSettings(parsed)) throw new Error('Configuração de bloqueio inválida');
+    return parsed;
+};
+
+const saveLockSettings = (settings: AppLockSettings | null) => {
+    if (settings) localStorage.setItem(LOCK_KEY, JSON.stringify(settings));
+    else localStorage.removeItem(LOCK_KEY);
+};
+
+const wrapWithPin = async (dataKey: CryptoKey, pin: string): Promise<Pick<AppLockSettings, 'salt' | 'iterations' | 'wrappedKey'>> => {
+    const salt = randomBase64(16);
+    const pinKey = await derivePinKey(pin, salt, PBKDF2_ITERATIONS);
+    return { salt, iterations: PBKDF2_ITERATIONS, wrappedKey: await wrapDataKey(dataKey, pinKey) };
+};
+
+// The data key for a PIN, or null when the PIN is wrong.
+const openDataKey = async (settings: AppLockSettings, pin: string): Promise<CryptoKey | null> => {
+    try {
+        return await unwrapDataKey(settings.wrappedKey, await derivePinKey(pin, settings.salt, settings.iterations));
+    } catch {
+        return null;
+    }
+};
+
+export const unlock = async (settings: AppLockSettings, pin: string): Promise<boolean> => {
+    const key = await openDataKey(settings, pin);
+    if (!key) return false;
+    setSession(key, settings.encryptData);
+    return true;
+};
+
+export const lock = () => setSession(null, false);
+
+export const checkPin = async (settings: AppLockSettings, pin: string): Promise<boolean> => !!(await openDataKey(settings, pin));
+
+export const enableLock = async (pin: string, autoLockMinutes: number): Promise<AppLockSettings> => {
+    const key = await createDataKey();
+    const settings: AppLockSettings = { ...(await wrapWithPin(key, pin)), encryptData: false, autoLockMinutes };
+    saveLockSettings(settings);
+    setSession(key, false);
+    return settings;
+};
+
+// Only the wrapped key changes, so the data never exists under two keys.
+export const changePin = async (settings: AppLockSettings, newPin: string): Promise<AppLockSettings> => {
+    const key = getSessionKey();
+    if (!key) throw new Error('Aplicativo bloqueado');
+    const next = { ...settings, ...(await wrapWithPin(key, newPin)) };
+    saveLockSettings(next);
+    return next;
+};
+
+export const updateAutoLock = (settings: AppLockSettings, autoLockMinutes: number): AppLockSettings => {
+    const next = { ...settings, autoLockMinutes };
+    saveLockSettings(next);
+    return next;
+};
+
+// --- CONVERSION ---
+
+const convertText = async (value: string, key: CryptoKey, encrypt: boolean): Promise<string> => {
+    if (isEncryptedText(value) === encrypt) return value;
+    return encrypt ? encryptText(value, key) : decryptText(value, key);
+};
+
+// Rewrites one localStorage value unless the app saved a newer one meanwhile; that one is
+// already in the new format, since the session switches before the conversion starts.
+const convertStoredValue = async (storageKey: string, convert: (raw: string) => Promise<string>) => {
+    const raw = localStorage.getItem(storageKey);
+    if (raw === null) return;
+    const converted = await convert(raw);
+    if (converted !== raw && localStorage.getItem(storageKey) === raw) localStorage.setItem(storageKey, converted);
+};
+
+const convertEnvelope = async (raw: string, key: CryptoKey, encrypt: boolean): Promise<string> => {
+    const parsed = JSON.parse(raw);
+    const isEnvelope = typeof parsed === 'object' && parsed !== null && typeof parsed.version === 'number';
+    // Data saved before the envelope existed is migrated on load; leave it to that.
+    if (!isEnvelope) return raw;
+    const envelope: StorageEnvelope = parsed;
+    if (isEncryptedText(envelope.data) === encrypt) return raw;
+    const data = encrypt ? await encryptText(JSON.stringify(envelope.data), key) : JSON.parse(await decryptText(envelope.data as string, key));
+    return JSON.stringify({ ...envelope, data });
+};
+
+// Encrypts or decrypts every profile's data, history and sync state and every photo. The settings flag
+// changes last, and readers accept both formats, so stopping halfway loses nothing.
+export const setDataEncryption = async (settings: AppLockSettings, encrypt: boolean, onProgress?: (done: number, total: number) => void): Promise<AppLockSettings> => {
+    const key = getSessionKey();
+    if (!key) throw new Error('Aplicativo bloqueado');
+    setSession(key, encrypt);
+
+    const profiles = loadProfiles();
+    const photoIds = await listPhotoIds();
+    const total = profiles.length + photoIds.length;
+    let done = 0;
+
+    for (const profile of profiles) {
+        await convertStoredValue(getProfileKey(STORAGE_KEY, profile.id), raw => convertEnvelope(raw, key, encrypt));
+        await convertStoredValue(getProfileKey(HISTORY_KEY, profile.id), raw => convertText(raw, key, encrypt));
+        await convertStoredValue(getProfileKey(SYNC_STATE_KEY, profile.id), raw => convertText(raw, key, encrypt));
+        onProgress?.(++done, total);
+    }
+
+    for (const id of photoIds) {
+        const stored = await readStoredPhoto(id);
+        if (stored && isEncryptedBlob(stored) !== encrypt) {
+            await writeStoredPhoto(id, isEncryptedBlob(stored) ? await decryptBlob(stored, key) : await encryptBlob(stored, key));
+        }
+        onProgress?.(++done, total);
+    }
+
+    const next = { ...settings, encryptData: encrypt };
+    saveLockSettings(next);
+    return next;
+};
+
+// Decrypts everything first, then forgets the key. Runs even with encryption off, in case an
+// earlier conversion was interrupted and left some values encrypted.
+export const disableLock = async (settings: AppLockSettings, onProgress?: (done: number, total: number) => void): Promise<void> => {
+    await setDataEncryption(settings, false, onProgress);
+    saveLockSettings(null);
+    setSession(null, false);
+};
@@ -0,0 +1,66 @@
+import { bench, describe } from 'vitest';
+import { AppData, EquipmentItem } from '../types';
+import { dataReducer } from './appReducer';
+import { buildSerialIndex } from './serialIndex';
+import { selectDayQuantity, selectListQuantity, selectMonthQuantity } from './selectors';
+import { sumMonthQuantity } from './totals';
+
+// A year of synthetic data: 365 days, 5 categories, 20 items per list. Run with `npm run bench`.
+
+const CATEGORIES = ['BOX', 'BOX SOUND', 'CONTROLE REMOTO', 'CAMERA', 'CHIP'];
+const ITEMS_PER_LIST = 20;
+
+const buildYear = (): AppData => {
+    const data: AppData = {};
+    const start = Date.UTC(2026, 0, 1);
+    for (let day = 0; day < 365; day++) {
+        const date = new Date(start + day * 86_400_000).toISOString().substring(0, 10);
+        data[date] = {};
+        CATEGORIES.forEach(category => {
+            const items: EquipmentItem[] = [];
+            for (let i = 0; i < ITEMS_PER_LIST; i++) {
+                items.push({ id: `${date}-${category}-${i}`, qt: i % 4 === 0 ? '2' : '', contract: `C${day}${i}`, serial: `S${day}-${i}`, photos: [] });
+            }
+            data[date][category] = items;
+        });
+    }
+    return data;
+};
+
+const year = buildYear();
+const date = '2026-06-15';
+let state = year;
+let counter = 0;
+
+// What SummaryFooter reads after every edit.
+const readFooter = (data: AppData) => {
+    const day = data[date];
+    selectDayQuantity(day);
+    CATEGORIES.forEach(category => selectListQuantity(day[category]));
+    selectMonthQuantity(data, date);
+};
+
+describe('a year of data', () => {
+    bench('UPDATE_ITEM', () => {
+        const item = state[date].BOX[3];
+        state = dataReducer(state, { type: 'UPDATE_ITEM', payload: { date, category: 'BOX', item: { ...item, serial: `S${counter++}` } } });
+    });
+
+    bench('UPDATE_ITEM + SummaryFooter selectors', () => {
+        const item = state[date].BOX[3];
+        state = dataReducer(state, { type: 'UPDATE_ITEM', payload: { date, category: 'BOX', item: { ...item, qt: String(counter++ % 9 + 1) } } });
+        readFooter(state);
+    });
+
+    // What App rebuilds for the duplicate warnings after every edit.
+    bench('UPDATE_ITEM + serial index', () => {
+        const item = state[date].BOX[3];
+        state = dataReducer(state, { type: 'UPDATE_ITEM', payload: { date, category: 'BOX', item: { ...item, serial: `S${counter++}` } } });
+        buildSerialIndex(state);
+    });
+
+    // The baseline the selectors avoid: summing the whole month again.
+    bench('month total without cache', () => {
+        sumMonthQuantity(state, date);
+    });
+});
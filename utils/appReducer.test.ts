@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import { AppData, CategoryConfig, EquipmentItem } from '../types';
+import { dataReducer } from './appReducer';
+import { selectDayQuantity, selectListQuantity, selectMonthQuantity } from './selectors';
+
+const item = (id: string, serial = `S-${id}`, qt = ''): EquipmentItem => ({ id, qt, contract: 'C1', serial, photos: [] });
+const blank = (id: string): EquipmentItem => ({ id, qt: '', contract: '', serial: '', photos: [] });
+
+const categories: CategoryConfig[] = [{ id: 'BOX', name: 'BOX' }, { id: 'CHIP', name: 'CHIP' }];
+
+const makeData = (): AppData => ({
+    '2026-01-01': { BOX: [item('a1'), blank('a-in')], CHIP: [item('a2'), blank('a-in2')] },
+    '2026-01-02': { BOX: [item('b1'), item('b2'), blank('b-in')], CHIP: [blank('b-in2')] },
+    '2026-01-03': { BOX: [item('c1')], CHIP: [item('c2')] },
+});
+
+// Only `date`/`category` may get new identities; everything else keeps its reference.
+const expectOnlyChanged = (before: AppData, after: AppData, date: string, categoriesChanged: string[]) => {
+    expect(after).not.toBe(before);
+    expect(after[date]).not.toBe(before[date]);
+    Object.keys(before).filter(d => d !== date).forEach(d => expect(after[d]).toBe(before[d]));
+    Object.keys(before[date] || {}).forEach(category => {
+        if (categoriesChanged.includes(category)) expect(after[date][category]).not.toBe(before[date][category]);
+        else expect(after[date][category]).toBe(before[date][category]);
+    });
+};
+
+describe('dataReducer', () => {
+    it('SET_DATA replaces the state', () => {
+        const payload = makeData();
+        expect(dataReducer({}, { type: 'SET_DATA', payload })).toBe(payload);
+    });
+
+    it('CLEAR_ALL_DATA empties the state', () => {
+        expect(dataReducer(makeData(), { type: 'CLEAR_ALL_DATA' })).toEqual({});
+    });
+
+    it('ENSURE_DAY_DATA creates a missing day and leaves the others alone', () => {
+        const state = makeData();
+        const next = dataReducer(state, { type: 'ENSURE_DAY_DATA', payload: { date: '2026-01-04', categories } });
+        expect(Object.keys(next['2026-01-04']).sort()).toEqual(['BOX', 'CHIP']);
+        Object.keys(state).forEach(d => expect(next[d]).toBe(state[d]));
+    });
+
+    it('ENSURE_DAY_DATA returns the same state when the day is complete', () => {
+        const state = makeData();
+        expect(dataReducer(state, { type: 'ENSURE_DAY_DATA', payload: { date: '2026-01-01', categories } })).toBe(state);
+    });
+
+    it('ADD_ITEM appends a blank row to one list', () => {
+        const state = makeData();
+        const next = dataReducer(state, { type: 'ADD_ITEM', payload: { date: '2026-01-02', category: 'CHIP' } });
+        expect(next['2026-01-02'].CHIP).toHaveLength(2);
+        expectOnlyChanged(state, next, '2026-01-02', ['CHIP']);
+    });
+
+    it('UPDATE_ITEM replaces only the edited item', () => {
+        const state = makeData();
+        const edited = { ...state['2026-01-02'].BOX[1], serial: 'NEW' };
+        const next = dataReducer(state, { type: 'UPDATE_ITEM', payload: { date: '2026-01-02', category: 'BOX', item: edited } });
+        expect(next['2026-01-02'].BOX[1]).toBe(edited);
+        expect(next['2026-01-02'].BOX[0]).toBe(state['2026-01-02'].BOX[0]);
+        expectOnlyChanged(state, next, '2026-01-02', ['BOX']);
+    });
+
+    it('UPDATE_ITEM with an unchanged item returns the same state', () => {
+        const state = makeData();
+        const same = state['2026-01-02'].BOX[0];
+        expect(dataReducer(state, { type: 'UPDATE_ITEM', payload: { date: '2026-01-02', category: 'BOX', item: same } })).toBe(state);
+    });
+
+    it('UPDATE_ITEM on a missing list returns the same state', () => {
+        const state = makeData();
+        expect(dataReducer(state, { type: 'UPDATE_ITEM', payload: { date: '2030-01-01', category: 'BOX', item: item('x') } })).toBe(state);
+    });
+
+    it('DELETE_ITEMS removes the selection from each list and keeps an input row', () => {
+        const state = makeData();
+        const next = dataReducer(state, { type: 'DELETE_ITEMS', payload: { date: '2026-01-03', selection: { BOX: ['c1'] } } });
+        expect(next['2026-01-03'].BOX).toHaveLength(1);
+        expect(next['2026-01-03'].BOX[0].id).not.toBe('c1');
+        expectOnlyChanged(state, next, '2026-01-03', ['BOX']);
+    });
+
+    it('DELETE_ITEMS without matching ids returns the same state', () => {
+        const state = makeData();
+        expect(dataReducer(state, { type: 'DELETE_ITEMS', payload: { date: '2026-01-03', selection: { BOX: ['nope'] } } })).toBe(state);
+    });
+
+    it('ADD_ITEMS inserts before the input row of each category', () => {
+        const state = makeData();
+        const next = dataReducer(state, { type: 'ADD_ITEMS', payload: { date: '2026-01-01', entries: [{ category: 'BOX', item: item('n1') }] } });
+        expect(next['2026-01-01'].BOX.map(i => i.id)).toEqual(['a1', 'n1', 'a-in']);
+        expectOnlyChanged(state, next, '2026-01-01', ['BOX']);
+    });
+
+    it('ADD_ITEMS with no entries returns the same state', () => {
+        const state = makeData();
+        expect(dataReducer(state, { type: 'ADD_ITEMS', payload: { date: '2026-01-01', entries: [] } })).toBe(state);
+    });
+
+    it('UPDATE_ITEMS replaces items across categories of one day', () => {
+        const state = makeData();
+        const entries = [{ category: 'BOX', item: { ...state['2026-01-03'].BOX[0], qt: '2' } }];
+        const next = dataReducer(state, { type: 'UPDATE_ITEMS', payload: { date: '2026-01-03', entries } });
+        expect(next['2026-01-03'].BOX[0].qt).toBe('2');
+        expectOnlyChanged(state, next, '2026-01-03', ['BOX']);
+    });
+
+    it('PATCH_ITEMS sets only the given fields on the current item', () => {
+        const state = makeData();
+        const edited = dataReducer(state, { type: 'UPDATE_ITEM', payload: { date: '2026-01-02', category: 'BOX', item: { ...state['2026-01-02'].BOX[1], contract: 'EDITED' } } });
+        const patches = [{ category: 'BOX', itemId: 'b2', changes: { serial: 'SCANNED' } }, { category: 'BOX', itemId: 'missing', changes: { serial: 'X' } }];
+        const next = dataReducer(edited, { type: 'PATCH_ITEMS', payload: { date: '2026-01-02', patches } });
+        expect(next['2026-01-02'].BOX[1]).toMatchObject({ contract: 'EDITED', serial: 'SCANNED' });
+        expect(next['2026-01-02'].BOX[0]).toBe(state['2026-01-02'].BOX[0]);
+        expectOnlyChanged(edited, next, '2026-01-02', ['BOX']);
+    });
+
+    it('PATCH_ITEMS without changes returns the same state', () => {
+        const state = makeData();
+        const patches = [{ category: 'BOX', itemId: 'b2', changes: { serial: 'S-b2' } }];
+        expect(dataReducer(state, { type: 'PATCH_ITEMS', payload: { date: '2026-01-02', patches } })).toBe(state);
+    });
+
+    it('APPLY_REMOTE moves an item and touches only the lists involved', () => {
+        const state = makeData();
+        const moved = { ...state['2026-01-01'].BOX[0], serial: 'MOVED' };
+        const next = dataReducer(state, { type: 'APPLY_REMOTE', payload: { upserts: [{ date: '2026-01-02', category: 'CHIP', item: moved }], removed: [] } });
+        expect(next['2026-01-01'].BOX.some(i => i.id === 'a1')).toBe(false);
+        expect(next['2026-01-02'].CHIP.map(i => i.id)).toEqual(['a1', 'b-in2']);
+        expect(next['2026-01-03']).toBe(state['2026-01-03']);
+        expect(next['2026-01-01'].CHIP).toBe(state['2026-01-01'].CHIP);
+        expect(next['2026-01-02'].BOX).toBe(state['2026-01-02'].BOX);
+    });
+
+    it('APPLY_REMOTE removes deleted items', () => {
+        const state = makeData();
+        const next = dataReducer(state, { type: 'APPLY_REMOTE', payload: { upserts: [], removed: ['b1'] } });
+        expect(next['2026-01-02'].BOX.map(i => i.id)).toEqual(['b2', 'b-in']);
+        expectOnlyChanged(state, next, '2026-01-02', ['BOX']);
+    });
+});
+
+describe('selectors', () => {
+    it('sum the footer totals', () => {
+        const state = makeData();
+        expect(selectListQuantity(state['2026-01-02'].BOX)).toBe(2);
+        expect(selectDayQuantity(state['2026-01-01'])).toBe(2);
+        expect(selectMonthQuantity(state, '2026-01-15')).toBe(6);
+    });
+
+    it('follow an edit through the reducer', () => {
+        const state = makeData();
+        expect(selectMonthQuantity(state, '2026-01-15')).toBe(6);
+        const edited = { ...state['2026-01-03'].BOX[0], qt: '5' };
+        const next = dataReducer(state, { type: 'UPDATE_ITEM', payload: { date: '2026-01-03', category: 'BOX', item: edited } });
+        expect(selectDayQuantity(next['2026-01-03'])).toBe(6);
+        expect(selectMonthQuantity(next, '2026-01-15')).toBe(10);
+    });
+});
@@ -0,0 +1,136 @@
+import { AppData, CategorizedItem, CategoryConfig, DailyData, DatedItem, EquipmentCategory, EquipmentItem } from '../types';
+import { createEmptyItem, ensureDayCategories, insertBeforeInputRow } from './appData';
+
+// Data reducer with structural sharing: an action copies only the day and category lists it
+// touches; every other day, list and item keeps its identity. That keeps typing cheap with a
+// lot of history, and lets memoised selectors (utils/selectors.ts) skip unchanged days.
+
+// Fields to set on an item found by id in the current state, e.g. a serial read from a photo
+// while the row may still be edited elsewhere.
+export interface ItemPatch {
+    category: EquipmentCategory;
+    itemId: string;
+    changes: Partial<Omit<EquipmentItem, 'id'>>;
+}
+
+export type Action =
+  | { type: 'SET_DATA'; payload: AppData }
+  | { type: 'ENSURE_DAY_DATA'; payload: { date: string; categories: CategoryConfig[] } }
+  | { type: 'ADD_ITEM'; payload: { date: string; category: EquipmentCategory } }
+  | { type: 'UPDATE_ITEM'; payload: { date: string; category: EquipmentCategory; item: EquipmentItem } }
+  | { type: 'DELETE_ITEMS'; payload: { date: string; selection: Record<EquipmentCategory, string[]> } }
+  | { type: 'ADD_ITEMS'; payload: { date: string; entries: CategorizedItem[] } }
+  | { type: 'UPDATE_ITEMS'; payload: { date: string; entries: CategorizedItem[] } }
+  | { type: 'PATCH_ITEMS'; payload: { date: string; patches: ItemPatch[] } }
+  | { type: 'APPLY_REMOTE'; payload: { upserts: DatedItem[]; removed: string[] } }
+  | { type: 'CLEAR_ALL_DATA' };
+
+const withDay = (state: AppData, date: string, day: DailyData): AppData => day === state[date] ? state : { ...state, [date]: day };
+
+const replaceItems = (items: EquipmentItem[], updates: EquipmentItem[]): EquipmentItem[] => {
+    let changed = false;
+    const result = items.map(item => {
+        const update = updates.find(u => u.id === item.id);
+        if (!update || update === item) return item;
+        changed = true;
+        return update;
+    });
+    return changed ? result : items;
+};
+
+// Changes pulled by the sync (utils/sync). Items are matched by id wherever they are, so an
+// item moved to another day or category on another device moves here too. Photos are not
+// synced: an item keeps the photos it has on this device, and a new one arrives without any.
+const applyRemote = (state: AppData, remoteItems: DatedItem[], removed: string[]): AppData => {
+    const local = new Map<string, EquipmentItem>();
+    Object.values(state).forEach(day => Object.values(day).forEach(items => items.forEach(item => local.set(item.id, item))));
+    const upserts = remoteItems.map(u => ({ ...u, item: { ...u.item, photos: local.get(u.item.id)?.photos || [] } }));
+    const ids = new Set([...removed, ...upserts.map(u => u.item.id)]);
+    const placed = new Set<string>();
+    let next = state;
+    Object.entries(state).forEach(([date, day]) => Object.entries(day).forEach(([category, items]) => {
+        if (!items.some(item => ids.has(item.id))) return;
+        const here = upserts.filter(u => u.date === date && u.category === category);
+        here.forEach(u => placed.add(u.item.id));
+        const kept = replaceItems(items, here.map(u => u.item)).filter(item => !ids.has(item.id) || here.some(u => u.item.id === item.id));
+        next = withDay(next, date, { ...next[date], [category]: kept.length > 0 ? kept : [createEmptyItem()] });
+    }));
+    upserts.filter(u => !placed.has(u.item.id)).forEach(({ date, category, item }) => {
+        const day = next[date] || {};
+        next = withDay(next, date, { ...day, [category]: insertBeforeInputRow(day[category] || [createEmptyItem()], item) });
+    });
+    return next;
+};
+
+export const dataReducer = (state: AppData, action: Action): AppData => {
+    switch (action.type) {
+        case 'SET_DATA': return action.payload;
+        case 'ENSURE_DAY_DATA': {
+            const { date, categories } = action.payload;
+            return withDay(state, date, ensureDayCategories(state[date] || {}, categories));
+        }
+        case 'ADD_ITEM': {
+            const { date, category } = action.payload;
+            const day = state[date] || {};
+            return withDay(state, date, { ...day, [category]: [...(day[category] || []), createEmptyItem()] });
+        }
+        case 'UPDATE_ITEM': {
+            const { date, category, item } = action.payload;
+            const items = state[date]?.[category];
+            if (!items) return state;
+            const next = items.some(i => i.id === item.id) ? replaceItems(items, [item]) : [...items, item];
+            return next === items ? state : withDay(state, date, { ...state[date], [category]: next });
+        }
+        case 'DELETE_ITEMS': {
+            const { date, selection } = action.payload;
+            const day = state[date];
+            if (!day) return state;
+            let nextDay = day;
+            Object.entries(selection).forEach(([category, itemIds]) => {
+                const items = day[category];
+                if (!items || !items.some(i => itemIds.includes(i.id))) return;
+                const remaining = items.filter(item => !itemIds.includes(item.id));
+                nextDay = { ...nextDay, [category]: remaining.length > 0 ? remaining : [createEmptyItem()] };
+            });
+            return withDay(state, date, nextDay);
+        }
+        case 'ADD_ITEMS': {
+            const { date, entries } = action.payload;
+            if (entries.length === 0) return state;
+            const day = { ...state[date] };
+            entries.forEach(({ category, item }) => {
+                day[category] = insertBeforeInputRow(day[category] || [createEmptyItem()], item);
+            });
+            return withDay(state, date, day);
+        }
+        case 'UPDATE_ITEMS': {
+            const { date, entries } = action.payload;
+            const day = state[date];
+            if (!day) return state;
+            let nextDay = day;
+            Array.from(new Set(entries.map(e => e.category))).forEach(category => {
+                const items = day[category];
+                if (!items) return;
+                const next = replaceItems(items, entries.filter(e => e.category === category).map(e => e.item));
+                if (next !== items) nextDay = { ...nextDay, [category]: next };
+            });
+            return withDay(state, date, nextDay);
+        }
+        case 'PATCH_ITEMS': {
+            const { date, patches } = action.payload;
+            const day = state[date];
+            if (!day) return state;
+            let nextDay = day;
+            patches.forEach(({ category, itemId, changes }) => {
+                const items = nextDay[category];
+                const current = items?.find(i => i.id === itemId);
+                if (!current || Object.entries(changes).every(([key, value]) => current[key as keyof EquipmentItem] === value)) return;
+                nextDay = { ...nextDay, [category]: replaceItems(items, [{ ...current, ...changes }]) };
+            });
+            return withDay(state, date, nextDay);
+        }
+        case 'APPLY_REMOTE': return applyRemote(state, action.payload.upserts, action.payload.removed);
+        case 'CLEAR_ALL_DATA': return {};
+        default: return state;
+    }
+};
@@ -0,0 +1,165 @@
+import { AppData, CategoryConfig, DailyData, EquipmentCategory, EquipmentItem } from '../types';
+import { createEmptyItem, insertBeforeInputRow, isItemActive } from './appData';
+import { collectPhotoIds, getPhoto, blobToDataUrl, dataUrlToBlob, putPhoto } from './photoStore';
+import { CURRENT_VERSION, runMigrations, validateAppData } from './storage';
+import { parseCategories } from './categories';
+
+// A backup is a single JSON file holding the whole AppData plus every referenced photo
+// as a data URL, keyed by its blob store ID, and the category list the data is keyed by.
+
+export const BACKUP_FORMAT = 'controle-equipamentos-backup';
+
+export interface BackupFile {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    exportedAt: string;
+    data: AppData;
+    photos: Record<string, string>;
+    categories?: CategoryConfig[];
+}
+
+export interface ParsedBackup {
+    data: AppData;
+    photos: Record<string, string>;
+    categories: CategoryConfig[] | null; // null for backups made before categories were configurable
+    exportedAt: string;
+}
+
+export interface MergeConflict {
+    key: string;
+    date: string;
+    localCategory: EquipmentCategory;
+    local: EquipmentItem;
+    incomingCategory: EquipmentCategory;
+    incoming: EquipmentItem;
+}
+
+export type ConflictResolution = 'local' | 'incoming';
+
+export const createBackup = async (data: AppData, categories: CategoryConfig[]): Promise<Blob> => {
+    const photos: Record<string, string> = {};
+    for (const id of collectPhotoIds(data)) {
+        const blob = await getPhoto(id);
+        if (blob) photos[id] = await blobToDataUrl(blob);
+    }
+    const backup: BackupFile = {
+        format: BACKUP_FORMAT,
+        version: CURRENT_VERSION,
+        exportedAt: new Date().toISOString(),
+        data,
+        photos,
+        categories,
+    };
+    return new Blob([JSON.stringify(backup)], { type: 'application/json' });
+};
+
+export const parseBackup = async (text: string): Promise<ParsedBackup> => {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('Arquivo não é um JSON válido.');
+    }
+    if (!parsed || parsed.format !== BACKUP_FORMAT) throw new Error('Arquivo não é um backup do Controle de Equipamentos.');
+    if (typeof parsed.version !== 'number' || parsed.version > CURRENT_VERSION) throw new Error('Backup criado por uma versão mais nova do app.');
+
+    const photos: Record<string, string> = {};
+    if (parsed.photos && typeof parsed.photos === 'object') {
+        Object.entries(parsed.photos).forEach(([id, url]) => {
+            if (typeof url === 'string' && url.startsWith('data:')) photos[id] = url;
+        });
+    }
+
+    const data = await runMigrations(parsed.data, parsed.version);
+    const errors = validateAppData(data);
+    if (errors.length > 0) throw new Error(`Backup inválido: ${errors.slice(0, 3).join('; ')}`);
+
+    return { data, photos, categories: parseCategories(parsed.categories), exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '' };
+};
+
+// Photos go in before the data that references them, keeping their original IDs.
+export const restorePhotos = async (photos: Record<string, string>): Promise<void> => {
+    for (const [id, url] of Object.entries(photos)) {
+        await putPhoto(id, await dataUrlToBlob(url));
+    }
+};
+
+const sameItem = (a: EquipmentItem, b: EquipmentItem): boolean => {
+    return a.qt === b.qt && a.contract === b.contract && a.serial === b.serial
+        && a.photos.length === b.photos.length && a.photos.every((p, i) => p === b.photos[i])
+        && JSON.stringify(a.extra || {}) === JSON.stringify(b.extra || {});
+};
+
+const findItem = (dailyData: DailyData, id: string): { category: EquipmentCategory; item: EquipmentItem } | null => {
+    for (const category of Object.keys(dailyData)) {
+        const item = dailyData[category].find(i => i.id === id);
+        if (item) return { category, item };
+    }
+    return null;
+};
+
+// Items are matched by date and ID; a conflict is the same item with different content on both sides.
+export const findConflicts = (local: AppData, incoming: AppData): MergeConflict[] => {
+    const conflicts: MergeConflict[] = [];
+    Object.entries(incoming).forEach(([date, incomingDaily]) => {
+        const localDaily = local[date];
+        if (!localDaily) return;
+        Object.entries(incomingDaily).forEach(([incomingCategory, incomingItems]) => {
+            incomingItems.filter(isItemActive).forEach(incomingItem => {
+                const match = findItem(localDaily, incomingItem.id);
+                if (!match) return;
+                if (match.category === incomingCategory && sameItem(match.item, incomingItem)) return;
+                conflicts.push({
+                    key: `${date}:${incomingItem.id}`,
+                    date,
+                    localCategory: match.category,
+                    local: match.item,
+                    incomingCategory,
+                    incoming: incomingItem,
+                });
+            });
+        });
+    });
+    return conflicts;
+};
+
+export const mergeAppData = (local: AppData, incoming: AppData, resolutions: Record<string, ConflictResolution>): AppData => {
+    const result: AppData = { ...local };
+
+    Object.entries(incoming).forEach(([date, incomingDaily]) => {
+        if (!result[date]) {
+            result[date] = incomingDaily;
+            return;
+        }
+        const merged: DailyData = { ...result[date] };
+
+        Object.entries(incomingDaily).forEach(([incomingCategory, incomingItems]) => {
+            incomingItems.filter(isItemActive).forEach(incomingItem => {
+                const match = findItem(merged, incomingItem.id);
+                if (!match) {
+                    merged[incomingCategory] = insertBeforeInputRow(merged[incomingCategory] || [], incomingItem);
+                    return;
+                }
+                if (resolutions[`${date}:${incomingItem.id}`] !== 'incoming') return;
+
+                if (match.category === incomingCategory) {
+                    merged[incomingCategory] = merged[incomingCategory].map(i => i.id === incomingItem.id ? incomingItem : i);
+                } else {
+                    const remaining = merged[match.category].filter(i => i.id !== incomingItem.id);
+                    merged[match.category] = remaining.length > 0 ? remaining : [createEmptyItem()];
+                    merged[incomingCategory] = insertBeforeInputRow(merged[incomingCategory] || [], incomingItem);
+                }
+            });
+        });
+
+        result[date] = merged;
+    });
+
+    return result;
+};
+
+export const countActiveItems = (data: AppData): number => {
+    return Object.values(data).reduce((sum, dailyData) => {
+        return sum + Object.values(dailyData).flat().filter(isItemActive).length;
+    }, 0);
+};
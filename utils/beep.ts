@@ -0,0 +1,19 @@
+// Short scan confirmation tone, synthesized so it also works offline.
+let context: AudioContext | null = null;
+
+export const playBeep = () => {
+    try {
+        context = context || new AudioContext();
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        oscillator.type = 'square';
+        oscillator.frequency.value = 1800;
+        gain.gain.setValueAtTime(0.1, context.currentTime);
+        gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + 0.12);
+        oscillator.connect(gain).connect(context.destination);
+        oscillator.start();
+        oscillator.stop(context.currentTime + 0.12);
+    } catch (e) {
+        console.error(e);
+    }
+};
@@ -0,0 +1,93 @@
+import { CategoryConfig, EquipmentCategory, FieldDefinition, ParseRule } from '../types';
+import { DEFAULT_CATEGORIES } from '../constants';
+import { generateId } from './appData';
+
+// Category list managed from SettingsModal. DailyData is keyed by CategoryConfig.id, so a
+// rename only touches the config; archiving hides the section but keeps its items.
+
+export const CATEGORIES_KEY = 'equipmentCategories';
+
+const isFieldDefinition = (value: any): value is FieldDefinition => {
+    return typeof value === 'object' && value !== null
+        && typeof value.id === 'string' && value.id !== ''
+        && typeof value.label === 'string'
+        && ['text', 'number', 'tel'].includes(value.type);
+};
+
+const isParseRule = (value: any): value is ParseRule => {
+    return typeof value === 'object' && value !== null
+        && typeof value.id === 'string' && typeof value.field === 'string' && typeof value.pattern === 'string';
+};
+
+const isCategoryConfig = (value: any): value is CategoryConfig => {
+    return typeof value === 'object' && value !== null
+        && typeof value.id === 'string' && value.id !== ''
+        && typeof value.name === 'string'
+        && (value.shortLabel === undefined || typeof value.shortLabel === 'string')
+        && (value.archived === undefined || typeof value.archived === 'boolean')
+        && (value.fields === undefined || (Array.isArray(value.fields) && value.fields.every(isFieldDefinition)))
+        && (value.parseRules === undefined || (Array.isArray(value.parseRules) && value.parseRules.every(isParseRule)));
+};
+
+// Lists saved before custom fields / parse rules existed get the defaults of the built-in categories.
+const withDefaults = (categories: CategoryConfig[]): CategoryConfig[] => categories.map(c => {
+    const defaults = DEFAULT_CATEGORIES.find(d => d.id === c.id);
+    if (!defaults) return c;
+    return {
+        ...c,
+        ...(c.fields === undefined && defaults.fields ? { fields: defaults.fields } : {}),
+        ...(c.parseRules === undefined && defaults.parseRules ? { parseRules: defaults.parseRules } : {}),
+    };
+});
+
+export const parseCategories = (value: unknown): CategoryConfig[] | null => {
+    if (!Array.isArray(value) || !value.every(isCategoryConfig) || !value.some(c => !c.archived)) return null;
+    const ids = new Set(value.map(c => c.id));
+    return ids.size === value.length ? value : null;
+};
+
+export const loadCategories = (): CategoryConfig[] => {
+    try {
+        const saved = localStorage.getItem(CATEGORIES_KEY);
+        const parsed = saved ? parseCategories(JSON.parse(saved)) : null;
+        if (parsed) return withDefaults(parsed);
+    } catch (e) {
+        console.error(e);
+    }
+    return DEFAULT_CATEGORIES;
+};
+
+export const saveCategories = (categories: CategoryConfig[]) => {
+    localStorage.setItem(CATEGORIES_KEY, JSON.stringify(categories));
+};
+
+export const createCategory = (name: string, shortLabel?: string): CategoryConfig => ({
+    id: `cat_${generateId()}`,
+    name: name.trim(),
+    ...(shortLabel && shortLabel.trim() ? { shortLabel: shortLabel.trim() } : {}),
+});
+
+export const getActiveCategories = (categories: CategoryConfig[]): CategoryConfig[] => categories.filter(c => !c.archived);
+
+export const getCategoryName = (categories: CategoryConfig[], id: EquipmentCategory): string => {
+    return categories.find(c => c.id === id)?.name || id;
+};
+
+export const getShortLabel = (category: CategoryConfig): string => category.shortLabel || category.name.substring(0, 8);
+
+// Categories to show for a set of data: the active ones, plus archived or unknown ones
+// (e.g. from another device's backup) that still have items.
+export const resolveCategories = (categories: CategoryConfig[], usedIds: Iterable<EquipmentCategory>): CategoryConfig[] => {
+    const used = new Set(usedIds);
+    const known = categories.filter(c => !c.archived || used.has(c.id));
+    const unknown = Array.from(used)
+        .filter(id => !categories.some(c => c.id === id))
+        .map(id => ({ id, name: id }));
+    return [...known, ...unknown];
+};
+
+// Adds configs the local list doesn't know yet, keeping local names and order.
+export const mergeCategories = (local: CategoryConfig[], incoming: CategoryConfig[]): CategoryConfig[] => {
+    const missing = incoming.filter(c => !local.some(l => l.id === c.id));
+    return missing.length > 0 ? [...local, ...missing] : local;
+};
@@ -0,0 +1,62 @@
+import { AppData, DatedItem, EquipmentCategory } from '../types';
+import { isItemActive } from './appData';
+import { sumQuantity } from './totals';
+
+// Every contract number found in AppData with all of its equipment, across days and
+// categories. Work orders are per contract, so this is the view the technicians close.
+
+export interface ContractSummary {
+    contract: string;
+    entries: DatedItem[]; // date order
+    categories: EquipmentCategory[];
+    dates: string[];
+    firstSeen: string;
+    lastSeen: string;
+    totalQuantity: number;
+    photoCount: number;
+}
+
+export const normalizeContract = (contract: string): string => contract.trim().toUpperCase();
+
+export const buildContractIndex = (appData: AppData): Map<string, DatedItem[]> => {
+    const index = new Map<string, DatedItem[]>();
+    Object.keys(appData).sort().forEach(date => {
+        Object.entries(appData[date]).forEach(([category, items]) => {
+            items.forEach(item => {
+                const key = normalizeContract(item.contract || '');
+                if (!key || !isItemActive(item)) return;
+                const list = index.get(key);
+                if (list) list.push({ date, category, item });
+                else index.set(key, [{ date, category, item }]);
+            });
+        });
+    });
+    return index;
+};
+
+export const summarizeContract = (contract: string, entries: DatedItem[]): ContractSummary => {
+    const dates = Array.from(new Set(entries.map(e => e.date)));
+    return {
+        contract,
+        entries,
+        categories: Array.from(new Set(entries.map(e => e.category))),
+        dates,
+        firstSeen: dates[0],
+        lastSeen: dates[dates.length - 1],
+        totalQuantity: sumQuantity(entries.map(e => e.item)),
+        photoCount: entries.reduce((sum, e) => sum + e.item.photos.length, 0),
+    };
+};
+
+// Most recently worked contracts first.
+export const listContracts = (appData: AppData): ContractSummary[] => {
+    return Array.from(buildContractIndex(appData).entries())
+        .map(([contract, entries]) => summarizeContract(contract, entries))
+        .sort((a, b) => b.lastSeen.localeCompare(a.lastSeen) || a.contract.localeCompare(b.contract));
+};
+
+export const getContract = (appData: AppData, contract: string): ContractSummary | null => {
+    const key = normalizeContract(contract);
+    const entries = buildContractIndex(appData).get(key);
+    return entries ? summarizeContract(key, entries) : null;
+};
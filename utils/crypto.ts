@@ -0,0 +1,119 @@
+// At-rest encryption for the app lock (see utils/appLock). Data is encrypted with a random
+// AES-GCM data key; the PIN only protects that key, so changing the PIN rewraps one small
+// value instead of re-encrypting everything.
+//
+// Readers accept both plain and encrypted values. That keeps a half-finished conversion
+// (app closed while turning encryption on or off) readable; running it again completes it.
+
+const ENCRYPTED_PREFIX = 'enc1:';
+const IV_BYTES = 12;
+
+interface Session {
+    key: CryptoKey | null; // data key, set while the app is unlocked
+    encryptWrites: boolean;
+}
+
+let session: Session = { key: null, encryptWrites: false };
+
+export const setSession = (key: CryptoKey | null, encryptWrites: boolean) => {
+    session = { key, encryptWrites };
+};
+
+export const getSessionKey = (): CryptoKey | null => session.key;
+
+const requireKey = (): CryptoKey => {
+    if (!session.key) throw new Error('Aplicativo bloqueado');
+    return session.key;
+};
+
+// --- ENCODING ---
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+export const randomBase64 = (bytes: number): string => toBase64(crypto.getRandomValues(new Uint8Array(bytes)));
+
+// --- KEYS ---
+
+export const createDataKey = (): Promise<CryptoKey> => {
+    return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+};
+
+export const derivePinKey = async (pin: string, salt: string, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['wrapKey', 'unwrapKey'],
+    );
+};
+
+export const wrapDataKey = async (dataKey: CryptoKey, pinKey: CryptoKey): Promise<string> => {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const wrapped = new Uint8Array(await crypto.subtle.wrapKey('raw', dataKey, pinKey, { name: 'AES-GCM', iv }));
+    return `${toBase64(iv)}.${toBase64(wrapped)}`;
+};
+
+// Rejects when the PIN is wrong: AES-GCM authenticates the wrapped key.
+export const unwrapDataKey = async (wrapped: string, pinKey: CryptoKey): Promise<CryptoKey> => {
+    const [iv, data] = wrapped.split('.');
+    return crypto.subtle.unwrapKey('raw', fromBase64(data), pinKey, { name: 'AES-GCM', iv: fromBase64(iv) }, { name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+};
+
+// --- TEXT ---
+
+export const isEncryptedText = (value: unknown): value is string => typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+
+export const encryptText = async (text: string, key = requireKey()): Promise<string> => {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const data = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text)));
+    return `${ENCRYPTED_PREFIX}${toBase64(iv)}.${toBase64(data)}`;
+};
+
+export const decryptText = async (value: string, key = requireKey()): Promise<string> => {
+    const [iv, data] = value.substring(ENCRYPTED_PREFIX.length).split('.');
+    return new TextDecoder().decode(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(data)));
+};
+
+// Encrypts when the lock has encryption on; otherwise returns the text as is.
+export const sealText = async (text: string): Promise<string> => session.encryptWrites ? encryptText(text) : text;
+
+export const openText = async (value: string): Promise<string> => isEncryptedText(value) ? decryptText(value) : value;
+
+// --- BLOBS ---
+
+// Encrypted photos are stored in place of the Blob, under the same ID.
+export interface EncryptedBlob {
+    encrypted: 1;
+    type: string;
+    iv: Uint8Array;
+    data: ArrayBuffer;
+}
+
+export const isEncryptedBlob = (value: unknown): value is EncryptedBlob => {
+    return typeof value === 'object' && value !== null && (value as EncryptedBlob).encrypted === 1;
+};
+
+export const encryptBlob = async (blob: Blob, key = requireKey()): Promise<EncryptedBlob> => {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, await blob.arrayBuffer());
+    return { encrypted: 1, type: blob.type, iv, data };
+};
+
+export const decryptBlob = async (value: EncryptedBlob, key = requireKey()): Promise<Blob> => {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: value.iv }, key, value.data);
+    return new Blob([data], { type: value.type });
+};
+
+export const sealBlob = async (blob: Blob): Promise<Blob | EncryptedBlob> => session.encryptWrites ? encryptBlob(blob) : blob;
+
+export const openBlob = async (value: Blob | EncryptedBlob | undefined): Promise<Blob | undefined> => {
+    return isEncryptedBlob(value) ? decryptBlob(value) : value;
+};
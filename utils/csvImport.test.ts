@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { CategoryConfig } from '../types';
+import { guessMapping, hasHeaderRow, parseDelimited, validateRows } from './csvImport';
+
+const categories: CategoryConfig[] = [
+    { id: 'BOX', name: 'BOX' },
+    { id: 'CHIP', name: 'CHIP', fields: [{ id: 'iccid', label: 'ICCID', type: 'number', required: true, maxLength: 20 }] },
+    { id: 'TAG', name: 'TAG', fields: [{ id: 'f_code', label: 'Código', type: 'text' }] },
+];
+
+const validate = (text: string, defaultCategory: string | null = null) => {
+    const table = parseDelimited(text);
+    return validateRows(table, guessMapping(table.rows, true, categories), true, defaultCategory, categories);
+};
+
+describe('parseDelimited', () => {
+    it('keeps quoted delimiters, newlines and escaped quotes', () => {
+        const { delimiter, rows } = parseDelimited('a;b\n"x;1";"say ""hi""\nthere"\n');
+        expect(delimiter).toBe(';');
+        expect(rows).toEqual([['a', 'b'], ['x;1', 'say "hi"\nthere']]);
+    });
+
+    it('reports the line each row starts on, counting blank lines and quoted newlines', () => {
+        const { rows, lines } = parseDelimited('serial\r\n\r\n"S\r\n1"\r\nS2\n\n\nS3');
+        expect(rows).toEqual([['serial'], ['S\n1'], ['S2'], ['S3']]);
+        expect(lines).toEqual([1, 3, 5, 8]);
+    });
+});
+
+describe('validateRows', () => {
+    it('points errors at the physical line', () => {
+        const rows = validate('categoria,serial\n\nBOX,"S\n1"\nXYZ,S2\n');
+        expect(rows.map(r => r.line)).toEqual([3, 5]);
+        expect(rows[1].errors).toEqual(['Categoria desconhecida: XYZ']);
+    });
+
+    it('applies the base field limits', () => {
+        const rows = validate('categoria,qt,serial\nBOX,x,S1\nBOX,123,S2\nBOX,2,S3\n');
+        expect(rows.map(r => r.errors)).toEqual([['QT não numérico'], ['QT com mais de 2 caracteres'], []]);
+        expect(rows[2].item).toMatchObject({ qt: '2', serial: 'S3' });
+    });
+
+    it('maps custom field columns by label or id', () => {
+        const table = parseDelimited('Serial;ICCID;f_code\nS1;8955;X\n');
+        expect(hasHeaderRow([['iccid']], categories)).toBe(true);
+        expect(guessMapping(table.rows, true, categories)).toEqual({ category: -1, qt: -1, contract: -1, serial: 0, extra: { iccid: 1, f_code: 2 } });
+    });
+
+    it('imports a mapped required custom field', () => {
+        const rows = validate('categoria,serial,iccid\nCHIP,S1,8955000000000000001\nTAG,S2,8955\n');
+        expect(rows.map(r => r.errors)).toEqual([[], []]);
+        expect(rows[0].item?.extra).toEqual({ iccid: '8955000000000000001' });
+        // Only the fields of the row's category are read.
+        expect(rows[1].item?.extra).toBeUndefined();
+    });
+
+    it('applies the custom field rules of the matched category', () => {
+        const rows = validate('categoria,serial,iccid\nCHIP,S1,\nCHIP,S2,89-55\nTAG,S3,\n');
+        expect(rows[0].errors).toEqual(['ICCID obrigatório']);
+        expect(rows[0].item).toBeNull();
+        expect(rows[1].errors).toEqual(['ICCID não numérico']);
+        expect(rows[2].errors).toEqual([]);
+    });
+
+    it('uses the default category when the column is missing', () => {
+        expect(validate('serial,iccid\nS1,8955\n', 'CHIP')[0].errors).toEqual([]);
+        expect(validate('serial\nS1\n', 'CHIP')[0].errors).toEqual(['ICCID obrigatório']);
+        expect(validate('serial\nS1\n')[0].errors).toEqual(['Categoria ausente']);
+    });
+
+    it('flags rows without values', () => {
+        expect(validate('categoria,serial\nBOX,\n')[0].errors).toEqual(['Linha sem valores']);
+        expect(validate('categoria,serial,iccid\nCHIP,,8955\n')[0].errors).toEqual([]);
+    });
+});
@@ -0,0 +1,203 @@
+import { CategoryConfig, EquipmentCategory, EquipmentItem, FieldDefinition } from '../types';
+import { createEmptyItem, isItemActive } from './appData';
+import { getCategoryFields, getCustomFields, setFieldValue, validateItem } from './fields';
+
+// CSV/TSV import: parse the file, map its columns to item fields, validate every row
+// with the category's field rules, as EquipmentRow does, and hand the valid ones to the reducer.
+
+export type ImportField = 'category' | 'qt' | 'contract' | 'serial';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string }[] = [
+    { field: 'category', label: 'Categoria' },
+    { field: 'qt', label: 'QT' },
+    { field: 'contract', label: 'Contrato' },
+    { field: 'serial', label: 'Serial' },
+];
+
+// Column index per field, -1 when the field isn't in the file. Custom fields are mapped by
+// field id in `extra`; each row only reads the ones its category defines.
+export type ColumnMapping = Record<ImportField, number> & { extra: Record<string, number> };
+
+export const createEmptyMapping = (): ColumnMapping => ({ category: -1, qt: -1, contract: -1, serial: -1, extra: {} });
+
+// The custom fields of every category, once per id, for the column mapping.
+export const getImportCustomFields = (categories: CategoryConfig[]): FieldDefinition[] => {
+    const fields = new Map<string, FieldDefinition>();
+    categories.forEach(category => getCustomFields(category).forEach(field => {
+        if (!fields.has(field.id)) fields.set(field.id, field);
+    }));
+    return Array.from(fields.values());
+};
+
+export interface ParsedTable {
+    delimiter: string;
+    rows: string[][];
+    lines: number[]; // line of the file where each row starts; quoted fields may span lines
+}
+
+export interface ImportRow {
+    line: number;
+    values: string[];
+    category: EquipmentCategory | null;
+    item: EquipmentItem | null;
+    errors: string[];
+}
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+    category: ['categoria', 'category', 'tipo', 'equipamento'],
+    qt: ['qt', 'qtd', 'qtde', 'quantidade', 'quantity'],
+    contract: ['contrato', 'contract', 'ct', 'os'],
+    serial: ['serial', 'sn', 'numero de serie', 'n serie', 'serie'],
+};
+
+export const normalizeText = (value: string): string => value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+const detectDelimiter = (text: string): string => {
+    const firstLine = text.split(/\r?\n/).find(line => line.trim() !== '') || '';
+    const candidates = ['\t', ';', ','];
+    return candidates.reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+};
+
+// RFC 4180 style parsing: quoted fields may contain the delimiter, newlines and "" escapes.
+export const parseDelimited = (text: string): ParsedTable => {
+    const delimiter = detectDelimiter(text);
+    const rows: string[][] = [];
+    const lines: number[] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let line = 1;
+    let rowLine = 1;
+
+    const endRow = () => {
+        row.push(field);
+        if (row.some(v => v.trim() !== '')) {
+            rows.push(row);
+            lines.push(rowLine);
+        }
+        row = [];
+        field = '';
+    };
+
+    const source = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        const isNewline = char === '\n' || char === '\r';
+        if (isNewline && char === '\r' && source[i + 1] === '\n') i++;
+        if (isNewline) line++;
+
+        if (inQuotes) {
+            if (char === '"' && source[i + 1] === '"') { field += '"'; i++; }
+            else if (char === '"') inQuotes = false;
+            else field += isNewline ? '\n' : char;
+        } else if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (isNewline) {
+            endRow();
+            rowLine = line;
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) endRow();
+
+    return { delimiter, rows, lines };
+};
+
+const matchHeader = (header: string): ImportField | null => {
+    const normalized = normalizeText(header);
+    const match = IMPORT_FIELDS.find(({ field }) => HEADER_ALIASES[field].includes(normalized));
+    return match ? match.field : null;
+};
+
+// A custom field column is recognised by the field's label or id, e.g. "ICCID".
+const matchCustomHeader = (header: string, fields: FieldDefinition[]): FieldDefinition | null => {
+    const normalized = normalizeText(header);
+    if (!normalized) return null;
+    return fields.find(field => normalizeText(field.label) === normalized || normalizeText(field.id) === normalized) || null;
+};
+
+export const hasHeaderRow = (rows: string[][], categories: CategoryConfig[] = []): boolean => {
+    const customFields = getImportCustomFields(categories);
+    return rows.length > 0 && rows[0].some(cell => matchHeader(cell) !== null || matchCustomHeader(cell, customFields) !== null);
+};
+
+export const guessMapping = (rows: string[][], hasHeader: boolean, categories: CategoryConfig[] = []): ColumnMapping => {
+    const mapping = createEmptyMapping();
+    if (rows.length === 0) return mapping;
+
+    if (hasHeader) {
+        const customFields = getImportCustomFields(categories);
+        rows[0].forEach((cell, index) => {
+            const field = matchHeader(cell);
+            const custom = field ? null : matchCustomHeader(cell, customFields);
+            if (field && mapping[field] === -1) mapping[field] = index;
+            if (custom && mapping.extra[custom.id] === undefined) mapping.extra[custom.id] = index;
+        });
+        return mapping;
+    }
+
+    // Without a header assume the column order used by the exports.
+    const width = Math.max(...rows.map(r => r.length));
+    const order: ImportField[] = width >= 4 ? ['category', 'qt', 'contract', 'serial'] : ['qt', 'contract', 'serial'].slice(3 - width) as ImportField[];
+    order.forEach((field, index) => { mapping[field] = index; });
+    return mapping;
+};
+
+// Matches the category name, its short label (e.g. "SOUND", "CONTROLE") or its id.
+export const matchCategory = (value: string, categories: CategoryConfig[]): EquipmentCategory | null => {
+    const normalized = normalizeText(value);
+    if (!normalized) return null;
+    const match = categories.find(c => [c.name, c.shortLabel || '', c.id].some(v => normalizeText(v) === normalized));
+    return match ? match.id : null;
+};
+
+export const validateRows = (
+    table: ParsedTable,
+    mapping: ColumnMapping,
+    hasHeader: boolean,
+    defaultCategory: EquipmentCategory | null,
+    categories: CategoryConfig[],
+): ImportRow[] => {
+    const read = (values: string[], column: number | undefined) => column !== undefined && column >= 0 ? (values[column] || '').trim() : '';
+    const cell = (values: string[], field: ImportField) => read(values, mapping[field]);
+    const first = hasHeader ? 1 : 0;
+
+    return table.rows.slice(first).map((values, index) => {
+        const errors: string[] = [];
+        const rawCategory = cell(values, 'category');
+        const qt = cell(values, 'qt');
+        const contract = cell(values, 'contract');
+        const serial = cell(values, 'serial');
+
+        let category: EquipmentCategory | null = null;
+        if (rawCategory) {
+            category = matchCategory(rawCategory, categories);
+            if (!category) errors.push(`Categoria desconhecida: ${rawCategory}`);
+        } else if (defaultCategory) {
+            category = defaultCategory;
+        } else {
+            errors.push('Categoria ausente');
+        }
+
+        const config = categories.find(c => c.id === category);
+        const candidate = getCustomFields(config).reduce((acc, field) => {
+            const value = read(values, mapping.extra[field.id]);
+            return value ? setFieldValue(acc, field, value) : acc;
+        }, { ...createEmptyItem(), qt, contract, serial });
+        if (!isItemActive(candidate)) errors.push('Linha sem valores');
+        else errors.push(...Object.values(validateItem(candidate, getCategoryFields(config))));
+
+        const item = errors.length === 0 ? candidate : null;
+        return { line: table.lines[first + index], values, category, item, errors };
+    });
+};
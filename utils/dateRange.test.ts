@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { formatMonthKey, listMonthsInRange } from './dateRange';
+
+describe('listMonthsInRange', () => {
+    it.each([
+        [{ start: '2026-02-10', end: '2026-02-10' }, ['2026-02-01']],
+        [{ start: '2026-01-25', end: '2026-02-05' }, ['2026-01-01', '2026-02-01']],
+        [{ start: '2025-11-30', end: '2026-01-01' }, ['2025-11-01', '2025-12-01', '2026-01-01']],
+        [{ start: '2026-03-31', end: '2026-03-01' }, ['2026-03-01']],
+    ])('%j touches %j', (range, months) => {
+        expect(listMonthsInRange(range)).toEqual(months);
+    });
+
+    it('labels a month as M/YYYY', () => {
+        expect(formatMonthKey('2026-02-01')).toBe('2/2026');
+        expect(formatMonthKey('2025-11-30')).toBe('11/2025');
+    });
+});
@@ -0,0 +1,136 @@
+import { AppData, DailyData, DatedItem } from '../types';
+import { getFormattedDate, isItemActive } from './appData';
+
+// Inclusive range of date keys (YYYY-MM-DD). Arithmetic is done on UTC dates built from the
+// key itself so DST changes never skip or repeat a day.
+export interface DateRange {
+    start: string;
+    end: string;
+}
+
+export type RangePreset = 'day' | 'week' | 'monthToDate' | 'month' | 'previousMonth' | 'custom';
+
+export const RANGE_PRESETS: { preset: RangePreset; label: string }[] = [
+    { preset: 'day', label: 'Dia' },
+    { preset: 'week', label: 'Semana' },
+    { preset: 'monthToDate', label: 'Mês até o dia' },
+    { preset: 'month', label: 'Mês inteiro' },
+    { preset: 'previousMonth', label: 'Mês anterior' },
+    { preset: 'custom', label: 'Personalizado' },
+];
+
+const keyToUtc = (key: string): Date => {
+    const [y, m, d] = key.split('-').map(Number);
+    return new Date(Date.UTC(y, m - 1, d));
+};
+
+const utcToKey = (date: Date): string => date.toISOString().split('T')[0];
+
+export const addDays = (key: string, days: number): string => {
+    const date = keyToUtc(key);
+    date.setUTCDate(date.getUTCDate() + days);
+    return utcToKey(date);
+};
+
+// Local Date (midnight) for a date key, as used by the date selector in the header.
+export const parseDateKey = (key: string): Date => {
+    const [y, m, d] = key.split('-').map(Number);
+    return new Date(y, m - 1, d);
+};
+
+export const getMonthRange = (year: number, month: number): DateRange => ({
+    start: utcToKey(new Date(Date.UTC(year, month, 1))),
+    end: utcToKey(new Date(Date.UTC(year, month + 1, 0))),
+});
+
+// Sunday of the week containing the date, same as the calendar grid.
+export const getWeekStart = (key: string): string => addDays(key, -keyToUtc(key).getUTCDay());
+
+export const getPresetRange = (preset: RangePreset, reference: Date): DateRange => {
+    const key = getFormattedDate(reference);
+    const ref = keyToUtc(key);
+    const year = ref.getUTCFullYear();
+    const month = ref.getUTCMonth();
+
+    switch (preset) {
+        case 'week': {
+            const start = getWeekStart(key);
+            return { start, end: addDays(start, 6) };
+        }
+        case 'monthToDate': return { start: getMonthRange(year, month).start, end: key };
+        case 'month': return getMonthRange(year, month);
+        case 'previousMonth': return getMonthRange(year, month - 1);
+        case 'day':
+        case 'custom':
+        default:
+            return { start: key, end: key };
+    }
+};
+
+export const normalizeRange = (range: DateRange): DateRange => {
+    return range.start <= range.end ? range : { start: range.end, end: range.start };
+};
+
+export const listDatesInRange = (range: DateRange): string[] => {
+    const { start, end } = normalizeRange(range);
+    const dates: string[] = [];
+    for (let key = start; key <= end; key = addDays(key, 1)) dates.push(key);
+    return dates;
+};
+
+export const isDateInRange = (date: string, range: DateRange): boolean => {
+    const { start, end } = normalizeRange(range);
+    return date >= start && date <= end;
+};
+
+// First day of every month the range touches, e.g. two for 2026-01-25 to 2026-02-05.
+export const listMonthsInRange = (range: DateRange): string[] => {
+    const { start, end } = normalizeRange(range);
+    const [year, month] = start.split('-').map(Number);
+    const months: string[] = [];
+    for (let m = month - 1; getMonthRange(year, m).start <= end; m++) months.push(getMonthRange(year, m).start);
+    return months;
+};
+
+// "YYYY-MM-DD" -> "DD/MM/YYYY"
+export const formatDateKey = (key: string) => key.split('-').reverse().join('/');
+
+// "YYYY-MM-DD" -> "M/YYYY"
+export const formatMonthKey = (key: string) => `${Number(key.substring(5, 7))}/${key.substring(0, 4)}`;
+
+export const formatRangeLabel = (range: DateRange): string => {
+    const { start, end } = normalizeRange(range);
+    if (start === end) return formatDateKey(start);
+
+    const [sy, sm] = start.split('-').map(Number);
+    const month = getMonthRange(sy, sm - 1);
+    if (start === month.start && end === month.end) return `Mês ${sm}/${sy}`;
+    if (start === month.start && end < month.end) return `Mês ${sm}/${sy} (até dia ${Number(end.split('-')[2])})`;
+    return `${formatDateKey(start)} a ${formatDateKey(end)}`;
+};
+
+// Active items of every day in the range, in date order.
+export const collectItemsInRange = (appData: AppData, range: DateRange): DatedItem[] => {
+    const { start, end } = normalizeRange(range);
+    const entries: DatedItem[] = [];
+    Object.keys(appData)
+        .filter(date => date >= start && date <= end)
+        .sort()
+        .forEach(date => {
+            Object.entries(appData[date]).forEach(([category, items]) => {
+                items.filter(isItemActive).forEach(item => entries.push({ date, category, item }));
+            });
+        });
+    return entries;
+};
+
+export const groupByCategory = (entries: DatedItem[]): DailyData => {
+    const data: DailyData = {};
+    entries.forEach(({ category, item }) => (data[category] = data[category] || []).push(item));
+    return data;
+};
+
+export const getDataInRange = (appData: AppData, range: DateRange): { data: DailyData; entries: DatedItem[]; label: string } => {
+    const entries = collectItemsInRange(appData, range);
+    return { data: groupByCategory(entries), entries, label: formatRangeLabel(range) };
+};
@@ -0,0 +1,104 @@
+import { CategoryConfig, EquipmentItem, FieldDefinition, FieldType } from '../types';
+import { BASE_FIELDS } from '../constants';
+import { generateId, isItemActive } from './appData';
+
+// Field definitions per category: the built-in QT / Contrato / Serial followed by the
+// category's custom fields, whose values live in EquipmentItem.extra.
+
+export const FIELD_TYPES: { type: FieldType; label: string }[] = [
+    { type: 'text', label: 'Texto' },
+    { type: 'number', label: 'Número' },
+    { type: 'tel', label: 'Telefone' },
+];
+
+// The EquipmentItem properties behind BASE_FIELDS.
+type BaseFieldId = 'qt' | 'contract' | 'serial';
+
+const BASE_FIELD_IDS = BASE_FIELDS.map(f => f.id);
+
+const isBaseFieldId = (id: string): id is BaseFieldId => BASE_FIELD_IDS.includes(id);
+
+export const isBaseField = (field: FieldDefinition): boolean => isBaseFieldId(field.id);
+
+export const getCustomFields = (category: CategoryConfig | undefined): FieldDefinition[] => category?.fields || [];
+
+export const getCategoryFields = (category: CategoryConfig | undefined): FieldDefinition[] => [...BASE_FIELDS, ...getCustomFields(category)];
+
+export const createField = (label: string): FieldDefinition => ({ id: `f_${generateId()}`, label: label.trim(), type: 'text' });
+
+export const getFieldValue = (item: EquipmentItem, field: FieldDefinition): string => {
+    if (isBaseFieldId(field.id)) return item[field.id] || '';
+    return item.extra?.[field.id] || '';
+};
+
+export const setFieldValue = (item: EquipmentItem, field: FieldDefinition, value: string): EquipmentItem => {
+    if (isBaseField(field)) return { ...item, [field.id]: value };
+    const extra = { ...item.extra, [field.id]: value };
+    if (!value) delete extra[field.id];
+    return { ...item, extra };
+};
+
+// Mod 10 check used by ICCIDs (and card numbers): the last digit checks all the others.
+export const luhnCheck = (digits: string): boolean => {
+    if (!/^\d+$/.test(digits)) return false;
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let n = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            n *= 2;
+            if (n > 9) n -= 9;
+        }
+        sum += n;
+    }
+    return sum % 10 === 0;
+};
+
+// Invalid user-entered patterns must not break the row, so they are simply ignored.
+const testPattern = (pattern: string, value: string): boolean => {
+    try {
+        return new RegExp(pattern).test(value);
+    } catch {
+        return true;
+    }
+};
+
+export const isValidPattern = (pattern: string): boolean => {
+    try {
+        new RegExp(pattern);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+// Error message for a single value, or null when it is valid. Empty values only fail `required`.
+export const validateField = (field: FieldDefinition, rawValue: string): string | null => {
+    const value = rawValue.trim();
+    if (!value) return field.required ? `${field.label} obrigatório` : null;
+    if (field.maxLength && value.length > field.maxLength) return `${field.label} com mais de ${field.maxLength} caracteres`;
+    if (field.type === 'number' && !/^\d+$/.test(value)) return `${field.label} não numérico`;
+    if (field.pattern && !testPattern(field.pattern, value)) return `${field.label} em formato inválido`;
+    if (field.checksum === 'luhn' && !luhnCheck(value)) return `${field.label} com dígito verificador inválido`;
+    return null;
+};
+
+// Errors by field id. The blank input row is never flagged, so `required` only applies
+// once something has been typed in the row.
+export const validateItem = (item: EquipmentItem, fields: FieldDefinition[]): Record<string, string> => {
+    const errors: Record<string, string> = {};
+    if (!isItemActive(item)) return errors;
+    fields.forEach(field => {
+        const error = validateField(field, getFieldValue(item, field));
+        if (error) errors[field.id] = error;
+    });
+    return errors;
+};
+
+// "ICCID: 8955… · Telefone: …" for exports and search results.
+export const describeCustomFields = (item: EquipmentItem, category: CategoryConfig | undefined, separator = ' · '): string => {
+    return getCustomFields(category)
+        .map(field => ({ field, value: getFieldValue(item, field) }))
+        .filter(({ value }) => value)
+        .map(({ field, value }) => `${field.label}: ${value}`)
+        .join(separator);
+};
@@ -0,0 +1,214 @@
+import { AppData, EquipmentCategory, EquipmentItem } from '../types';
+import { generateId, isItemActive } from './appData';
+import { isInlinePhoto } from './photoStore';
+import { openText, sealText } from './crypto';
+import { writeLatest } from './storage';
+
+// Undo/redo history. Each entry stores only the (date, category) lists an action changed,
+// before and after, instead of a copy of the whole AppData. Items reference photos by ID,
+// so entries never hold image data.
+
+export const HISTORY_KEY = 'equipmentHistory';
+
+const HISTORY_LIMIT = 50;
+const PERSISTED_LIMIT = 20;
+// Entries bigger than this (e.g. a backup restore) are kept in memory only.
+const PERSISTED_ENTRY_MAX_CHARS = 100_000;
+// Consecutive edits of the same field of the same item within this window become one entry.
+const MERGE_WINDOW_MS = 1500;
+
+export interface ListChange {
+    date: string;
+    category: EquipmentCategory;
+    before: EquipmentItem[] | null; // null: the list did not exist
+    after: EquipmentItem[] | null;
+}
+
+export interface HistoryEntry {
+    id: string;
+    label: string;
+    at: number;
+    groupKey?: string;
+    changes: ListChange[];
+}
+
+export interface HistoryState {
+    past: HistoryEntry[]; // oldest first; the last one is the next to undo
+    future: HistoryEntry[]; // the first one is the next to redo
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+// --- PATCHES ---
+
+// Lists of the given dates (every date when omitted) that differ between two states.
+export const diffData = (prev: AppData, next: AppData, dates?: string[]): ListChange[] => {
+    const changes: ListChange[] = [];
+    const allDates = dates || Array.from(new Set([...Object.keys(prev), ...Object.keys(next)]));
+    allDates.forEach(date => {
+        const before = prev[date] || {};
+        const after = next[date] || {};
+        new Set([...Object.keys(before), ...Object.keys(after)]).forEach(category => {
+            const a = before[category] || null;
+            const b = after[category] || null;
+            if (a !== b && JSON.stringify(a) !== JSON.stringify(b)) changes.push({ date, category, before: a, after: b });
+        });
+    });
+    return changes;
+};
+
+export const applyChanges = (data: AppData, changes: ListChange[], side: 'before' | 'after'): AppData => {
+    const result = { ...data };
+    changes.forEach(change => {
+        const day = { ...result[change.date] };
+        const items = change[side];
+        if (items) day[change.category] = items;
+        else delete day[change.category];
+        if (Object.keys(day).length > 0) result[change.date] = day;
+        else delete result[change.date];
+    });
+    return result;
+};
+
+// Keys of the item that changed, e.g. ["serial"] or ["extra.iccid"]; used to group keystrokes.
+// createdBy is bookkeeping set along with the first edit, not a field the user changed.
+export const changedFields = (before: EquipmentItem | undefined, after: EquipmentItem): string[] => {
+    if (!before) return ['*'];
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof EquipmentItem)[]);
+    const fields: string[] = [];
+    keys.forEach(key => {
+        if (key === 'createdBy') return;
+        if (key === 'extra') {
+            const a = before.extra || {};
+            const b = after.extra || {};
+            new Set([...Object.keys(a), ...Object.keys(b)]).forEach(k => { if (a[k] !== b[k]) fields.push(`extra.${k}`); });
+        } else if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+            fields.push(key);
+        }
+    });
+    return fields.sort();
+};
+
+// --- STACK ---
+
+export const recordEntry = (history: HistoryState, label: string, changes: ListChange[], groupKey?: string, now = Date.now()): HistoryState => {
+    if (changes.length === 0) return history;
+    const last = history.past[history.past.length - 1];
+    if (groupKey && last && last.groupKey === groupKey && now - last.at < MERGE_WINDOW_MS && history.future.length === 0) {
+        // Keep the oldest "before" and the newest "after" of each list.
+        const merged = [...last.changes];
+        changes.forEach(change => {
+            const index = merged.findIndex(c => c.date === change.date && c.category === change.category);
+            if (index > -1) merged[index] = { ...merged[index], after: change.after };
+            else merged.push(change);
+        });
+        return { past: [...history.past.slice(0, -1), { ...last, at: now, changes: merged }], future: [] };
+    }
+    const entry: HistoryEntry = { id: generateId(), label, at: now, changes, ...(groupKey ? { groupKey } : {}) };
+    return { past: [...history.past, entry].slice(-HISTORY_LIMIT), future: [] };
+};
+
+export const undo = (data: AppData, history: HistoryState): { data: AppData; history: HistoryState } | null => {
+    const entry = history.past[history.past.length - 1];
+    if (!entry) return null;
+    return {
+        data: applyChanges(data, entry.changes, 'before'),
+        history: { past: history.past.slice(0, -1), future: [{ ...entry, groupKey: undefined }, ...history.future] },
+    };
+};
+
+export const redo = (data: AppData, history: HistoryState): { data: AppData; history: HistoryState } | null => {
+    const entry = history.future[0];
+    if (!entry) return null;
+    return {
+        data: applyChanges(data, entry.changes, 'after'),
+        history: { past: [...history.past, entry], future: history.future.slice(1) },
+    };
+};
+
+// Positive steps redo, negative steps undo; used by the history panel to jump to an entry.
+export const travel = (data: AppData, history: HistoryState, steps: number): { data: AppData; history: HistoryState } => {
+    let state = { data, history };
+    for (let i = 0; i < Math.abs(steps); i++) {
+        const next = steps < 0 ? undo(state.data, state.history) : redo(state.data, state.history);
+        if (!next) break;
+        state = next;
+    }
+    return state;
+};
+
+// Changes pulled by the sync are not undoable, and undoing an older entry over them would
+// bring the overwritten list back. Entries only apply in sequence, so the last entry touching
+// those lists goes with every entry before it, and redo stops before the first one.
+export const forgetLists = (history: HistoryState, changes: ListChange[]): HistoryState => {
+    const touches = (entry: HistoryEntry) => entry.changes.some(c => changes.some(x => x.date === c.date && x.category === c.category));
+    let last = -1;
+    history.past.forEach((entry, index) => { if (touches(entry)) last = index; });
+    const first = history.future.findIndex(touches);
+    if (last === -1 && first === -1) return history;
+    return { past: history.past.slice(last + 1), future: first === -1 ? history.future : history.future.slice(0, first) };
+};
+
+// --- PERSISTENCE ---
+
+const fitsStorage = (entry: HistoryEntry) => JSON.stringify(entry).length <= PERSISTED_ENTRY_MAX_CHARS;
+
+// Entries only make sense in sequence, so stop at the first one too big to persist.
+const takeWhileFits = (entries: HistoryEntry[]): HistoryEntry[] => {
+    const index = entries.findIndex(entry => !fitsStorage(entry));
+    return index === -1 ? entries : entries.slice(0, index);
+};
+
+export const saveHistory = async (history: HistoryState, key = HISTORY_KEY): Promise<void> => {
+    const past = takeWhileFits([...history.past].reverse().slice(0, PERSISTED_LIMIT)).reverse();
+    const future = takeWhileFits(history.future.slice(0, PERSISTED_LIMIT));
+    try {
+        await writeLatest(key, () => sealText(JSON.stringify({ past, future })));
+    } catch (e) {
+        // History is a convenience; never let it compete with the data for quota.
+        console.error(e);
+        localStorage.removeItem(key);
+    }
+};
+
+const isHistoryEntry = (value: any): value is HistoryEntry => {
+    return typeof value === 'object' && value !== null
+        && typeof value.id === 'string' && typeof value.label === 'string' && typeof value.at === 'number'
+        && Array.isArray(value.changes) && value.changes.every((c: any) => typeof c?.date === 'string' && typeof c?.category === 'string');
+};
+
+// A list holding only the blank input row counts as missing: ENSURE_DAY_DATA recreates it
+// with a fresh id after an undo removes the list.
+const sameList = (a: EquipmentItem[] | null | undefined, b: EquipmentItem[] | null | undefined) => {
+    const normalize = (list: EquipmentItem[] | null | undefined) => list && list.some(isItemActive) ? list : null;
+    return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+};
+
+// The saved history is only usable if it ends exactly at the saved data; otherwise (data saved
+// by another tab, restored from quarantine...) undoing would overwrite unrelated changes.
+export const loadHistory = async (data: AppData, key = HISTORY_KEY): Promise<HistoryState> => {
+    try {
+        const saved = JSON.parse(await openText(localStorage.getItem(key) || 'null'));
+        if (!saved || !Array.isArray(saved.past) || !Array.isArray(saved.future)) return EMPTY_HISTORY;
+        if (!saved.past.every(isHistoryEntry) || !saved.future.every(isHistoryEntry)) return EMPTY_HISTORY;
+        const history: HistoryState = { past: saved.past.map((e: HistoryEntry) => ({ ...e, groupKey: undefined })), future: saved.future };
+        const last = history.past[history.past.length - 1];
+        const next = history.future[0];
+        if (last && !last.changes.every(c => sameList(data[c.date]?.[c.category], c.after))) return EMPTY_HISTORY;
+        if (next && !next.changes.every(c => sameList(data[c.date]?.[c.category], c.before))) return EMPTY_HISTORY;
+        return history;
+    } catch (e) {
+        console.error(e);
+        return EMPTY_HISTORY;
+    }
+};
+
+// Photos referenced only by history entries must survive the orphan cleanup, or undoing
+// a photo removal would bring back a broken reference.
+export const collectHistoryPhotoIds = (history: HistoryState): Set<string> => {
+    const ids = new Set<string>();
+    [...history.past, ...history.future].forEach(entry => entry.changes.forEach(change => {
+        [...(change.before || []), ...(change.after || [])].forEach(item => item.photos.forEach(ref => { if (!isInlinePhoto(ref)) ids.add(ref); }));
+    }));
+    return ids;
+};
@@ -0,0 +1,229 @@
+import { jsPDF } from 'jspdf';
+import { CategoryConfig, DatedItem } from '../types';
+import { getItemQuantity, sumQuantity } from './totals';
+import { getPhoto } from './photoStore';
+import { resolveCategories } from './categories';
+import { describeCustomFields } from './fields';
+import { DateRange, formatDateKey, normalizeRange } from './dateRange';
+
+// A4 portrait report: header, one table per category (QT / Contrato / Serial / Fotos, plus
+// Data when the range spans several days) with photo thumbnails beside each row, totals at
+// the end and page numbers in the footer.
+
+export interface MonthTotal {
+    label: string; // "M/YYYY"
+    total: number;
+}
+
+export interface PdfReportOptions {
+    entries: DatedItem[]; // active items in date order, as collectItemsInRange returns them
+    range: DateRange;
+    label: string;
+    monthTotals: MonthTotal[]; // one per month the range touches
+    categories: CategoryConfig[];
+    technician?: string;
+}
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 14;
+const FOOTER_SPACE = 14;
+const ROW_HEIGHT = 7;
+const THUMB_SIZE = 16;
+const THUMB_GAP = 2;
+const THUMB_PIXELS = 200;
+const DETAIL_LINE_HEIGHT = 4;
+
+const TEXT_COLUMNS = [
+    { title: 'QT', width: 14 },
+    { title: 'Contrato', width: 38 },
+    { title: 'Serial', width: 54 },
+];
+const DATE_COLUMN = { title: 'Data', width: 20 };
+
+// The photo column takes whatever width the text columns leave.
+const getColumns = (multiDay: boolean) => {
+    const text = multiDay ? [DATE_COLUMN, ...TEXT_COLUMNS] : TEXT_COLUMNS;
+    const used = text.reduce((sum, col) => sum + col.width, 0);
+    return [...text, { title: 'Fotos', width: PAGE_WIDTH - 2 * MARGIN - used }];
+};
+
+// Thumbnails are downscaled before embedding so a report with dozens of photos stays small.
+const createThumbnail = async (photoId: string): Promise<string | null> => {
+    try {
+        const blob = await getPhoto(photoId);
+        if (!blob) return null;
+        const bitmap = await createImageBitmap(blob);
+        const scale = Math.min(1, THUMB_PIXELS / Math.max(bitmap.width, bitmap.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = THUMB_PIXELS;
+        canvas.height = THUMB_PIXELS;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return null;
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, THUMB_PIXELS, THUMB_PIXELS);
+        const w = bitmap.width * scale;
+        const h = bitmap.height * scale;
+        ctx.drawImage(bitmap, (THUMB_PIXELS - w) / 2, (THUMB_PIXELS - h) / 2, w, h);
+        bitmap.close();
+        return canvas.toDataURL('image/jpeg', 0.7);
+    } catch (e) {
+        console.error(e);
+        return null;
+    }
+};
+
+const fitText = (doc: jsPDF, value: string, width: number): string => {
+    if (doc.getTextWidth(value) <= width) return value;
+    let text = value;
+    while (text.length > 0 && doc.getTextWidth(text + '…') > width) text = text.slice(0, -1);
+    return text + '…';
+};
+
+export const createEquipmentPdf = async ({ entries, range, label, monthTotals, categories, technician }: PdfReportOptions): Promise<Blob> => {
+    const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+    const { start, end } = normalizeRange(range);
+    const multiDay = start !== end;
+    const columns = getColumns(multiDay);
+    const photoColumn = columns[columns.length - 1];
+    const reportCategories = resolveCategories(categories, entries.map(e => e.category));
+    const entriesOf = (cat: string) => entries.filter(e => e.category === cat);
+    const thumbsPerLine = Math.max(1, Math.floor((photoColumn.width - THUMB_GAP) / (THUMB_SIZE + THUMB_GAP)));
+    let y = MARGIN;
+
+    const ensureSpace = (height: number) => {
+        if (y + height > PAGE_HEIGHT - FOOTER_SPACE) {
+            doc.addPage();
+            y = MARGIN;
+        }
+    };
+
+    const drawTableHeader = () => {
+        doc.setFillColor(241, 245, 249);
+        doc.rect(MARGIN, y, PAGE_WIDTH - 2 * MARGIN, ROW_HEIGHT, 'F');
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(9);
+        doc.setTextColor(71, 85, 105);
+        let x = MARGIN;
+        columns.forEach(col => {
+            doc.text(col.title, x + 2, y + 4.8);
+            x += col.width;
+        });
+        y += ROW_HEIGHT;
+    };
+
+    // Custom field values go on a smaller line under QT / Contrato / Serial.
+    const drawRow = async ({ date, item }: DatedItem, category: CategoryConfig) => {
+        const detailsWidth = PAGE_WIDTH - 2 * MARGIN - photoColumn.width - 4;
+        const details = describeCustomFields(item, category);
+        doc.setFontSize(7);
+        const detailLines: string[] = details ? doc.splitTextToSize(details, detailsWidth) : [];
+        const thumbLines = Math.ceil(item.photos.length / thumbsPerLine);
+        const height = Math.max(ROW_HEIGHT + detailLines.length * DETAIL_LINE_HEIGHT, thumbLines * (THUMB_SIZE + THUMB_GAP) + THUMB_GAP);
+        if (y + height > PAGE_HEIGHT - FOOTER_SPACE) {
+            ensureSpace(height + ROW_HEIGHT);
+            drawTableHeader();
+        }
+
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(9);
+        doc.setTextColor(51, 65, 85);
+        const values = [...(multiDay ? [formatDateKey(date)] : []), String(getItemQuantity(item)), item.contract, item.serial];
+        let x = MARGIN;
+        values.forEach((value, i) => {
+            doc.text(fitText(doc, value || '-', columns[i].width - 4), x + 2, y + 4.8);
+            x += columns[i].width;
+        });
+        if (detailLines.length > 0) {
+            doc.setFontSize(7);
+            doc.setTextColor(100, 116, 139);
+            doc.text(detailLines, MARGIN + 2, y + ROW_HEIGHT + 2.5);
+        }
+
+        for (let i = 0; i < item.photos.length; i++) {
+            const thumb = await createThumbnail(item.photos[i]);
+            const tx = x + THUMB_GAP + (i % thumbsPerLine) * (THUMB_SIZE + THUMB_GAP);
+            const ty = y + THUMB_GAP + Math.floor(i / thumbsPerLine) * (THUMB_SIZE + THUMB_GAP);
+            if (thumb) {
+                doc.addImage(thumb, 'JPEG', tx, ty, THUMB_SIZE, THUMB_SIZE);
+            } else {
+                doc.setDrawColor(203, 213, 225);
+                doc.rect(tx, ty, THUMB_SIZE, THUMB_SIZE);
+            }
+        }
+
+        doc.setDrawColor(226, 232, 240);
+        doc.line(MARGIN, y + height, PAGE_WIDTH - MARGIN, y + height);
+        y += height;
+    };
+
+    // Header
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(16);
+    doc.setTextColor(51, 65, 85);
+    doc.text('Relatório de Equipamentos', PAGE_WIDTH / 2, y + 6, { align: 'center' });
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.setTextColor(100, 116, 139);
+    doc.text(technician ? `${label} · Técnico: ${technician}` : label, PAGE_WIDTH / 2, y + 12, { align: 'center' });
+    doc.text(`Gerado em ${new Date().toLocaleString('pt-BR')}`, PAGE_WIDTH / 2, y + 17, { align: 'center' });
+    doc.setDrawColor(14, 165, 233);
+    doc.setLineWidth(0.6);
+    doc.line(MARGIN, y + 21, PAGE_WIDTH - MARGIN, y + 21);
+    doc.setLineWidth(0.2);
+    y += 28;
+
+    // Category tables
+    for (const cat of reportCategories) {
+        const catEntries = entriesOf(cat.id);
+        if (catEntries.length === 0) continue;
+
+        ensureSpace(ROW_HEIGHT * 3);
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(12);
+        doc.setTextColor(8, 145, 178);
+        doc.text(`${cat.name} (${sumQuantity(catEntries.map(e => e.item))})`, MARGIN, y + 5);
+        y += 8;
+        drawTableHeader();
+        for (const entry of catEntries) await drawRow(entry, cat);
+        y += 6;
+    }
+
+    // Totals
+    ensureSpace(ROW_HEIGHT * (reportCategories.length + monthTotals.length + 3));
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.setTextColor(51, 65, 85);
+    doc.text('Totais', MARGIN, y + 5);
+    y += 9;
+    doc.setFontSize(10);
+    reportCategories.forEach(cat => {
+        doc.setFont('helvetica', 'normal');
+        doc.text(cat.name, MARGIN + 2, y + 4);
+        doc.text(String(sumQuantity(entriesOf(cat.id).map(e => e.item))), PAGE_WIDTH - MARGIN - 2, y + 4, { align: 'right' });
+        y += ROW_HEIGHT - 1;
+    });
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(37, 99, 235);
+    doc.text(`Total (${label})`, MARGIN + 2, y + 4);
+    doc.text(String(sumQuantity(entries.map(e => e.item))), PAGE_WIDTH - MARGIN - 2, y + 4, { align: 'right' });
+    doc.setTextColor(147, 51, 234);
+    monthTotals.forEach(month => {
+        y += ROW_HEIGHT;
+        doc.text(`Soma Total (${month.label})`, MARGIN + 2, y + 4);
+        doc.text(String(month.total), PAGE_WIDTH - MARGIN - 2, y + 4, { align: 'right' });
+    });
+
+    // Page numbers
+    const pageCount = doc.getNumberOfPages();
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(148, 163, 184);
+    for (let page = 1; page <= pageCount; page++) {
+        doc.setPage(page);
+        doc.text('Controle de Equipamentos', MARGIN, PAGE_HEIGHT - 8);
+        doc.text(`Página ${page} de ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 8, { align: 'right' });
+    }
+
+    return doc.output('blob');
+};
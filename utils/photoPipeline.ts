@@ -0,0 +1,91 @@
+import { EquipmentItem } from '../types';
+import { formatDateKey } from './dateRange';
+
+// Every photo goes through a canvas before it is stored: that resizes it, re-encodes it at
+// the configured quality and drops EXIF (location, device) since canvases carry no metadata.
+
+export const PHOTO_SETTINGS_KEY = 'photoSettings';
+
+export interface PhotoSettings {
+    maxDimension: number; // longest side in px, 0 keeps the original size
+    quality: number; // JPEG quality, 0-1
+    watermark: boolean; // stamp date / contract / serial on new photos
+}
+
+export const DEFAULT_PHOTO_SETTINGS: PhotoSettings = { maxDimension: 1600, quality: 0.8, watermark: true };
+
+export const MAX_DIMENSION_OPTIONS = [
+    { value: 1024, label: '1024 px' },
+    { value: 1600, label: '1600 px' },
+    { value: 2048, label: '2048 px' },
+    { value: 0, label: 'Original' },
+];
+
+export const loadPhotoSettings = (): PhotoSettings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(PHOTO_SETTINGS_KEY) || 'null');
+        if (saved && typeof saved === 'object') {
+            return {
+                maxDimension: typeof saved.maxDimension === 'number' && saved.maxDimension >= 0 ? saved.maxDimension : DEFAULT_PHOTO_SETTINGS.maxDimension,
+                quality: typeof saved.quality === 'number' && saved.quality > 0 && saved.quality <= 1 ? saved.quality : DEFAULT_PHOTO_SETTINGS.quality,
+                watermark: typeof saved.watermark === 'boolean' ? saved.watermark : DEFAULT_PHOTO_SETTINGS.watermark,
+            };
+        }
+    } catch (e) {
+        console.error(e);
+    }
+    return DEFAULT_PHOTO_SETTINGS;
+};
+
+export const savePhotoSettings = (settings: PhotoSettings) => {
+    localStorage.setItem(PHOTO_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const fitDimensions = (width: number, height: number, maxDimension: number) => {
+    const longest = Math.max(width, height);
+    if (!maxDimension || longest <= maxDimension) return { width, height };
+    const scale = maxDimension / longest;
+    return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+// Lines stamped in the corner of new photos, e.g. ["12/03/2025", "CT 123 · SN ABC"].
+export const buildWatermark = (date: string, item: EquipmentItem): string[] => {
+    const details = [item.contract && `CT ${item.contract}`, item.serial && `SN ${item.serial}`].filter(Boolean).join(' · ');
+    return [formatDateKey(date), details].filter(Boolean);
+};
+
+export const drawWatermark = (ctx: CanvasRenderingContext2D, lines: string[]) => {
+    if (lines.length === 0) return;
+    const { width, height } = ctx.canvas;
+    const fontSize = Math.max(14, Math.round(Math.min(width, height) / 30));
+    const padding = Math.round(fontSize / 2);
+    ctx.save();
+    ctx.font = `bold ${fontSize}px sans-serif`;
+    ctx.textBaseline = 'top';
+    const boxWidth = Math.max(...lines.map(line => ctx.measureText(line).width)) + padding * 2;
+    const boxHeight = lines.length * fontSize * 1.2 + padding * 2;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.fillRect(0, height - boxHeight, boxWidth, boxHeight);
+    ctx.fillStyle = '#fff';
+    lines.forEach((line, i) => ctx.fillText(line, padding, height - boxHeight + padding + i * fontSize * 1.2));
+    ctx.restore();
+};
+
+export const canvasToJpeg = (canvas: HTMLCanvasElement, quality: number): Promise<Blob> => {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Falha ao gerar a imagem')), 'image/jpeg', quality);
+    });
+};
+
+// Resizes, optionally watermarks and re-encodes a video frame, image or bitmap.
+export const processPhoto = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number, settings: PhotoSettings, watermark: string[] = []): Promise<Blob> => {
+    const { width, height } = fitDimensions(sourceWidth, sourceHeight, settings.maxDimension);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return Promise.reject(new Error('Canvas indisponível'));
+    ctx.drawImage(source, 0, 0, width, height);
+    if (settings.watermark) drawWatermark(ctx, watermark);
+    return canvasToJpeg(canvas, settings.quality);
+};
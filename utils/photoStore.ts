@@ -0,0 +1,123 @@
+import { AppData, DailyData, EquipmentItem } from '../types';
+import { openDb, runRequest, PHOTO_STORE } from './db';
+import { EncryptedBlob, openBlob, sealBlob } from './crypto';
+
+// Photos are kept as Blobs in IndexedDB and referenced from EquipmentItem.photos by ID.
+// localStorage only holds the (small) AppData tree.
+
+const generatePhotoId = () => {
+    return 'photo_' + Date.now().toString(36) + Math.random().toString(36).substring(2);
+};
+
+export const isInlinePhoto = (ref: string): boolean => ref.startsWith('data:');
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+    const res = await fetch(dataUrl);
+    return res.blob();
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+};
+
+// Stored values are Blobs, or EncryptedBlobs while the app lock encrypts data (utils/crypto).
+// Encryption happens before the transaction opens: IndexedDB transactions don't survive an await.
+export type StoredPhoto = Blob | EncryptedBlob;
+
+export const readStoredPhoto = (id: string): Promise<StoredPhoto | undefined> => {
+    return runRequest<StoredPhoto | undefined>(PHOTO_STORE, 'readonly', store => store.get(id));
+};
+
+export const writeStoredPhoto = async (id: string, value: StoredPhoto): Promise<void> => {
+    await runRequest(PHOTO_STORE, 'readwrite', store => store.put(value, id));
+};
+
+export const savePhoto = async (blob: Blob): Promise<string> => {
+    const id = generatePhotoId();
+    await writeStoredPhoto(id, await sealBlob(blob));
+    return id;
+};
+
+// Stores a blob under a known ID (used when restoring a backup).
+export const putPhoto = async (id: string, blob: Blob): Promise<void> => {
+    await writeStoredPhoto(id, await sealBlob(blob));
+};
+
+export const getPhoto = async (ref: string): Promise<Blob | undefined> => {
+    if (isInlinePhoto(ref)) return dataUrlToBlob(ref);
+    return openBlob(await readStoredPhoto(ref));
+};
+
+export const deletePhotos = async (ids: string[]): Promise<void> => {
+    if (ids.length === 0) return;
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(PHOTO_STORE, 'readwrite');
+        const store = tx.objectStore(PHOTO_STORE);
+        ids.forEach(id => store.delete(id));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+export const listPhotoIds = async (): Promise<string[]> => {
+    const keys = await runRequest<IDBValidKey[]>(PHOTO_STORE, 'readonly', store => store.getAllKeys());
+    return keys.map(String);
+};
+
+export const collectPhotoIds = (data: AppData): Set<string> => {
+    const ids = new Set<string>();
+    Object.values(data).forEach((dailyData: DailyData) => {
+        Object.values(dailyData).forEach((items: EquipmentItem[]) => {
+            items.forEach(item => item.photos.forEach(ref => { if (!isInlinePhoto(ref)) ids.add(ref); }));
+        });
+    });
+    return ids;
+};
+
+// One-time migration: moves base64 photos embedded in AppData into the blob store.
+// Items that fail to migrate keep their inline photo so nothing is lost.
+export const migrateInlinePhotos = async (data: AppData): Promise<{ data: AppData; migrated: number }> => {
+    let migrated = 0;
+    const result: AppData = {};
+
+    for (const [date, dailyData] of Object.entries(data)) {
+        const newDaily = { ...dailyData } as DailyData;
+        for (const [category, items] of Object.entries(dailyData) as [keyof DailyData, EquipmentItem[]][]) {
+            const newItems: EquipmentItem[] = [];
+            for (const item of items) {
+                if (!item.photos.some(isInlinePhoto)) {
+                    newItems.push(item);
+                    continue;
+                }
+                const photos: string[] = [];
+                for (const ref of item.photos) {
+                    if (!isInlinePhoto(ref)) { photos.push(ref); continue; }
+                    try {
+                        photos.push(await savePhoto(await dataUrlToBlob(ref)));
+                        migrated++;
+                    } catch (e) {
+                        console.error(e);
+                        photos.push(ref);
+                    }
+                }
+                newItems.push({ ...item, photos });
+            }
+            newDaily[category] = newItems;
+        }
+        result[date] = newDaily;
+    }
+
+    return { data: result, migrated };
+};
+
+// Removes blobs no longer referenced by any item (e.g. photos deleted in the gallery).
+export const prunePhotos = async (referenced: Set<string>): Promise<void> => {
+    const ids = await listPhotoIds();
+    await deletePhotos(ids.filter(id => !referenced.has(id)));
+};
@@ -0,0 +1,121 @@
+import { AppData, EquipmentItem, Profile } from '../types';
+import { generateId, isItemActive } from './appData';
+import { STORAGE_KEY } from './storage';
+import { HISTORY_KEY, collectHistoryPhotoIds } from './history';
+import { SYNC_STATE_KEY } from './sync';
+import { collectPhotoIds } from './photoStore';
+import { Action } from './appReducer';
+import { isEncryptedText, openText } from './crypto';
+
+// Technician profiles sharing one device. Each profile keeps its AppData, undo history and
+// sync state under its own localStorage keys; the first profile uses the original keys, so data
+// saved before profiles existed simply becomes that profile's. Categories, scanner and photo
+// settings and the photo store are shared by the device.
+//
+// The PIN only keeps colleagues from opening each other's profile by accident: the data itself
+// is stored in the clear like before.
+
+export const PROFILES_KEY = 'equipmentProfiles';
+export const ACTIVE_PROFILE_KEY = 'activeProfile';
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const PIN_PATTERN = /^\d{4,8}$/;
+
+const DEFAULT_PROFILES: Profile[] = [{ id: DEFAULT_PROFILE_ID, name: 'Técnico 1' }];
+
+const isProfile = (value: any): value is Profile => {
+    return typeof value === 'object' && value !== null && typeof value.id === 'string' && typeof value.name === 'string'
+        && (value.pin === undefined || (typeof value.pin.salt === 'string' && typeof value.pin.hash === 'string'));
+};
+
+export const loadProfiles = (): Profile[] => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(PROFILES_KEY) || 'null');
+        if (Array.isArray(saved) && saved.length > 0 && saved.every(isProfile)) return saved;
+    } catch (e) {
+        console.error(e);
+    }
+    return DEFAULT_PROFILES;
+};
+
+export const saveProfiles = (profiles: Profile[]) => {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const loadActiveProfileId = (profiles: Profile[]): string => {
+    const saved = localStorage.getItem(ACTIVE_PROFILE_KEY);
+    return profiles.some(p => p.id === saved) ? saved! : profiles[0].id;
+};
+
+export const saveActiveProfileId = (id: string) => {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+};
+
+export const createProfile = (name: string): Profile => ({ id: generateId(), name: name.trim() });
+
+// localStorage key of a per-profile value, e.g. getProfileKey(STORAGE_KEY, id).
+export const getProfileKey = (base: string, profileId: string): string => {
+    return profileId === DEFAULT_PROFILE_ID ? base : `${base}:${profileId}`;
+};
+
+export const removeProfileData = (profileId: string) => {
+    localStorage.removeItem(getProfileKey(STORAGE_KEY, profileId));
+    localStorage.removeItem(getProfileKey(HISTORY_KEY, profileId));
+    localStorage.removeItem(getProfileKey(SYNC_STATE_KEY, profileId));
+};
+
+// Marks the profile that first filled a row. Blank rows stay unmarked, so the input row
+// belongs to whoever types in it.
+export const stampCreator = (item: EquipmentItem, profileId: string): EquipmentItem => {
+    return item.createdBy || !isItemActive(item) ? item : { ...item, createdBy: profileId };
+};
+
+// Stamps the items an edit fills in with the active profile.
+export const stampAction = (action: Action, profileId: string): Action => {
+    switch (action.type) {
+        case 'UPDATE_ITEM': return { ...action, payload: { ...action.payload, item: stampCreator(action.payload.item, profileId) } };
+        case 'ADD_ITEMS': return { ...action, payload: { ...action.payload, entries: action.payload.entries.map(e => ({ ...e, item: stampCreator(e.item, profileId) })) } };
+        case 'UPDATE_ITEMS': return { ...action, payload: { ...action.payload, entries: action.payload.entries.map(e => ({ ...e, item: stampCreator(e.item, profileId) })) } };
+        default: return action;
+    }
+};
+
+// --- PIN ---
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const hashPin = async (pin: string, salt: string): Promise<string> => {
+    return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(salt + pin)));
+};
+
+export const createPin = async (pin: string): Promise<NonNullable<Profile['pin']>> => {
+    const salt = toHex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+    return { salt, hash: await hashPin(pin, salt) };
+};
+
+export const verifyPin = async (profile: Profile, pin: string): Promise<boolean> => {
+    if (!profile.pin) return true;
+    return (await hashPin(pin, profile.pin.salt)) === profile.pin.hash;
+};
+
+// --- PHOTOS ---
+
+// The photo store is shared, so the orphan cleanup must keep what the other profiles reference.
+// Returns null when a profile's saved data can't be read; nothing should be pruned then.
+export const collectOtherProfilesPhotoIds = async (profiles: Profile[], activeId: string): Promise<Set<string> | null> => {
+    const ids = new Set<string>();
+    try {
+        for (const profile of profiles.filter(p => p.id !== activeId)) {
+            const raw = JSON.parse(localStorage.getItem(getProfileKey(STORAGE_KEY, profile.id)) || 'null');
+            const payload = raw && typeof raw.version === 'number' ? raw.data : raw;
+            const data: AppData = isEncryptedText(payload) ? JSON.parse(await openText(payload)) : payload;
+            if (data) collectPhotoIds(data).forEach(id => ids.add(id));
+            const history = JSON.parse(await openText(localStorage.getItem(getProfileKey(HISTORY_KEY, profile.id)) || 'null'));
+            if (history) collectHistoryPhotoIds(history).forEach(id => ids.add(id));
+        }
+    } catch (e) {
+        console.error(e);
+        return null;
+    }
+    return ids;
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CATEGORIES } from '../constants';
+import { CategoryConfig, EquipmentItem } from '../types';
+import { getCategoryFields, validateItem } from './fields';
+import { applyScan, describeScan, parseScan } from './scanner';
+
+// Sample decoded strings run through the parse rules of DEFAULT_CATEGORIES.
+
+const category = (id: string) => DEFAULT_CATEGORIES.find(c => c.id === id) as CategoryConfig;
+const blank = (): EquipmentItem => ({ id: 'x', qt: '', contract: '', serial: '', photos: [] });
+
+const ICCID = '8955100000000001236'; // valid Luhn check digit
+
+describe('parseScan with the default rules', () => {
+    it.each([
+        ['SN:ABC123;MAC:AA:BB:CC:DD:EE:FF', { serial: 'ABC123', mac: 'AA:BB:CC:DD:EE:FF' }],
+        ['S/N = XYZ-9 | MAC=aabbccddeeff', { serial: 'XYZ-9', mac: 'aabbccddeeff' }],
+        ['serial: 77,mac:11-22-33-44-55-66', { serial: '77', mac: '11-22-33-44-55-66' }],
+        ['MAC:AA:BB:CC:DD:EE:FF', { mac: 'AA:BB:CC:DD:EE:FF' }],
+    ])('CAMERA reads %j', (raw, values) => {
+        const scan = parseScan(raw, category('CAMERA'));
+        expect(scan.values).toEqual(values);
+        expect(scan.fallback).toBe(false);
+    });
+
+    it('CHIP reads the ICCID on its own and next to a serial', () => {
+        expect(parseScan(ICCID, category('CHIP')).values).toEqual({ iccid: ICCID });
+        expect(parseScan(`SN:CH1 ICCID ${ICCID}`, category('CHIP')).values).toEqual({ serial: 'CH1', iccid: ICCID });
+    });
+
+    it('does not take a number outside the ICCID range as one', () => {
+        const scan = parseScan('8955', category('CHIP'));
+        expect(scan.values).toEqual({ serial: '8955' });
+        expect(scan.fallback).toBe(true);
+    });
+
+    it.each(['BOX', 'BOX SOUND', 'CONTROLE REMOTO', 'CAMERA', 'CHIP'])('a plain Code 128 value goes to the serial in %s', id => {
+        const scan = parseScan('  ZTE4A1B2C3  ', category(id));
+        expect(scan).toEqual({ raw: 'ZTE4A1B2C3', values: { serial: 'ZTE4A1B2C3' }, matchedRules: [], fallback: true });
+    });
+
+    it('falls back to the raw code when no rule matches', () => {
+        const scan = parseScan('MAC:AA:BB:CC:DD:EE:FF', category('BOX'));
+        expect(scan.fallback).toBe(true);
+        expect(scan.values).toEqual({ serial: 'MAC:AA:BB:CC:DD:EE:FF' });
+    });
+
+    it('ignores rules for fields the category does not have', () => {
+        const config: CategoryConfig = { id: 'X', name: 'X', parseRules: [{ id: 'r', field: 'mac', pattern: 'MAC:(\\w+)' }] };
+        expect(parseScan('MAC:AB', config).values).toEqual({ serial: 'MAC:AB' });
+    });
+
+    it('skips rules with an invalid pattern', () => {
+        const config: CategoryConfig = { id: 'X', name: 'X', parseRules: [{ id: 'r', field: 'serial', pattern: '(' }] };
+        expect(parseScan('ABC', config).fallback).toBe(true);
+    });
+});
+
+describe('applyScan', () => {
+    it('fills the base and custom fields of the category', () => {
+        const config = category('CAMERA');
+        const item = applyScan(blank(), parseScan('SN:ABC123;MAC:AA:BB:CC:DD:EE:FF', config), config);
+        expect(item).toMatchObject({ serial: 'ABC123', extra: { mac: 'AA:BB:CC:DD:EE:FF' } });
+        expect(validateItem(item, getCategoryFields(config))).toEqual({});
+        expect(describeScan(parseScan('SN:ABC123;MAC:AA:BB:CC:DD:EE:FF', config), config)).toBe('Serial: ABC123 · MAC: AA:BB:CC:DD:EE:FF');
+    });
+
+    it('produces an ICCID that passes the CHIP validation', () => {
+        const config = category('CHIP');
+        const item = applyScan(blank(), parseScan(ICCID, config), config);
+        expect(item.extra).toEqual({ iccid: ICCID });
+        expect(validateItem(item, getCategoryFields(config))).toEqual({});
+    });
+
+    it('keeps the fields the scan did not read', () => {
+        const config = category('CAMERA');
+        const item = applyScan({ ...blank(), contract: 'C1', extra: { mac: 'AA:BB:CC:DD:EE:FF' } }, parseScan('ZTE1', config), config);
+        expect(item).toMatchObject({ contract: 'C1', serial: 'ZTE1', extra: { mac: 'AA:BB:CC:DD:EE:FF' } });
+    });
+});
@@ -0,0 +1,130 @@
+import { Html5Qrcode, Html5QrcodeSupportedFormats } from 'html5-qrcode';
+import { CategoryConfig, EquipmentItem, ParseRule } from '../types';
+import { generateId } from './appData';
+import { getCategoryFields, setFieldValue } from './fields';
+
+// Scanner preferences (accepted symbologies) and the per-category parse rules that turn a
+// decoded string into field values.
+
+export const SCANNER_SETTINGS_KEY = 'scannerSettings';
+
+export type ScannerFormat = keyof typeof Html5QrcodeSupportedFormats;
+
+export interface ScannerSettings {
+    formats: ScannerFormat[];
+}
+
+export const SCANNER_FORMATS: { format: ScannerFormat; label: string }[] = [
+    { format: 'QR_CODE', label: 'QR Code' },
+    { format: 'DATA_MATRIX', label: 'DataMatrix' },
+    { format: 'CODE_128', label: 'Code 128' },
+    { format: 'CODE_39', label: 'Code 39' },
+    { format: 'CODE_93', label: 'Code 93' },
+    { format: 'EAN_13', label: 'EAN-13' },
+    { format: 'EAN_8', label: 'EAN-8' },
+    { format: 'UPC_A', label: 'UPC-A' },
+    { format: 'ITF', label: 'ITF' },
+    { format: 'PDF_417', label: 'PDF417' },
+    { format: 'AZTEC', label: 'Aztec' },
+];
+
+export const DEFAULT_SCANNER_SETTINGS: ScannerSettings = {
+    formats: ['QR_CODE', 'DATA_MATRIX', 'CODE_128', 'CODE_39', 'EAN_13'],
+};
+
+export const loadScannerSettings = (): ScannerSettings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(SCANNER_SETTINGS_KEY) || 'null');
+        const formats = Array.isArray(saved?.formats) ? saved.formats.filter((f: unknown) => SCANNER_FORMATS.some(s => s.format === f)) : [];
+        if (formats.length > 0) return { formats };
+    } catch (e) {
+        console.error(e);
+    }
+    return DEFAULT_SCANNER_SETTINGS;
+};
+
+export const saveScannerSettings = (settings: ScannerSettings) => {
+    localStorage.setItem(SCANNER_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const toSupportedFormats = (settings: ScannerSettings): Html5QrcodeSupportedFormats[] => {
+    return settings.formats.map(format => Html5QrcodeSupportedFormats[format]);
+};
+
+// Decodes a still image (picked file or stored photo). Html5Qrcode needs a mounted element
+// even without rendering the image, so a hidden one is created per call. Resolves to null
+// when no code is found.
+export const decodeImage = async (blob: Blob, settings: ScannerSettings): Promise<string | null> => {
+    const element = document.createElement('div');
+    element.id = `decode_${generateId()}`;
+    element.style.display = 'none';
+    document.body.appendChild(element);
+    try {
+        const reader = new Html5Qrcode(element.id, { formatsToSupport: toSupportedFormats(settings), verbose: false });
+        const file = blob instanceof File ? blob : new File([blob], 'foto.jpg', { type: blob.type || 'image/jpeg' });
+        const text = await reader.scanFile(file, false);
+        reader.clear();
+        return text;
+    } catch {
+        return null;
+    } finally {
+        element.remove();
+    }
+};
+
+// --- PARSE RULES ---
+
+export const createParseRule = (field: string): ParseRule => ({ id: `r_${generateId()}`, field, pattern: '' });
+
+export interface ParsedScan {
+    raw: string;
+    values: Record<string, string>; // by field id
+    matchedRules: string[]; // ParseRule ids
+    fallback: boolean; // no rule matched, the raw code went to the serial
+}
+
+const compile = (pattern: string): RegExp | null => {
+    if (!pattern) return null;
+    try {
+        return new RegExp(pattern, 'i');
+    } catch {
+        return null;
+    }
+};
+
+// Rules run in order; the first rule that matches a field wins.
+export const parseScan = (raw: string, category: CategoryConfig | undefined): ParsedScan => {
+    const text = raw.trim();
+    const values: Record<string, string> = {};
+    const matchedRules: string[] = [];
+    const fieldIds = getCategoryFields(category).map(f => f.id);
+
+    (category?.parseRules || []).forEach(rule => {
+        if (values[rule.field] !== undefined || !fieldIds.includes(rule.field)) return;
+        const match = compile(rule.pattern)?.exec(text);
+        if (!match) return;
+        const value = (match.groups?.value ?? match[1] ?? match[0]).trim();
+        if (!value) return;
+        values[rule.field] = value;
+        matchedRules.push(rule.id);
+    });
+
+    const fallback = matchedRules.length === 0;
+    if (fallback) values.serial = text;
+    return { raw: text, values, matchedRules, fallback };
+};
+
+export const applyScan = (item: EquipmentItem, scan: ParsedScan, category: CategoryConfig | undefined): EquipmentItem => {
+    return getCategoryFields(category).reduce((acc, field) => {
+        const value = scan.values[field.id];
+        return value !== undefined ? setFieldValue(acc, field, value) : acc;
+    }, item);
+};
+
+// "Serial: 123 · MAC: AA:BB:..." for confirmations and the batch list.
+export const describeScan = (scan: ParsedScan, category: CategoryConfig | undefined): string => {
+    return getCategoryFields(category)
+        .filter(field => scan.values[field.id])
+        .map(field => `${field.label}: ${scan.values[field.id]}`)
+        .join(' · ');
+};
@@ -0,0 +1,183 @@
+import { AppData, CategoryConfig, DailyData, DatedItem, EquipmentCategory } from '../types';
+import { isItemActive } from './appData';
+import { getCustomFields } from './fields';
+import { DateRange, normalizeRange } from './dateRange';
+
+// Search over every active item. Entries are built per day and cached by day object, so
+// after an edit only that day is indexed again (the reducer keeps the others' identity).
+// Matching is case and accent insensitive, tolerates small typos and falls back to
+// "all characters in order" for partial serials.
+
+export interface SearchValue {
+    field: string; // field id: serial, contract or a custom field
+    value: string;
+    normalized: string; // same length as value
+}
+
+export interface SearchEntry extends DatedItem {
+    values: SearchValue[];
+}
+
+export type MatchKind = 'exact' | 'typo' | 'partial';
+
+export interface FieldMatch {
+    field: string;
+    value: string;
+    indices: number[]; // matched characters, for highlighting
+}
+
+export interface SearchHit extends DatedItem {
+    score: number;
+    kind: MatchKind | null; // null when listing by filters only
+    matches: FieldMatch[];
+}
+
+export interface SearchFilters {
+    categories: EquipmentCategory[]; // empty: all
+    range: DateRange | null;
+    hasPhotos: boolean;
+}
+
+export const EMPTY_FILTERS: SearchFilters = { categories: [], range: null, hasPhotos: false };
+
+const MAX_RESULTS = 200;
+
+// Character by character so indices in the normalised string map back to the original.
+export const normalizeForSearch = (value: string): string => {
+    return Array.from(value).map(c => (c.normalize('NFD').replace(/[\u0300-\u036f]/g, '') || c)[0].toLowerCase()).join('');
+};
+
+const dayCache = new WeakMap<DailyData, SearchEntry[]>();
+
+const indexDay = (date: string, day: DailyData): SearchEntry[] => {
+    let entries = dayCache.get(day);
+    if (entries) return entries;
+    entries = [];
+    Object.entries(day).forEach(([category, items]) => {
+        items.filter(isItemActive).forEach(item => {
+            const values = [
+                { field: 'serial', value: item.serial },
+                { field: 'contract', value: item.contract },
+                ...Object.entries(item.extra || {}).map(([field, value]) => ({ field, value })),
+            ].filter(v => v.value && v.value.trim()).map(v => ({ ...v, normalized: normalizeForSearch(v.value) }));
+            entries!.push({ date, category, item, values });
+        });
+    });
+    dayCache.set(day, entries);
+    return entries;
+};
+
+export const buildSearchIndex = (appData: AppData): SearchEntry[] => {
+    return Object.keys(appData).sort().reverse().flatMap(date => indexDay(date, appData[date]));
+};
+
+// --- MATCHING ---
+
+const range = (start: number, length: number) => Array.from({ length }, (_, i) => start + i);
+
+// Smallest edit distance between the query and any substring of the text (Sellers), with
+// the end position of the best match.
+const approximateMatch = (query: string, text: string): { distance: number; end: number } => {
+    let prev = new Array(query.length + 1).fill(0).map((_, i) => i);
+    let best = { distance: prev[query.length], end: 0 };
+    for (let j = 1; j <= text.length; j++) {
+        const curr = [0];
+        for (let i = 1; i <= query.length; i++) {
+            const cost = query[i - 1] === text[j - 1] ? 0 : 1;
+            curr[i] = Math.min(prev[i] + 1, curr[i - 1] + 1, prev[i - 1] + cost);
+        }
+        if (curr[query.length] < best.distance) best = { distance: curr[query.length], end: j };
+        prev = curr;
+    }
+    return best;
+};
+
+const subsequence = (query: string, text: string): number[] | null => {
+    const indices: number[] = [];
+    let from = 0;
+    for (const c of query) {
+        const index = text.indexOf(c, from);
+        if (index === -1) return null;
+        indices.push(index);
+        from = index + 1;
+    }
+    // Characters spread over the whole value are noise, not a partial match.
+    return indices[indices.length - 1] - indices[0] < query.length * 2 ? indices : null;
+};
+
+const allowedTypos = (query: string) => query.length >= 8 ? 2 : query.length >= 4 ? 1 : 0;
+
+export const matchValue = (query: string, value: SearchValue): { kind: MatchKind; score: number; indices: number[] } | null => {
+    const text = value.normalized;
+    const exact = text.indexOf(query);
+    if (exact > -1) {
+        // Whole-value and prefix matches first.
+        const score = 100 + (text.length === query.length ? 20 : exact === 0 ? 10 : 0);
+        return { kind: 'exact', score, indices: range(exact, query.length) };
+    }
+    const typos = allowedTypos(query);
+    if (typos > 0) {
+        const { distance, end } = approximateMatch(query, text);
+        if (distance <= typos) {
+            const start = Math.max(0, end - query.length);
+            return { kind: 'typo', score: 60 - distance * 10, indices: range(start, end - start) };
+        }
+    }
+    if (query.length >= 3) {
+        const indices = subsequence(query, text);
+        if (indices) return { kind: 'partial', score: 30, indices };
+    }
+    return null;
+};
+
+const passesFilters = (entry: SearchEntry, filters: SearchFilters) => {
+    if (filters.categories.length > 0 && !filters.categories.includes(entry.category)) return false;
+    if (filters.hasPhotos && entry.item.photos.length === 0) return false;
+    if (filters.range) {
+        const { start, end } = normalizeRange(filters.range);
+        if (entry.date < start || entry.date > end) return false;
+    }
+    return true;
+};
+
+export const hasActiveFilters = (filters: SearchFilters) => filters.categories.length > 0 || !!filters.range || filters.hasPhotos;
+
+// Best matches first, newest first among equals. An empty query lists everything the
+// filters let through.
+export const searchItems = (index: SearchEntry[], rawQuery: string, filters: SearchFilters): SearchHit[] => {
+    const query = normalizeForSearch(rawQuery.trim());
+    if (!query && !hasActiveFilters(filters)) return [];
+    const hits: SearchHit[] = [];
+    index.forEach(entry => {
+        if (!passesFilters(entry, filters)) return;
+        if (!query) {
+            hits.push({ date: entry.date, category: entry.category, item: entry.item, score: 0, kind: null, matches: [] });
+            return;
+        }
+        let best: { kind: MatchKind; score: number } | null = null;
+        const matches: FieldMatch[] = [];
+        entry.values.forEach(value => {
+            const match = matchValue(query, value);
+            if (!match) return;
+            matches.push({ field: value.field, value: value.value, indices: match.indices });
+            if (!best || match.score > best.score) best = match;
+        });
+        if (best) hits.push({ date: entry.date, category: entry.category, item: entry.item, score: best!.score, kind: best!.kind, matches });
+    });
+    return hits
+        .sort((a, b) => b.score - a.score || b.date.localeCompare(a.date))
+        .slice(0, MAX_RESULTS);
+};
+
+export const getFieldLabel = (field: string, category: CategoryConfig | undefined): string => {
+    if (field === 'serial') return 'SN';
+    if (field === 'contract') return 'CT';
+    return getCustomFields(category).find(f => f.id === field)?.label || field;
+};
+
+// Hits grouped by date, newest date first, keeping the score order inside each day.
+export const groupHitsByDate = (hits: SearchHit[]): { date: string; hits: SearchHit[] }[] => {
+    const groups = new Map<string, SearchHit[]>();
+    hits.forEach(hit => groups.set(hit.date, [...(groups.get(hit.date) || []), hit]));
+    return Array.from(groups.entries()).sort((a, b) => b[0].localeCompare(a[0])).map(([date, hits]) => ({ date, hits }));
+};
@@ -0,0 +1,31 @@
+import { AppData, DailyData, EquipmentItem } from '../types';
+import { sumMonthQuantity, sumQuantity } from './totals';
+
+// Totals for SummaryFooter (rules in utils/totals.ts), cached per list / day object. The reducer keeps the identity of
+// everything an action didn't touch, so after an edit only the edited list is summed again.
+
+const listTotals = new WeakMap<EquipmentItem[], number>();
+const dayTotals = new WeakMap<DailyData, number>();
+
+export const selectListQuantity = (items: EquipmentItem[] | undefined): number => {
+    if (!items) return 0;
+    let total = listTotals.get(items);
+    if (total === undefined) {
+        total = sumQuantity(items);
+        listTotals.set(items, total);
+    }
+    return total;
+};
+
+export const selectDayQuantity = (day: DailyData | undefined): number => {
+    if (!day) return 0;
+    let total = dayTotals.get(day);
+    if (total === undefined) {
+        total = Object.values(day).reduce((sum, items) => sum + selectListQuantity(items), 0);
+        dayTotals.set(day, total);
+    }
+    return total;
+};
+
+// Month total ("SOMA TOTAL") for the month containing `date` (YYYY-MM-DD).
+export const selectMonthQuantity = (appData: AppData, date: string): number => sumMonthQuantity(appData, date, selectDayQuantity);
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { AppData, EquipmentItem } from '../types';
+import { dataReducer } from './appReducer';
+import { buildSerialIndex, findSerialConflicts, getSerialHistory } from './serialIndex';
+
+const item = (id: string, serial: string): EquipmentItem => ({ id, qt: '', contract: `C-${id}`, serial, photos: [] });
+
+// The whole index rebuilt from scratch, as buildSerialIndex did before it merged per day.
+const rebuild = (appData: AppData) => {
+    const index = new Map<string, string[]>();
+    Object.keys(appData).sort().forEach(date => Object.values(appData[date]).forEach(items => items.forEach(i => {
+        const key = i.serial.trim().toUpperCase();
+        if (key) index.set(key, [...(index.get(key) || []), `${date}/${i.id}`]);
+    })));
+    return index;
+};
+
+const flatten = (appData: AppData) => new Map([...buildSerialIndex(appData)].map(([key, entries]) => [key, entries.map(e => `${e.date}/${e.item.id}`)]));
+
+const makeData = (): AppData => ({
+    '2026-01-03': { BOX: [item('c1', 'S1')], CHIP: [item('c2', 'S2')] },
+    '2026-01-01': { BOX: [item('a1', 'S1'), item('a2', ' s2 ')], CHIP: [item('a3', 'S1')] },
+    '2026-01-02': { BOX: [item('b1', 'S3')] },
+});
+
+describe('buildSerialIndex', () => {
+    it('lists occurrences in date order', () => {
+        const data = makeData();
+        expect(flatten(data)).toEqual(rebuild(data));
+        expect(getSerialHistory(buildSerialIndex(data), 's1')?.occurrences.map(o => o.kind)).toEqual(['first', 'sameDay', 'reappearance']);
+    });
+
+    it('returns the same index for the same data', () => {
+        const data = makeData();
+        expect(buildSerialIndex(data)).toBe(buildSerialIndex(data));
+    });
+
+    it('matches a full rebuild after edits, additions and removals', () => {
+        let data = makeData();
+        buildSerialIndex(data);
+        const steps: ((d: AppData) => AppData)[] = [
+            d => dataReducer(d, { type: 'UPDATE_ITEM', payload: { date: '2026-01-02', category: 'BOX', item: item('b1', 'S1') } }),
+            d => dataReducer(d, { type: 'ADD_ITEMS', payload: { date: '2026-01-04', entries: [{ category: 'BOX', item: item('d1', 'S2') }] } }),
+            d => dataReducer(d, { type: 'DELETE_ITEMS', payload: { date: '2026-01-01', selection: { BOX: ['a1', 'a2'] } } }),
+            d => dataReducer(d, { type: 'UPDATE_ITEM', payload: { date: '2026-01-03', category: 'CHIP', item: item('c2', '') } }),
+            d => { const { ['2026-01-03']: _removed, ...rest } = d; return rest; },
+            () => makeData(),
+        ];
+        steps.forEach(step => {
+            data = step(data);
+            expect(flatten(data)).toEqual(rebuild(data));
+        });
+    });
+
+    it('keeps the lists of untouched serials', () => {
+        const data = makeData();
+        const before = buildSerialIndex(data);
+        const next = dataReducer(data, { type: 'UPDATE_ITEM', payload: { date: '2026-01-02', category: 'BOX', item: item('b1', 'S4') } });
+        const after = buildSerialIndex(next);
+        expect(after).not.toBe(before);
+        expect(after.get('S1')).toBe(before.get('S1'));
+        expect(after.has('S3')).toBe(false);
+        expect(findSerialConflicts(after, '2026-01-02', item('x', 's4')).map(c => c.occurrence.item.id)).toEqual(['b1']);
+    });
+});
@@ -0,0 +1,139 @@
+import { AppData, DailyData, DatedItem, EquipmentCategory, EquipmentItem } from '../types';
+import { isItemActive } from './appData';
+
+// Index of every active item by normalised serial, built from all of AppData.
+// Occurrences are kept in date order. Each day's serials are cached by day object and the
+// index of the previous call is kept, so after an edit only the days the reducer replaced
+// are merged again.
+
+export type SerialIndex = Map<string, DatedItem[]>;
+
+export type OccurrenceKind = 'first' | 'sameDay' | 'reappearance';
+
+export interface SerialOccurrence extends DatedItem {
+    kind: OccurrenceKind;
+}
+
+export interface SerialHistory {
+    serial: string;
+    occurrences: SerialOccurrence[];
+    firstSeen: string;
+    lastSeen: string;
+    contracts: string[];
+    reappearances: number;
+}
+
+export const normalizeSerial = (serial: string): string => serial.trim().toUpperCase();
+
+const dayCache = new WeakMap<DailyData, SerialIndex>();
+
+const indexDay = (date: string, day: DailyData | undefined): SerialIndex => {
+    if (!day) return new Map();
+    let entries = dayCache.get(day);
+    if (entries) return entries;
+    entries = new Map();
+    Object.entries(day).forEach(([category, items]) => {
+        items.forEach(item => {
+            const key = normalizeSerial(item.serial || '');
+            if (!key || !isItemActive(item)) return;
+            const list = entries!.get(key);
+            if (list) list.push({ date, category, item });
+            else entries!.set(key, [{ date, category, item }]);
+        });
+    });
+    dayCache.set(day, entries);
+    return entries;
+};
+
+let previous: { appData: AppData; index: SerialIndex } = { appData: {}, index: new Map() };
+
+export const buildSerialIndex = (appData: AppData): SerialIndex => {
+    const { appData: before, index: beforeIndex } = previous;
+    if (appData === before) return beforeIndex;
+
+    const changedDates = new Set([...Object.keys(before), ...Object.keys(appData)].filter(date => before[date] !== appData[date]));
+    if (changedDates.size === 0) {
+        previous = { appData, index: beforeIndex };
+        return beforeIndex;
+    }
+
+    const index: SerialIndex = new Map(beforeIndex);
+    Array.from(changedDates).sort().forEach(date => {
+        const removed = indexDay(date, before[date]);
+        const added = indexDay(date, appData[date]);
+        new Set([...removed.keys(), ...added.keys()]).forEach(key => {
+            const others = (index.get(key) || []).filter(entry => entry.date !== date);
+            const entries = added.get(key) || [];
+            const at = others.findIndex(entry => entry.date > date);
+            const list = at === -1 ? [...others, ...entries] : [...others.slice(0, at), ...entries, ...others.slice(at)];
+            if (list.length > 0) index.set(key, list);
+            else index.delete(key);
+        });
+    });
+
+    previous = { appData, index };
+    return index;
+};
+
+// A serial showing up again on a later day means the equipment came back (return) or
+// was installed again (reinstallation).
+export const getSerialHistory = (index: SerialIndex, serial: string): SerialHistory | null => {
+    const entries = index.get(normalizeSerial(serial));
+    if (!entries || entries.length === 0) return null;
+
+    const firstSeen = entries[0].date;
+    const occurrences: SerialOccurrence[] = entries.map((entry, i) => ({
+        ...entry,
+        kind: i === 0 ? 'first' : entry.date === entries[i - 1].date ? 'sameDay' : 'reappearance',
+    }));
+    const contracts = Array.from(new Set(entries.map(e => e.item.contract.trim()).filter(Boolean)));
+
+    return {
+        serial: entries[0].item.serial.trim(),
+        occurrences,
+        firstSeen,
+        lastSeen: entries[entries.length - 1].date,
+        contracts,
+        reappearances: occurrences.filter(o => o.kind === 'reappearance').length,
+    };
+};
+
+// --- DUPLICATES ---
+
+export interface SerialConflict {
+    occurrence: DatedItem;
+    sameDay: boolean;
+}
+
+export interface DayDuplicate {
+    category: EquipmentCategory;
+    item: EquipmentItem;
+    conflicts: SerialConflict[];
+    acknowledged: boolean;
+}
+
+// Other entries (any day, any category) carrying the same serial as `item`.
+export const findSerialConflicts = (index: SerialIndex, date: string, item: EquipmentItem): SerialConflict[] => {
+    const key = normalizeSerial(item.serial || '');
+    if (!key) return [];
+    return (index.get(key) || [])
+        .filter(o => o.item.id !== item.id)
+        .map(o => ({ occurrence: o, sameDay: o.date === date }));
+};
+
+// A duplicate is resolved once the user confirms it for the serial currently typed.
+export const isDuplicateAcknowledged = (item: EquipmentItem): boolean => {
+    return !!item.duplicateAck && item.duplicateAck === normalizeSerial(item.serial || '');
+};
+
+export const findDayDuplicates = (index: SerialIndex, dailyData: DailyData | undefined, date: string): DayDuplicate[] => {
+    if (!dailyData) return [];
+    const result: DayDuplicate[] = [];
+    Object.entries(dailyData).forEach(([category, items]) => {
+        items.forEach(item => {
+            const conflicts = findSerialConflicts(index, date, item);
+            if (conflicts.length > 0) result.push({ category, item, conflicts, acknowledged: isDuplicateAcknowledged(item) });
+        });
+    });
+    return result;
+};
@@ -0,0 +1,45 @@
+// Registers the service worker emitted by the build (none exists in dev) and reports when a
+// new version has been downloaded. Calling the returned `apply` activates it and reloads.
+
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+export const registerServiceWorker = (onUpdateReady: (apply: () => void) => void) => {
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+    // The first install also changes the controller (the worker claims the page), and must
+    // not reload while the technician is typing; only a confirmed update does.
+    let accepted = false;
+    let reloading = false;
+
+    const notify = (worker: ServiceWorker) => {
+        onUpdateReady(() => {
+            accepted = true;
+            worker.postMessage({ type: 'SKIP_WAITING' });
+        });
+    };
+
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+        if (!accepted || reloading) return;
+        reloading = true;
+        window.location.reload();
+    });
+
+    navigator.serviceWorker.register('/sw.js').then(registration => {
+        // Only an update if a previous version already controls the page; the first install
+        // just makes the app available offline.
+        if (registration.waiting && navigator.serviceWorker.controller) notify(registration.waiting);
+
+        registration.addEventListener('updatefound', () => {
+            const worker = registration.installing;
+            worker?.addEventListener('statechange', () => {
+                if (worker.state === 'installed' && navigator.serviceWorker.controller) notify(worker);
+            });
+        });
+
+        // Installed apps can stay open for days, so look for deploys periodically too.
+        setInterval(() => registration.update().catch(() => {}), UPDATE_CHECK_INTERVAL_MS);
+        document.addEventListener('visibilitychange', () => {
+            if (document.visibilityState === 'visible') registration.update().catch(() => {});
+        });
+    }).catch(e => console.error(e));
+};
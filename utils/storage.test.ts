@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CURRENT_VERSION, MIGRATIONS, STORAGE_KEY, loadAppData, normalizeLegacyData, runMigrations, saveAppData, validateAppData } from './storage';
+
+// IndexedDB and localStorage don't exist in Node; both are replaced by Maps.
+const idb = vi.hoisted(() => new Map<string, Map<string, unknown>>());
+
+vi.mock('./db', () => ({
+    PHOTO_STORE: 'photos',
+    QUARANTINE_STORE: 'quarantine',
+    runRequest: async (storeName: string, _mode: string, fn: (store: any) => { result: unknown }) => {
+        if (!idb.has(storeName)) idb.set(storeName, new Map());
+        const records = idb.get(storeName)!;
+        return fn({
+            put: (value: unknown, key: string) => { records.set(key, value); return { result: key }; },
+            get: (key: string) => ({ result: records.get(key) }),
+            getAll: () => ({ result: [...records.values()] }),
+            getAllKeys: () => ({ result: [...records.keys()] }),
+            delete: (key: string) => { records.delete(key); return { result: undefined }; },
+        }).result;
+    },
+}));
+
+const memory = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+    getItem: (key: string) => memory.get(key) ?? null,
+    setItem: (key: string, value: string) => { memory.set(key, value); },
+    removeItem: (key: string) => { memory.delete(key); },
+});
+
+const PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+
+const quarantined = () => [...(idb.get('quarantine')?.values() || [])] as { reason: string; raw: string }[];
+
+beforeEach(() => {
+    memory.clear();
+    idb.clear();
+});
+
+describe('v0 -> v1: normalizeLegacyData', () => {
+    it('drops keys that are not dates and days that are not objects', () => {
+        const data = normalizeLegacyData({ '2026-01-01': {}, 'ontem': {}, '2026-1-2': {}, '2026-01-03': [] });
+        expect(Object.keys(data)).toEqual(['2026-01-01']);
+    });
+
+    it('coerces fields to strings', () => {
+        const data = normalizeLegacyData({ '2026-01-01': { BOX: [{ id: 'a', qt: 2, contract: 123, serial: null, photos: ['p1', 7] }] } });
+        expect(data['2026-01-01'].BOX[0]).toEqual({ id: 'a', qt: '2', contract: '123', serial: '', photos: ['p1'] });
+    });
+
+    it('gives items without an id a new one', () => {
+        const data = normalizeLegacyData({ '2026-01-01': { BOX: [{ serial: 'S1' }] } });
+        expect(data['2026-01-01'].BOX[0].id).toMatch(/\w+/);
+    });
+
+    it('fills missing, empty and malformed lists with an input row', () => {
+        const data = normalizeLegacyData({ '2026-01-01': { BOX: [], CHIP: 'x', CAMERA: [null, 3, 'a'] } });
+        const day = data['2026-01-01'];
+        expect(Object.keys(day).sort()).toEqual(['BOX', 'BOX SOUND', 'CAMERA', 'CHIP', 'CONTROLE REMOTO']);
+        Object.values(day).forEach(items => {
+            expect(items).toHaveLength(1);
+            expect(items[0].serial).toBe('');
+        });
+    });
+
+    it('rejects data that is not an object', () => {
+        expect(() => normalizeLegacyData([])).toThrow();
+        expect(() => normalizeLegacyData('x')).toThrow();
+    });
+});
+
+describe('v1 -> v2: inline photos', () => {
+    it('moves base64 photos to the photo store and keeps stored IDs', async () => {
+        const v1 = { '2026-01-01': { BOX: [{ id: 'a', qt: '', contract: '', serial: 'S', photos: [PIXEL, 'photo-kept'] }] } };
+        const data = await runMigrations(v1, 1);
+        const photos = data['2026-01-01'].BOX[0].photos;
+        expect(photos).toHaveLength(2);
+        expect(photos[0].startsWith('data:')).toBe(false);
+        expect(photos[1]).toBe('photo-kept');
+        expect(idb.get('photos')?.has(photos[0])).toBe(true);
+    });
+
+    it('leaves items without inline photos untouched', async () => {
+        const item = { id: 'a', qt: '', contract: '', serial: 'S', photos: ['p1'] };
+        const data = await runMigrations({ '2026-01-01': { BOX: [item] } }, 1);
+        expect(data['2026-01-01'].BOX[0]).toBe(item);
+    });
+});
+
+describe('runMigrations', () => {
+    it('runs every step after the stored version', async () => {
+        expect(CURRENT_VERSION).toBe(MIGRATIONS[MIGRATIONS.length - 1].version);
+        const data = await runMigrations({ '2026-01-01': { BOX: [{ id: 'a', serial: 'S', photos: [PIXEL] }] } }, 0);
+        expect(validateAppData(data)).toEqual([]);
+        expect(data['2026-01-01'].BOX[0].photos[0].startsWith('data:')).toBe(false);
+    });
+
+    it('names the step that failed', async () => {
+        await expect(runMigrations(42, 0)).rejects.toThrow('Migração v1 falhou');
+    });
+});
+
+describe('validateAppData', () => {
+    const valid = { id: 'a', qt: '', contract: '', serial: '', photos: [] };
+
+    it('accepts valid data', () => {
+        expect(validateAppData({ '2026-01-01': { BOX: [valid, { ...valid, id: 'b', extra: { iccid: '1' } }] } })).toEqual([]);
+    });
+
+    it.each([
+        ['not an object', []],
+        ['a bad date key', { '01/01/2026': { BOX: [valid] } }],
+        ['a day that is not an object', { '2026-01-01': [] }],
+        ['an empty list', { '2026-01-01': { BOX: [] } }],
+        ['a list that is not an array', { '2026-01-01': { BOX: {} } }],
+        ['a numeric qt', { '2026-01-01': { BOX: [{ ...valid, qt: 1 }] } }],
+        ['photos that are not strings', { '2026-01-01': { BOX: [{ ...valid, photos: [1] }] } }],
+        ['a non-string extra value', { '2026-01-01': { BOX: [{ ...valid, extra: { iccid: 1 } }] } }],
+        ['an item without id', { '2026-01-01': { BOX: [{ ...valid, id: undefined }] } }],
+    ])('rejects %s', (_label, data) => {
+        expect(validateAppData(data).length).toBeGreaterThan(0);
+    });
+});
+
+describe('loadAppData', () => {
+    it('returns empty data when nothing is saved', async () => {
+        expect(await loadAppData()).toEqual({ data: {} });
+    });
+
+    it('round-trips what saveAppData wrote', async () => {
+        const data = { '2026-01-01': { BOX: [{ id: 'a', qt: '', contract: 'C', serial: 'S', photos: [] }] } };
+        await saveAppData(data);
+        expect(await loadAppData()).toEqual({ data });
+    });
+
+    it('migrates a bare v0 payload', async () => {
+        memory.set(STORAGE_KEY, JSON.stringify({ '2026-01-01': { BOX: [{ id: 'a', serial: 'S' }] } }));
+        const result = await loadAppData();
+        expect(result.migratedFrom).toBe(0);
+        expect(result.data['2026-01-01'].BOX[0].serial).toBe('S');
+    });
+
+    it('quarantines corrupt JSON and removes it from localStorage', async () => {
+        memory.set(STORAGE_KEY, '{"2026-01-01": ');
+        const result = await loadAppData();
+        expect(result.data).toEqual({});
+        expect(result.quarantined?.reason).toBe('JSON inválido');
+        expect(memory.has(STORAGE_KEY)).toBe(false);
+        expect(quarantined()[0].raw).toBe('{"2026-01-01": ');
+    });
+
+    it('quarantines a payload from a newer version', async () => {
+        const raw = JSON.stringify({ version: CURRENT_VERSION + 1, savedAt: '', data: {} });
+        memory.set(STORAGE_KEY, raw);
+        const result = await loadAppData();
+        expect(result.quarantined?.reason).toContain(`Versão ${CURRENT_VERSION + 1}`);
+        expect(memory.has(STORAGE_KEY)).toBe(false);
+        expect(quarantined()[0].raw).toBe(raw);
+    });
+
+    it('quarantines data that fails validation', async () => {
+        memory.set(STORAGE_KEY, JSON.stringify({ version: CURRENT_VERSION, savedAt: '', data: { '2026-01-01': { BOX: [] } } }));
+        const result = await loadAppData();
+        expect(result.quarantined?.reason).toContain('lista de itens ausente');
+        expect(memory.has(STORAGE_KEY)).toBe(false);
+    });
+});
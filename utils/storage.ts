@@ -0,0 +1,225 @@
+import { AppData, DailyData, DefaultCategory, EquipmentItem } from '../types';
+import { createEmptyItem, generateId } from './appData';
+import { migrateInlinePhotos } from './photoStore';
+import { runRequest, QUARANTINE_STORE } from './db';
+import { isEncryptedText, openText, sealText } from './crypto';
+
+// AppData is persisted inside a versioned envelope:
+//   { version: number, savedAt: ISO string, data: AppData }
+// Payloads written before the envelope existed (a bare AppData object) are treated as version 0.
+// Each profile has its own key (see utils/profiles); STORAGE_KEY is the first profile's.
+// While the app lock encrypts data, `data` holds the encrypted JSON string instead (utils/crypto).
+
+export const STORAGE_KEY = 'equipmentData';
+
+export interface StorageEnvelope {
+    version: number;
+    savedAt: string;
+    data: AppData | string;
+}
+
+export interface Migration {
+    version: number;
+    description: string;
+    migrate: (data: any) => any | Promise<any>;
+}
+
+export interface QuarantineRecord {
+    id: string;
+    quarantinedAt: string;
+    reason: string;
+    raw: string;
+}
+
+export interface LoadResult {
+    data: AppData;
+    migratedFrom?: number;
+    quarantined?: { id: string; reason: string };
+}
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+const isPlainObject = (value: unknown): value is Record<string, any> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const toText = (value: unknown): string => {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' && isFinite(value)) return String(value);
+    return '';
+};
+
+// --- MIGRATIONS ---
+
+// v1: coerces legacy items to the EquipmentItem shape and guarantees every category
+// has at least one row (EquipmentSection always renders the last row as the input row).
+export const normalizeLegacyData = (data: unknown): AppData => {
+    if (!isPlainObject(data)) throw new Error('Formato de dados desconhecido');
+
+    const result: AppData = {};
+    Object.entries(data).forEach(([date, dailyData]) => {
+        if (!DATE_KEY.test(date) || !isPlainObject(dailyData)) return;
+
+        const newDaily: DailyData = {};
+        // v1 data only ever had the built-in categories
+        Object.values(DefaultCategory).forEach(category => {
+            const rawItems = Array.isArray(dailyData[category]) ? dailyData[category] : [];
+            const items: EquipmentItem[] = rawItems.filter(isPlainObject).map((raw: Record<string, any>) => ({
+                id: typeof raw.id === 'string' && raw.id ? raw.id : generateId(),
+                qt: toText(raw.qt),
+                contract: toText(raw.contract),
+                serial: toText(raw.serial),
+                photos: Array.isArray(raw.photos) ? raw.photos.filter((p: unknown) => typeof p === 'string') : [],
+            }));
+            if (items.length === 0) items.push(createEmptyItem());
+            newDaily[category] = items;
+        });
+        result[date] = newDaily;
+    });
+    return result;
+};
+
+export const MIGRATIONS: Migration[] = [
+    { version: 1, description: 'Normaliza itens e categorias', migrate: normalizeLegacyData },
+    { version: 2, description: 'Move fotos base64 para o IndexedDB', migrate: async (data: AppData) => (await migrateInlinePhotos(data)).data },
+];
+
+export const CURRENT_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const runMigrations = async (data: unknown, fromVersion: number): Promise<AppData> => {
+    let result: any = data;
+    for (const migration of MIGRATIONS) {
+        if (migration.version <= fromVersion) continue;
+        try {
+            result = await migration.migrate(result);
+        } catch (e) {
+            throw new Error(`Migração v${migration.version} falhou: ${e instanceof Error ? e.message : e}`);
+        }
+    }
+    return result;
+};
+
+// --- VALIDATION ---
+
+export const validateAppData = (data: unknown): string[] => {
+    const errors: string[] = [];
+    if (!isPlainObject(data)) return ['Dados não são um objeto'];
+
+    Object.entries(data).forEach(([date, dailyData]) => {
+        if (!DATE_KEY.test(date)) { errors.push(`Data inválida: ${date}`); return; }
+        if (!isPlainObject(dailyData)) { errors.push(`${date}: dia inválido`); return; }
+
+        Object.entries(dailyData).forEach(([category, items]) => {
+            if (!Array.isArray(items) || items.length === 0) {
+                errors.push(`${date}/${category}: lista de itens ausente`);
+                return;
+            }
+            items.forEach((item: any, i: number) => {
+                const valid = isPlainObject(item)
+                    && typeof item.id === 'string'
+                    && typeof item.qt === 'string'
+                    && typeof item.contract === 'string'
+                    && typeof item.serial === 'string'
+                    && Array.isArray(item.photos) && item.photos.every((p: unknown) => typeof p === 'string')
+                    && (item.extra === undefined || (isPlainObject(item.extra) && Object.values(item.extra).every(v => typeof v === 'string')));
+                if (!valid) errors.push(`${date}/${category}[${i}]: item inválido`);
+            });
+        });
+    });
+    return errors;
+};
+
+// --- QUARANTINE ---
+
+// Corrupt payloads are copied to IndexedDB (plenty of room, unlike localStorage) so the
+// app can start with empty data without destroying anything that might be recoverable.
+const quarantine = async (raw: string, reason: string, key: string): Promise<string> => {
+    const record: QuarantineRecord = {
+        id: `${key}-${Date.now()}`,
+        quarantinedAt: new Date().toISOString(),
+        reason,
+        raw,
+    };
+    try {
+        await runRequest(QUARANTINE_STORE, 'readwrite', store => store.put(record, record.id));
+    } catch (e) {
+        console.error(e);
+        localStorage.setItem(`${key}.quarantine`, raw);
+    }
+    localStorage.removeItem(key);
+    return record.id;
+};
+
+export const listQuarantine = async (): Promise<QuarantineRecord[]> => {
+    return runRequest<QuarantineRecord[]>(QUARANTINE_STORE, 'readonly', store => store.getAll());
+};
+
+export const deleteQuarantine = async (id: string): Promise<void> => {
+    await runRequest(QUARANTINE_STORE, 'readwrite', store => store.delete(id));
+};
+
+// --- LOAD / SAVE ---
+
+const isEnvelope = (value: unknown): value is { version: number; data: unknown } => {
+    return isPlainObject(value) && typeof value.version === 'number' && 'data' in value;
+};
+
+export const loadAppData = async (key = STORAGE_KEY): Promise<LoadResult> => {
+    const raw = localStorage.getItem(key);
+    if (!raw) return { data: {} };
+
+    const fail = async (reason: string): Promise<LoadResult> => {
+        console.error(`Dados salvos isolados: ${reason}`);
+        const id = await quarantine(raw, reason, key);
+        return { data: {}, quarantined: { id, reason } };
+    };
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        return fail('JSON inválido');
+    }
+
+    const version = isEnvelope(parsed) ? parsed.version : 0;
+    let payload = isEnvelope(parsed) ? parsed.data : parsed;
+    if (version > CURRENT_VERSION) return fail(`Versão ${version} é mais nova que a suportada (${CURRENT_VERSION})`);
+    if (isEncryptedText(payload)) {
+        try {
+            payload = JSON.parse(await openText(payload));
+        } catch (e) {
+            return fail(`Não foi possível descriptografar: ${e instanceof Error ? e.message : e}`);
+        }
+    }
+
+    let data: AppData;
+    try {
+        data = await runMigrations(payload, version);
+    } catch (e) {
+        return fail(e instanceof Error ? e.message : String(e));
+    }
+
+    const errors = validateAppData(data);
+    if (errors.length > 0) return fail(errors.slice(0, 3).join('; '));
+
+    return { data, migratedFrom: version < CURRENT_VERSION ? version : undefined };
+};
+
+const writeCounters: Record<string, number> = {};
+
+// Writes the value `produce` resolves to, unless a newer write to the same key started in the
+// meantime: encrypting is async, and a slow write must never land after a newer one.
+export const writeLatest = async (key: string, produce: () => Promise<string>): Promise<void> => {
+    const count = (writeCounters[key] = (writeCounters[key] || 0) + 1);
+    const value = await produce();
+    if (writeCounters[key] === count) localStorage.setItem(key, value);
+};
+
+// Rejects when the browser refuses the write (e.g. QuotaExceededError) so callers can tell the user.
+export const saveAppData = (data: AppData, key = STORAGE_KEY): Promise<void> => {
+    return writeLatest(key, async () => {
+        const sealed = await sealText(JSON.stringify(data));
+        const envelope: StorageEnvelope = { version: CURRENT_VERSION, savedAt: new Date().toISOString(), data: isEncryptedText(sealed) ? sealed : data };
+        return JSON.stringify(envelope);
+    });
+};
@@ -0,0 +1,196 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { AppData, EquipmentItem } from '../types';
+import { dataReducer } from './appReducer';
+import { diffData } from './history';
+import { ConflictMode, RemoteChange, SyncState, createRestAdapter, createSyncState, resolveConflict, runSync, scanData, toRemotePayload, trackChanges } from './sync';
+
+// Runs the sync against scripts/mock-sync-server.mjs, with two simulated devices sharing a token.
+
+let server: ChildProcess;
+let endpoint = '';
+
+beforeAll(async () => {
+    server = spawn(process.execPath, ['scripts/mock-sync-server.mjs'], { env: { ...process.env, PORT: '0' } });
+    endpoint = await new Promise<string>((resolve, reject) => {
+        server.stdout!.on('data', chunk => {
+            const match = String(chunk).match(/http:\/\/localhost:\d+/);
+            if (match) resolve(match[0]);
+        });
+        server.on('error', reject);
+    });
+});
+
+afterAll(() => {
+    server.kill();
+});
+
+beforeEach(async () => {
+    await fetch(`${endpoint}/_reset`, { method: 'POST' });
+});
+
+const DATE = '2026-10-19';
+const item = (id: string, serial: string, photos: string[] = []): EquipmentItem => ({ id, qt: '', contract: 'C1', serial, photos });
+const inputRow = (): EquipmentItem => ({ id: 'input', qt: '', contract: '', serial: '', photos: [] });
+
+// What useSync does for one profile: track edits, run the sync, apply what comes back.
+const createDevice = (conflictMode: ConflictMode) => {
+    let state: SyncState = createSyncState({ enabled: true, endpoint, token: 'team', conflictMode });
+    let data: AppData = {};
+    const store = { get: () => state, set: (next: SyncState) => { state = next; } };
+    const setData = (next: AppData, now = Date.now()) => {
+        state = trackChanges(state, diffData(data, next), now);
+        data = next;
+    };
+    const applyRemote = (changes: RemoteChange[]) => setData(dataReducer(data, { type: 'APPLY_REMOTE', payload: toRemotePayload(changes) }));
+    return {
+        get state() { return state; },
+        get data() { return data; },
+        edit: (items: EquipmentItem[], now: number) => setData({ ...data, [DATE]: { BOX: [...items, inputRow()] } }, now),
+        sync: (url = endpoint) => runSync(store, createRestAdapter({ endpoint: url, token: 'team' }), applyRemote),
+        resolve: (itemId: string, keep: 'local' | 'remote') => {
+            const result = resolveConflict(state, itemId, keep);
+            state = result.state;
+            if (result.apply) applyRemote([result.apply]);
+        },
+        serial: (id: string) => data[DATE]?.BOX.find(i => i.id === id)?.serial,
+        // Data replaced behind the sync's back, e.g. quarantined on load, then scanned.
+        loseDataAndScan: () => {
+            data = {};
+            state = scanData(state, data);
+        },
+    };
+};
+
+const serverItems = async () => (await (await fetch(`${endpoint}/_dump`, { headers: { Authorization: 'Bearer team' } })).json()).items as RemoteChange[];
+
+describe('sync with the mock server', () => {
+    it('keeps edits in the outbox while offline and replays them later', async () => {
+        const a = createDevice('lastWriteWins');
+        a.edit([item('i1', 'S1')], 1000);
+        a.edit([item('i1', 'S1'), item('i2', 'S2')], 2000);
+        expect(Object.keys(a.state.outbox).sort()).toEqual(['i1', 'i2']);
+
+        await expect(a.sync('http://localhost:9')).rejects.toThrow();
+        expect(Object.keys(a.state.outbox).sort()).toEqual(['i1', 'i2']);
+
+        await a.sync();
+        expect(a.state.outbox).toEqual({});
+        expect((await serverItems()).map(c => c.item?.serial).sort()).toEqual(['S1', 'S2']);
+
+        const b = createDevice('lastWriteWins');
+        await b.sync();
+        expect(b.serial('i1')).toBe('S1');
+        expect(b.serial('i2')).toBe('S2');
+        expect(b.state.outbox).toEqual({});
+    });
+
+    it('keeps the newest edit of each item with last-write-wins', async () => {
+        const a = createDevice('lastWriteWins');
+        const b = createDevice('lastWriteWins');
+        a.edit([item('i1', 'S1'), item('i2', 'T1')], 1000);
+        await a.sync();
+        await b.sync();
+
+        // i1: b edits last; i2: a edits last.
+        a.edit([item('i1', 'A-old'), item('i2', 'T1')], 2000);
+        a.edit([item('i1', 'A-old'), item('i2', 'A-new')], 5000);
+        b.edit([item('i1', 'B-new'), item('i2', 'T1')], 4000);
+        b.edit([item('i1', 'B-new'), item('i2', 'B-old')], 3000);
+        await a.sync();
+        await b.sync();
+        await a.sync();
+
+        expect([a.serial('i1'), a.serial('i2')]).toEqual(['B-new', 'A-new']);
+        expect([b.serial('i1'), b.serial('i2')]).toEqual(['B-new', 'A-new']);
+        expect(a.state.outbox).toEqual({});
+        expect(b.state.outbox).toEqual({});
+    });
+
+    it('asks when the same item changed on both sides', async () => {
+        const a = createDevice('lastWriteWins');
+        const b = createDevice('ask');
+        a.edit([item('i1', 'S1')], 1000);
+        await a.sync();
+        await b.sync();
+
+        a.edit([item('i1', 'FROM-A')], 2000);
+        b.edit([item('i1', 'FROM-B')], 3000);
+        await a.sync();
+        await b.sync();
+
+        expect(Object.keys(b.state.conflicts)).toEqual(['i1']);
+        expect(b.state.conflicts.i1.item?.serial).toBe('FROM-A');
+        expect(b.serial('i1')).toBe('FROM-B');
+
+        b.resolve('i1', 'local');
+        await b.sync();
+        expect(b.state.outbox).toEqual({});
+        await a.sync();
+        expect(a.serial('i1')).toBe('FROM-B');
+    });
+
+    it('applies the server copy when the user picks it', async () => {
+        const a = createDevice('lastWriteWins');
+        const b = createDevice('ask');
+        a.edit([item('i1', 'S1')], 1000);
+        await a.sync();
+        await b.sync();
+        a.edit([item('i1', 'FROM-A')], 2000);
+        b.edit([item('i1', 'FROM-B')], 3000);
+        await a.sync();
+        await b.sync();
+
+        b.resolve('i1', 'remote');
+        expect(b.serial('i1')).toBe('FROM-A');
+        expect(b.state.outbox).toEqual({});
+        expect(b.state.conflicts).toEqual({});
+    });
+
+    it('never sends photo IDs and keeps local photos when the server copy wins', async () => {
+        const a = createDevice('lastWriteWins');
+        const b = createDevice('lastWriteWins');
+        a.edit([item('i1', 'S1', ['photo-a'])], 1000);
+        await a.sync();
+        expect((await serverItems())[0].item?.photos).toEqual([]);
+
+        await b.sync();
+        expect(b.data[DATE].BOX[0].photos).toEqual([]);
+
+        // Adding a photo is not a change to sync.
+        a.edit([item('i1', 'S1', ['photo-a', 'photo-b'])], 2000);
+        expect(a.state.outbox).toEqual({});
+
+        b.edit([item('i1', 'S2')], 3000);
+        await b.sync();
+        await a.sync();
+        expect(a.serial('i1')).toBe('S2');
+        expect(a.data[DATE].BOX[0].photos).toEqual(['photo-a', 'photo-b']);
+        expect(a.state.outbox).toEqual({});
+    });
+
+    it('sends deletions', async () => {
+        const a = createDevice('lastWriteWins');
+        const b = createDevice('lastWriteWins');
+        a.edit([item('i1', 'S1'), item('i2', 'S2')], 1000);
+        await a.sync();
+        await b.sync();
+
+        a.edit([item('i2', 'S2')], 2000);
+        await a.sync();
+        await b.sync();
+        expect(b.serial('i1')).toBeUndefined();
+        expect((await serverItems()).find(c => c.itemId === 'i1')?.item).toBeNull();
+    });
+
+    it('does not send deletions found by a scan', async () => {
+        const a = createDevice('lastWriteWins');
+        a.edit([item('i1', 'S1')], 1000);
+        await a.sync();
+
+        a.loseDataAndScan();
+        expect(a.state.outbox).toEqual({});
+        await a.sync();
+        expect((await serverItems())[0].item?.serial).toBe('S1');
+    });
+});
@@ -0,0 +1,352 @@
+import { AppData, DatedItem, EquipmentItem } from '../types';
+import { isItemActive } from './appData';
+import { ListChange } from './history';
+import { openText, sealText } from './crypto';
+import { writeLatest } from './storage';
+
+// Sync with a self-hosted server, item by item. The server keeps one record per
+// EquipmentItem.id with a version number it increments on every accepted change:
+//
+//   GET  {endpoint}/changes?since=<cursor>  -> { changes: RemoteChange[], cursor, hasMore? }
+//   POST {endpoint}/changes { changes: PushChange[] } -> { applied: [{ itemId, version }], conflicts: RemoteChange[] }
+//
+// A push is accepted only when its baseVersion is the server's current version; otherwise
+// the server answers with its copy as a conflict. Local edits wait in an outbox until the
+// server accepts them, so the app works offline. Only item data travels: photos stay on the
+// device that took them, so items are sent with an empty `photos` list, photos are left out
+// of the comparison, and applying a remote change keeps the local photos (APPLY_REMOTE).
+// See scripts/mock-sync-server.mjs for a server to develop against.
+
+export const SYNC_STATE_KEY = 'syncState';
+
+const PULL_PAGES_MAX = 50;
+const PUSH_ATTEMPTS = 3;
+const DELETED = ''; // hash of a deleted item
+
+export type ConflictMode = 'lastWriteWins' | 'ask';
+
+export interface SyncSettings {
+    enabled: boolean;
+    endpoint: string; // e.g. "https://example.com/api/sync"
+    token: string; // sent as "Authorization: Bearer <token>" when set
+    conflictMode: ConflictMode;
+}
+
+export interface ItemChange {
+    itemId: string;
+    date: string;
+    category: string;
+    item: EquipmentItem | null; // null: deleted
+    updatedAt: number;
+}
+
+export interface RemoteChange extends ItemChange {
+    version: number;
+}
+
+export interface PushChange extends ItemChange {
+    baseVersion: number; // 0 for an item the server has never seen
+}
+
+export interface PullResult {
+    changes: RemoteChange[];
+    cursor: string;
+    hasMore?: boolean;
+}
+
+export interface PushResult {
+    applied: { itemId: string; version: number }[];
+    conflicts: RemoteChange[];
+}
+
+// The transport. createRestAdapter talks to the protocol above; anything else (another API,
+// a test double) only has to implement these two calls.
+export interface SyncAdapter {
+    pull: (cursor: string | null) => Promise<PullResult>;
+    push: (changes: PushChange[]) => Promise<PushResult>;
+}
+
+// The last version of an item both sides agreed on.
+interface SyncedItem {
+    version: number;
+    hash: string;
+    date: string;
+    category: string;
+}
+
+export interface SyncState {
+    settings: SyncSettings;
+    cursor: string | null;
+    synced: Record<string, SyncedItem>;
+    outbox: Record<string, ItemChange>; // local changes the server has not accepted yet
+    conflicts: Record<string, RemoteChange>; // server copies waiting for the user (conflictMode 'ask')
+    lastSyncAt: number | null;
+}
+
+export interface SyncStore {
+    get: () => SyncState;
+    set: (state: SyncState) => void;
+}
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = { enabled: false, endpoint: '', token: '', conflictMode: 'lastWriteWins' };
+
+export const createSyncState = (settings = DEFAULT_SYNC_SETTINGS): SyncState => ({
+    settings, cursor: null, synced: {}, outbox: {}, conflicts: {}, lastSyncAt: null,
+});
+
+// --- HASHING ---
+
+const stableStringify = (value: unknown): string => {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const record = value as Record<string, unknown>;
+        return `{${Object.keys(record).sort().filter(k => record[k] !== undefined).map(k => `${JSON.stringify(k)}:${stableStringify(record[k])}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+const fnv1a = (text: string, seed: number): string => {
+    let hash = seed;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// The copy of an item that goes to the server.
+const withoutPhotos = (item: EquipmentItem): EquipmentItem => item.photos.length === 0 ? item : { ...item, photos: [] };
+
+// Key order does not matter, so an item that went through the server hashes the same.
+export const hashItem = (item: EquipmentItem | null): string => {
+    if (!item) return DELETED;
+    const text = stableStringify(withoutPhotos(item));
+    return fnv1a(text, 0x811c9dc5) + fnv1a(text, 0x01000193);
+};
+
+// --- LOCAL CHANGES ---
+
+type Location = DatedItem | null; // null: not in the data, or only as a blank row
+
+// Puts the item in the outbox if it differs from the synced copy, and takes it out if an
+// edit or an undo brought it back. An unchanged pending entry keeps its timestamp.
+const recordLocal = (state: SyncState, itemId: string, location: Location, now: number): SyncState => {
+    const synced = state.synced[itemId];
+    const hash = hashItem(location?.item || null);
+    const isSynced = location
+        ? !!synced && synced.hash === hash && synced.date === location.date && synced.category === location.category
+        : !synced || synced.hash === DELETED;
+    const pending = state.outbox[itemId];
+
+    if (isSynced) {
+        if (!pending) return state;
+        const { [itemId]: _, ...outbox } = state.outbox;
+        return { ...state, outbox };
+    }
+    const change: ItemChange = location
+        ? { itemId, date: location.date, category: location.category, item: withoutPhotos(location.item), updatedAt: now }
+        : { itemId, date: synced!.date, category: synced!.category, item: null, updatedAt: now };
+    if (pending && hashItem(pending.item) === hash && pending.date === change.date && pending.category === change.category) return state;
+    return { ...state, outbox: { ...state.outbox, [itemId]: change } };
+};
+
+const findLocations = (lists: { date: string; category: string; items: EquipmentItem[] | null }[]): Map<string, DatedItem> => {
+    const locations = new Map<string, DatedItem>();
+    lists.forEach(({ date, category, items }) => (items || []).forEach(item => {
+        if (isItemActive(item)) locations.set(item.id, { date, category, item });
+    }));
+    return locations;
+};
+
+// Records the items touched by a change to the data (see diffData). An item missing from
+// every "after" list was deleted, or moved to a list that did not change, which cannot happen.
+export const trackChanges = (state: SyncState, changes: ListChange[], now = Date.now()): SyncState => {
+    if (changes.length === 0) return state;
+    const locations = findLocations(changes.map(c => ({ date: c.date, category: c.category, items: c.after })));
+    const ids = new Set<string>();
+    changes.forEach(c => [...(c.before || []), ...(c.after || [])].forEach(item => ids.add(item.id)));
+    let next = state;
+    ids.forEach(id => { next = recordLocal(next, id, locations.get(id) || null, now); });
+    return next;
+};
+
+// Queues every item that differs from the server, e.g. when sync is turned on. It only
+// uploads: deletions are sent when seen happening, so a device that lost its data
+// (quarantine, cleared storage) cannot wipe the server.
+export const scanData = (state: SyncState, data: AppData, now = Date.now()): SyncState => {
+    const lists = Object.entries(data).flatMap(([date, day]) => Object.entries(day).map(([category, items]) => ({ date, category, items })));
+    let next = state;
+    findLocations(lists).forEach((location, id) => { next = recordLocal(next, id, location, now); });
+    return next;
+};
+
+// --- REMOTE CHANGES ---
+
+const acceptRemote = (state: SyncState, remote: RemoteChange): SyncState => {
+    const { [remote.itemId]: _o, ...outbox } = state.outbox;
+    const { [remote.itemId]: _c, ...conflicts } = state.conflicts;
+    const synced = { ...state.synced, [remote.itemId]: { version: remote.version, hash: hashItem(remote.item), date: remote.date, category: remote.category } };
+    return { ...state, synced, outbox, conflicts };
+};
+
+// Keeps the local change but bases it on the server's version, so the next push replaces it.
+const overrideRemote = (state: SyncState, remote: RemoteChange): SyncState => {
+    const { [remote.itemId]: _, ...conflicts } = state.conflicts;
+    const synced = { ...state.synced, [remote.itemId]: { version: remote.version, hash: hashItem(remote.item), date: remote.date, category: remote.category } };
+    return { ...state, synced, conflicts };
+};
+
+const sameContent = (a: ItemChange, b: ItemChange) => hashItem(a.item) === hashItem(b.item) && (!a.item || (a.date === b.date && a.category === b.category));
+
+// Both sides changed the item. Returns the remote change when it has to be applied locally.
+const resolve = (state: SyncState, local: ItemChange, remote: RemoteChange, mode: ConflictMode): { state: SyncState; apply: RemoteChange | null } => {
+    if (sameContent(local, remote)) return { state: acceptRemote(state, remote), apply: null };
+    if (mode === 'ask') return { state: { ...state, conflicts: { ...state.conflicts, [remote.itemId]: remote } }, apply: null };
+    // Ties go to the server, so every device settles on the same copy.
+    return local.updatedAt > remote.updatedAt
+        ? { state: overrideRemote(state, remote), apply: null }
+        : { state: acceptRemote(state, remote), apply: remote };
+};
+
+export const resolveConflict = (state: SyncState, itemId: string, keep: 'local' | 'remote'): { state: SyncState; apply: RemoteChange | null } => {
+    const remote = state.conflicts[itemId];
+    if (!remote) return { state, apply: null };
+    return keep === 'remote' ? { state: acceptRemote(state, remote), apply: remote } : { state: overrideRemote(state, remote), apply: null };
+};
+
+// Payload for the APPLY_REMOTE data action.
+export const toRemotePayload = (changes: RemoteChange[]): { upserts: DatedItem[]; removed: string[] } => ({
+    upserts: changes.filter(c => c.item).map(c => ({ date: c.date, category: c.category, item: c.item! })),
+    removed: changes.filter(c => !c.item).map(c => c.itemId),
+});
+
+// --- RUN ---
+
+// Pulls, then pushes the outbox. The state is read from the store again after every request
+// because the user keeps editing meanwhile; pulled changes are handed to onRemote right away
+// for the same reason.
+export const runSync = async (store: SyncStore, adapter: SyncAdapter, onRemote: (changes: RemoteChange[]) => void, now = Date.now): Promise<void> => {
+    for (let page = 0; page < PULL_PAGES_MAX; page++) {
+        const result = await adapter.pull(store.get().cursor);
+        let state = store.get();
+        const incoming: RemoteChange[] = [];
+        result.changes.forEach(remote => {
+            const known = state.synced[remote.itemId];
+            if (known && known.version >= remote.version) return; // our own push coming back
+            const local = state.outbox[remote.itemId];
+            if (!local) {
+                state = acceptRemote(state, remote);
+                incoming.push(remote);
+                return;
+            }
+            const resolved = resolve(state, local, remote, state.settings.conflictMode);
+            state = resolved.state;
+            if (resolved.apply) incoming.push(resolved.apply);
+        });
+        store.set({ ...state, cursor: result.cursor });
+        if (incoming.length > 0) onRemote(incoming);
+        if (!result.hasMore) break;
+    }
+
+    for (let attempt = 0; attempt < PUSH_ATTEMPTS; attempt++) {
+        const before = store.get();
+        const pending = Object.values(before.outbox).filter(change => !before.conflicts[change.itemId]);
+        if (pending.length === 0) break;
+        const result = await adapter.push(pending.map(change => ({ ...change, baseVersion: before.synced[change.itemId]?.version || 0 })));
+
+        let state = store.get();
+        const incoming: RemoteChange[] = [];
+        result.applied.forEach(({ itemId, version }) => {
+            const sent = pending.find(change => change.itemId === itemId);
+            if (!sent) return;
+            const current = state.outbox[itemId];
+            // An edit made during the request stays queued, now based on the new version.
+            const outbox = { ...state.outbox };
+            if (current && current.updatedAt === sent.updatedAt) delete outbox[itemId];
+            state = { ...state, outbox, synced: { ...state.synced, [itemId]: { version, hash: hashItem(sent.item), date: sent.date, category: sent.category } } };
+        });
+        result.conflicts.forEach(remote => {
+            const local = state.outbox[remote.itemId];
+            if (!local) return;
+            const resolved = resolve(state, local, remote, state.settings.conflictMode);
+            state = resolved.state;
+            if (resolved.apply) incoming.push(resolved.apply);
+        });
+        store.set(state);
+        if (incoming.length > 0) onRemote(incoming);
+        if (result.conflicts.length === 0) break;
+    }
+
+    store.set({ ...store.get(), lastSyncAt: now() });
+};
+
+// --- REST ---
+
+const isRemoteChange = (value: any): value is RemoteChange => {
+    return typeof value === 'object' && value !== null
+        && typeof value.itemId === 'string' && typeof value.date === 'string' && typeof value.category === 'string'
+        && typeof value.version === 'number' && typeof value.updatedAt === 'number'
+        && (value.item === null || (typeof value.item === 'object' && value.item.id === value.itemId && Array.isArray(value.item.photos)));
+};
+
+const readChanges = (value: unknown): RemoteChange[] => {
+    if (!Array.isArray(value) || !value.every(isRemoteChange)) throw new Error('Resposta inválida do servidor');
+    return value;
+};
+
+export const createRestAdapter = ({ endpoint, token }: Pick<SyncSettings, 'endpoint' | 'token'>, fetchImpl: typeof fetch = (input, init) => fetch(input, init)): SyncAdapter => {
+    const base = endpoint.trim().replace(/\/+$/, '');
+    const request = async (path: string, init?: RequestInit): Promise<any> => {
+        const response = await fetchImpl(`${base}${path}`, {
+            ...init,
+            headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+        });
+        if (!response.ok) throw new Error(response.status === 401 || response.status === 403 ? 'Token recusado pelo servidor' : `Servidor respondeu ${response.status}`);
+        return response.json();
+    };
+
+    return {
+        pull: async cursor => {
+            const body = await request(`/changes${cursor ? `?since=${encodeURIComponent(cursor)}` : ''}`);
+            if (typeof body?.cursor !== 'string') throw new Error('Resposta inválida do servidor');
+            return { changes: readChanges(body.changes), cursor: body.cursor, hasMore: body.hasMore === true };
+        },
+        push: async changes => {
+            const body = await request('/changes', { method: 'POST', body: JSON.stringify({ changes }) });
+            if (!Array.isArray(body?.applied)) throw new Error('Resposta inválida do servidor');
+            return { applied: body.applied, conflicts: readChanges(body.conflicts || []) };
+        },
+    };
+};
+
+// --- PERSISTENCE ---
+
+// Changing the server or the token starts over: versions and cursor belong to the old one,
+// and every item is queued again by scanData.
+export const updateSyncSettings = (state: SyncState, settings: SyncSettings): SyncState => {
+    const sameServer = settings.endpoint.trim() === state.settings.endpoint.trim() && settings.token === state.settings.token;
+    return sameServer ? { ...state, settings } : createSyncState(settings);
+};
+
+const isSyncState = (value: any): value is SyncState => {
+    return typeof value === 'object' && value !== null
+        && typeof value.settings === 'object' && value.settings !== null && typeof value.settings.endpoint === 'string'
+        && typeof value.synced === 'object' && typeof value.outbox === 'object' && typeof value.conflicts === 'object';
+};
+
+// Holds item copies in the outbox and the token, so it is encrypted like the data.
+export const loadSyncState = async (key = SYNC_STATE_KEY): Promise<SyncState> => {
+    try {
+        const raw = localStorage.getItem(key);
+        if (!raw) return createSyncState();
+        const parsed = JSON.parse(await openText(raw));
+        return isSyncState(parsed) ? { ...createSyncState(), ...parsed, settings: { ...DEFAULT_SYNC_SETTINGS, ...parsed.settings } } : createSyncState();
+    } catch (e) {
+        console.error(e);
+        return createSyncState();
+    }
+};
+
+export const saveSyncState = (state: SyncState, key = SYNC_STATE_KEY): Promise<void> => {
+    return writeLatest(key, () => sealText(JSON.stringify(state)));
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { AppData, EquipmentItem } from '../types';
+import { getItemQuantity, getQuantityWarnings, resolveQuantity, sumDailyQuantity, sumMonthQuantity, sumQuantity } from './totals';
+import { selectMonthQuantity } from './selectors';
+
+const item = (qt: string, serial = 'S1'): EquipmentItem => ({ id: `i-${qt}-${serial}`, qt, contract: 'C1', serial, photos: [] });
+const blank: EquipmentItem = { id: 'blank', qt: '', contract: '', serial: '', photos: [] };
+
+describe('resolveQuantity', () => {
+    it.each([
+        ['', 1, 'implicit'],
+        ['   ', 1, 'implicit'],
+        ['1', 1, 'explicit'],
+        ['12', 12, 'explicit'],
+        [' 3 ', 3, 'explicit'],
+        ['abc', 1, 'invalid'],
+        ['0', 1, 'invalid'],
+        ['00', 1, 'invalid'],
+        ['1.5', 1, 'invalid'],
+        ['2,0', 1, 'invalid'],
+        ['-2', 1, 'invalid'],
+    ])('qt %j counts as %i (%s)', (qt, value, source) => {
+        expect(resolveQuantity(item(qt))).toEqual({ value, source });
+        expect(getItemQuantity(item(qt))).toBe(value);
+    });
+});
+
+describe('getQuantityWarnings', () => {
+    it('flags a serial with a quantity above 1', () => {
+        expect(getQuantityWarnings(item('3', 'S1'))).toEqual(['QT 3 com um único serial']);
+    });
+
+    it('does not flag a quantity without serial', () => {
+        expect(getQuantityWarnings(item('3', ''))).toEqual([]);
+    });
+
+    it('flags an invalid quantity', () => {
+        expect(getQuantityWarnings(item('x'))).toEqual(['QT "x" inválido, contado como 1']);
+    });
+
+    it('ignores the blank input row', () => {
+        expect(getQuantityWarnings(blank)).toEqual([]);
+    });
+});
+
+describe('sums', () => {
+    it('skip the blank input row', () => {
+        expect(sumQuantity([item(''), item('4'), blank])).toBe(5);
+        expect(sumDailyQuantity({ BOX: [item('2'), blank], CHIP: [blank] })).toBe(2);
+        expect(sumDailyQuantity(undefined)).toBe(0);
+    });
+
+    const data: AppData = {
+        '2026-01-31': { BOX: [item('10')] },
+        '2026-02-01': { BOX: [item('2'), blank], CHIP: [item('')] },
+        '2026-02-28': { BOX: [item('3')] },
+        '2026-03-01': { BOX: [item('100')] },
+        '2025-02-15': { BOX: [item('50')] },
+    };
+
+    it('sumMonthQuantity counts only the days of that month and year', () => {
+        expect(sumMonthQuantity(data, '2026-02-10')).toBe(6);
+        expect(sumMonthQuantity(data, '2026-01-01')).toBe(10);
+        expect(sumMonthQuantity(data, '2026-03-31')).toBe(100);
+        expect(sumMonthQuantity(data, '2025-02-28')).toBe(50);
+        expect(sumMonthQuantity(data, '2026-04-01')).toBe(0);
+    });
+
+    it('the footer selector agrees with sumMonthQuantity', () => {
+        ['2026-01-31', '2026-02-01', '2026-03-01', '2025-02-01'].forEach(date => {
+            expect(selectMonthQuantity(data, date)).toBe(sumMonthQuantity(data, date));
+        });
+    });
+});
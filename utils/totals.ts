@@ -0,0 +1,50 @@
+import { AppData, DailyData, EquipmentItem } from '../types';
+import { isItemActive } from './appData';
+
+// Quantity rules shared by SummaryFooter, the dashboard, every export and the share text, so
+// the same day never shows different totals in different places:
+// - only active items count (the blank input row never does);
+// - a blank QT counts as 1: one row is one piece of equipment;
+// - a whole number from 1 up counts as itself;
+// - anything else (0, letters, decimals from old data) also counts as 1 and is flagged on the row.
+
+export type QuantitySource = 'explicit' | 'implicit' | 'invalid';
+
+export const resolveQuantity = (item: EquipmentItem): { value: number; source: QuantitySource } => {
+    const qt = item.qt.trim();
+    if (qt === '') return { value: 1, source: 'implicit' };
+    if (/^\d+$/.test(qt) && Number(qt) >= 1) return { value: Number(qt), source: 'explicit' };
+    return { value: 1, source: 'invalid' };
+};
+
+// The number every report prints in the QT column.
+export const getItemQuantity = (item: EquipmentItem): number => resolveQuantity(item).value;
+
+// Rows worth a second look; the quantity still counts by the rules above.
+export const getQuantityWarnings = (item: EquipmentItem): string[] => {
+    if (!isItemActive(item)) return [];
+    const { value, source } = resolveQuantity(item);
+    const warnings: string[] = [];
+    if (source === 'invalid') warnings.push(`QT "${item.qt.trim()}" inválido, contado como 1`);
+    if (value > 1 && item.serial.trim() !== '') warnings.push(`QT ${value} com um único serial`);
+    return warnings;
+};
+
+export const sumQuantity = (items: EquipmentItem[]): number => {
+    return items.filter(isItemActive).reduce((acc, item) => acc + getItemQuantity(item), 0);
+};
+
+export const sumDailyQuantity = (data: DailyData | undefined): number => {
+    if (!data) return 0;
+    return Object.values(data).reduce((sum, items) => sum + sumQuantity(items), 0);
+};
+
+// Month total ("SOMA TOTAL") for the month containing `date` (YYYY-MM-DD): every stored day
+// whose key is in that month, however many days the month has. SummaryFooter passes its
+// cached day total (utils/selectors) as sumDay.
+export const sumMonthQuantity = (appData: AppData, date: string, sumDay: (data: DailyData | undefined) => number = sumDailyQuantity): number => {
+    const monthPrefix = date.substring(0, 7);
+    return Object.keys(appData)
+        .filter(key => key.startsWith(monthPrefix))
+        .reduce((sum, key) => sum + sumDay(appData[key]), 0);
+};
@@ -0,0 +1,196 @@
+import { CategoryConfig, DatedItem } from '../types';
+import { getItemQuantity, sumQuantity } from './totals';
+import { createZip } from './zip';
+import { formatDateKey } from './dateRange';
+import { getCategoryName, resolveCategories } from './categories';
+import { describeCustomFields, getCustomFields, getFieldValue } from './fields';
+
+// Office Open XML (SpreadsheetML) writer. Strings are written as inline strings with the
+// "@" text format so serials like 000123 keep their leading zeros.
+
+export type CellStyle = 'bold' | 'text' | 'boldText';
+export type Cell = string | number | null | { value: string | number; style?: CellStyle };
+
+export interface Sheet {
+    name: string;
+    rows: Cell[][];
+    columnWidths?: number[];
+}
+
+const STYLE_INDEX: Record<CellStyle, number> = { bold: 1, text: 2, boldText: 3 };
+
+const escapeXml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const columnName = (index: number): string => {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+};
+
+export const sanitizeSheetName = (name: string, used: Set<string>): string => {
+    const base = (name.replace(/[\[\]:*?\/\\]/g, ' ').trim() || 'Planilha').substring(0, 31);
+    let candidate = base;
+    for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+        const suffix = ` (${i})`;
+        candidate = base.substring(0, 31 - suffix.length) + suffix;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+};
+
+const renderCell = (cell: Cell, ref: string): string => {
+    if (cell === null || cell === '') return '';
+    const { value, style } = typeof cell === 'object' ? cell : { value: cell, style: undefined };
+    const styleAttr = style ? ` s="${STYLE_INDEX[style]}"` : '';
+    if (typeof value === 'number') return `<c r="${ref}"${styleAttr}><v>${value}</v></c>`;
+    return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const renderSheet = (sheet: Sheet): string => {
+    const cols = sheet.columnWidths
+        ? `<cols>${sheet.columnWidths.map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`).join('')}</cols>`
+        : '';
+    const rows = sheet.rows.map((row, r) => {
+        const cells = row.map((cell, c) => renderCell(cell, `${columnName(c)}${r + 1}`)).join('');
+        return `<row r="${r + 1}">${cells}</row>`;
+    }).join('');
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">${cols}<sheetData>${rows}</sheetData></worksheet>`;
+};
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="4">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="49" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="49" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+export const createXlsx = (sheets: Sheet[]): Blob => {
+    const used = new Set<string>();
+    const names = sheets.map(sheet => sanitizeSheetName(sheet.name, used));
+
+    const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+</Types>`;
+
+    const rootRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+    const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>
+</workbook>`;
+
+    const workbookRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('\n')}
+<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+    const zip = createZip([
+        { name: '[Content_Types].xml', content: contentTypes },
+        { name: '_rels/.rels', content: rootRels },
+        { name: 'xl/workbook.xml', content: workbook },
+        { name: 'xl/_rels/workbook.xml.rels', content: workbookRels },
+        { name: 'xl/styles.xml', content: STYLES_XML },
+        ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, content: renderSheet(sheet) })),
+    ]);
+    return new Blob([zip], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+// --- EQUIPMENT REPORT ---
+
+const text = (value: string): Cell => ({ value, style: 'text' });
+const bold = (value: string | number): Cell => ({ value, style: 'bold' });
+
+// One summary sheet with the same per-category totals as SummaryFooter, then one sheet per category.
+// A Data column is added when the report spans more than one day.
+export const createEquipmentXlsx = (entries: DatedItem[], label: string, categories: CategoryConfig[], technician?: string): Blob => {
+    const multiDay = new Set(entries.map(e => e.date)).size > 1;
+    const reportCategories = resolveCategories(categories, entries.map(e => e.category));
+    const entriesOf = (cat: string) => entries.filter(e => e.category === cat);
+
+    const summaryRows: Cell[][] = [
+        [bold(`Relatório - ${label}`)],
+        ...(technician ? [[text(`Técnico: ${technician}`)]] : []),
+        [],
+        [bold('Categoria'), bold('Itens'), bold('Quantidade')],
+    ];
+    let totalItems = 0;
+    let totalQuantity = 0;
+    reportCategories.forEach(cat => {
+        const items = entriesOf(cat.id).map(e => e.item);
+        const quantity = sumQuantity(items);
+        totalItems += items.length;
+        totalQuantity += quantity;
+        summaryRows.push([text(cat.name), items.length, quantity]);
+    });
+    summaryRows.push([bold('TOTAL'), bold(totalItems), bold(totalQuantity)]);
+
+    const categorySheets: Sheet[] = reportCategories.map(cat => {
+        const catEntries = entriesOf(cat.id);
+        const customFields = getCustomFields(cat);
+        const dateColumn = (e: DatedItem): Cell[] => multiDay ? [text(formatDateKey(e.date))] : [];
+        return {
+            name: cat.name,
+            columnWidths: [...(multiDay ? [12] : []), 8, 16, 26, ...customFields.map(() => 22), 8],
+            rows: [
+                [...(multiDay ? [bold('Data')] : []), bold('QT'), bold('Contrato'), bold('Serial'), ...customFields.map(f => bold(f.label)), bold('Fotos')],
+                ...catEntries.map(e => [
+                    ...dateColumn(e), getItemQuantity(e.item), text(e.item.contract), text(e.item.serial),
+                    ...customFields.map(f => text(getFieldValue(e.item, f))),
+                    e.item.photos.length,
+                ]),
+                [],
+                [...(multiDay ? [null] : []), bold(sumQuantity(catEntries.map(e => e.item))), bold('TOTAL')],
+            ],
+        };
+    });
+
+    return createXlsx([
+        { name: 'Resumo', columnWidths: [24, 10, 12], rows: summaryRows },
+        ...categorySheets,
+    ]);
+};
+
+// Single sheet with everything registered under one contract.
+export const createContractXlsx = (contract: string, entries: DatedItem[], categories: CategoryConfig[]): Blob => {
+    return createXlsx([{
+        name: `Contrato ${contract}`,
+        columnWidths: [12, 20, 8, 26, 40, 8],
+        rows: [
+            [bold(`Contrato ${contract}`)],
+            [],
+            [bold('Data'), bold('Categoria'), bold('QT'), bold('Serial'), bold('Detalhes'), bold('Fotos')],
+            ...entries.map(e => [
+                text(formatDateKey(e.date)), text(getCategoryName(categories, e.category)), getItemQuantity(e.item), text(e.item.serial),
+                text(describeCustomFields(e.item, categories.find(c => c.id === e.category), '; ')),
+                e.item.photos.length,
+            ]),
+            [],
+            [bold('TOTAL'), null, bold(sumQuantity(entries.map(e => e.item)))],
+        ],
+    }]);
+};
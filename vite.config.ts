@@ -1,7 +1,32 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Emits sw.js with the built files as its precache list. The cache name hashes their
+// contents, so each deploy installs a new worker and the app can offer the update.
+const serviceWorker = (): Plugin => ({
+  name: 'service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const hash = createHash('sha256');
+    const files = Object.values(bundle)
+      .filter(output => !output.fileName.endsWith('.map'))
+      .sort((a, b) => a.fileName.localeCompare(b.fileName))
+      .map(output => {
+        hash.update(output.fileName).update(output.type === 'chunk' ? output.code : output.source);
+        return `/${output.fileName}`;
+      });
+    const publicFiles = fs.readdirSync(path.resolve(__dirname, 'public')).map(file => `/${file}`);
+    const source = fs.readFileSync(path.resolve(__dirname, 'sw-template.js'), 'utf-8')
+      .replace('__PRECACHE__', JSON.stringify(['/', ...files, ...publicFiles]))
+      .replace('__VERSION__', JSON.stringify(hash.digest('hex').slice(0, 12)));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +34,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)